@@ -0,0 +1,28 @@
+import {
+    defraIndexFromPollutants,
+    epaIndexFromAqi,
+    epaIndexFromPollutants,
+    getAirQualityCategory,
+} from "./air-quality-index";
+
+describe("air quality index", () => {
+    it("should take the worst pollutant level", () => {
+        expect(epaIndexFromPollutants({pm2_5: 10, pm10: 160, o3: null, no2: null})).toBe(3);
+        expect(defraIndexFromPollutants({pm2_5: 10, pm10: 20, o3: 250, no2: 50})).toBe(10);
+        expect(epaIndexFromPollutants({pm2_5: null, pm10: null, o3: 40, no2: 10})).toBeNull();
+    });
+
+    it("should map a numeric US AQI to its level", () => {
+        expect(epaIndexFromAqi(50)).toBe(1);
+        expect(epaIndexFromAqi(151)).toBe(4);
+        expect(epaIndexFromAqi(420)).toBe(6);
+    });
+
+    it("should group DEFRA levels into bands", () => {
+        expect(getAirQualityCategory("gb-defra", 3)?.id).toBe("low");
+        expect(getAirQualityCategory("gb-defra", 7)?.id).toBe("high");
+        expect(getAirQualityCategory("gb-defra", 10)?.id).toBe("veryHigh");
+        expect(getAirQualityCategory("us-epa", 3)?.id).toBe("unhealthyForSensitiveGroups");
+        expect(getAirQualityCategory("us-epa", 7)).toBeNull();
+    });
+});
@@ -0,0 +1,126 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+/**
+ * Air quality indices
+ * ------------------------------------------------------------------------
+ * WeatherAPI returns both the US EPA and the UK DEFRA index. For providers that
+ * only return pollutant concentrations (µg/m³), the indices are derived from the
+ * published breakpoints of the pollutants we have.
+ */
+
+export type AirQualityIndexId = "us-epa" | "gb-defra";
+
+/**
+ * Upper bounds per index level, the level is the first bound the concentration doesn't exceed
+ */
+type Breakpoints = number[];
+
+// US EPA, levels 1-6 (Good ... Hazardous). PM breakpoints only, which dominate the AQI in practice.
+const EPA_BREAKPOINTS: Record<"pm2_5" | "pm10", Breakpoints> = {
+  pm2_5: [12, 35.4, 55.4, 150.4, 250.4],
+  pm10: [54, 154, 254, 354, 424],
+};
+
+// UK DEFRA Daily Air Quality Index, levels 1-10
+const DEFRA_BREAKPOINTS: Record<"pm2_5" | "pm10" | "o3" | "no2", Breakpoints> = {
+  pm2_5: [11, 23, 35, 41, 47, 53, 58, 64, 70],
+  pm10: [16, 33, 50, 58, 66, 75, 83, 91, 100],
+  o3: [33, 66, 100, 120, 140, 160, 187, 213, 240],
+  no2: [67, 134, 200, 267, 334, 400, 467, 534, 600],
+};
+
+/**
+ * Pollutant concentrations in µg/m³, null if the provider doesn't report them
+ */
+export interface Pollutants {
+  pm2_5: number | null;
+  pm10: number | null;
+  o3: number | null;
+  no2: number | null;
+}
+
+const levelFor = (value: number, breakpoints: Breakpoints): number => {
+  const index = breakpoints.findIndex((bound) => value <= bound);
+  return index === -1 ? breakpoints.length + 1 : index + 1;
+};
+
+/**
+ * The overall index is the worst level of all pollutants that have breakpoints
+ */
+function indexFromPollutants(pollutants: Pollutants, breakpoints: Partial<Record<keyof Pollutants, Breakpoints>>): number | null {
+  const levels = (Object.keys(breakpoints) as (keyof Pollutants)[])
+    .filter((pollutant) => typeof pollutants[pollutant] === "number")
+    .map((pollutant) => levelFor(pollutants[pollutant] as number, breakpoints[pollutant] as Breakpoints));
+  return levels.length ? Math.max(...levels) : null;
+}
+
+export const epaIndexFromPollutants = (pollutants: Pollutants): number | null =>
+  indexFromPollutants(pollutants, EPA_BREAKPOINTS);
+
+export const defraIndexFromPollutants = (pollutants: Pollutants): number | null =>
+  indexFromPollutants(pollutants, DEFRA_BREAKPOINTS);
+
+/**
+ * Turn a numeric US AQI (0-500) into the EPA level (1-6)
+ */
+export const epaIndexFromAqi = (aqi: number): number => levelFor(aqi, [50, 100, 150, 200, 300]);
+
+export type AirQualityCategoryId =
+  | "good"
+  | "moderate"
+  | "unhealthyForSensitiveGroups"
+  | "unhealthy"
+  | "veryUnhealthy"
+  | "hazardous"
+  | "low"
+  | "high"
+  | "veryHigh";
+
+/**
+ * Name and color of an index level, the name is translated through Messages.airQualityCategories
+ */
+export interface AirQualityCategory {
+  id: AirQualityCategoryId;
+  color: string;
+  textColor: string; // readable on `color`
+}
+
+const EPA_CATEGORIES: AirQualityCategory[] = [
+  { id: "good", color: "#00e400", textColor: "#000" },
+  { id: "moderate", color: "#ffff00", textColor: "#000" },
+  { id: "unhealthyForSensitiveGroups", color: "#ff7e00", textColor: "#000" },
+  { id: "unhealthy", color: "#ff0000", textColor: "#fff" },
+  { id: "veryUnhealthy", color: "#8f3f97", textColor: "#fff" },
+  { id: "hazardous", color: "#7e0023", textColor: "#fff" },
+];
+
+const DEFRA_CATEGORIES: AirQualityCategory[] = [
+  { id: "low", color: "#00e400", textColor: "#000" },
+  { id: "moderate", color: "#ff7e00", textColor: "#000" },
+  { id: "high", color: "#ff0000", textColor: "#fff" },
+  { id: "veryHigh", color: "#8f3f97", textColor: "#fff" },
+];
+
+/**
+ * Get the category of an index level, null for levels out of range
+ */
+export function getAirQualityCategory(index: AirQualityIndexId, level: number): AirQualityCategory | null {
+  if (index === "us-epa") {
+    return EPA_CATEGORIES[level - 1] ?? null;
+  }
+  // DEFRA bands: 1-3 low, 4-6 moderate, 7-9 high, 10 very high
+  if (level < 1 || level > 10) return null;
+  return DEFRA_CATEGORIES[Math.min(3, Math.floor((level - 1) / 3))];
+}
@@ -0,0 +1,51 @@
+import React from "react"
+import {screen, render, fireEvent} from "@testing-library/react"
+
+import {AirQualityBadge} from "./air-quality";
+import {getMessages} from "./messages";
+
+const airQuality = {usEpaIndex: 2, gbDefraIndex: 8, pm2_5: 20.4, pm10: 30, o3: 50, no2: null};
+const messages = getMessages("en");
+
+describe("AirQualityBadge", () => {
+    it("should show the selected index with its category", () => {
+        const {rerender} = render(<AirQualityBadge airQuality={airQuality} index="us-epa" messages={messages}/>);
+
+        expect(screen.getByText("AQI 2")).toBeInTheDocument();
+        expect(screen.getByText("Moderate")).toHaveStyle({backgroundColor: "#ffff00"});
+
+        rerender(<AirQualityBadge airQuality={airQuality} index="gb-defra" messages={messages}/>);
+
+        expect(screen.getByText("DAQI 8")).toBeInTheDocument();
+        expect(screen.getByText("High")).toBeInTheDocument();
+    });
+
+    it("should list the reported pollutants on demand", () => {
+        render(<AirQualityBadge airQuality={airQuality} index="us-epa" messages={messages}/>);
+
+        expect(screen.queryByText(/PM2.5/)).not.toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole("button", {name: "Pollutants"}));
+
+        expect(screen.getByText("PM2.5: 20 µg/m³")).toBeInTheDocument();
+        expect(screen.getByText("O₃: 50 µg/m³")).toBeInTheDocument();
+        expect(screen.queryByText(/NO₂/)).not.toBeInTheDocument();
+    });
+
+    it("should translate the category and the pollutants button", () => {
+        render(<AirQualityBadge airQuality={airQuality} index="us-epa" messages={getMessages("de")}/>);
+
+        expect(screen.getByText("Mäßig")).toHaveStyle({backgroundColor: "#ffff00"});
+        expect(screen.getByRole("group", {name: "Luftqualität"})).toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole("button", {name: "Schadstoffe"}));
+
+        expect(screen.getByRole("button", {name: "Schadstoffe ausblenden"})).toBeInTheDocument();
+    });
+
+    it("should render nothing without the selected index", () => {
+        const {container} = render(<AirQualityBadge airQuality={{...airQuality, gbDefraIndex: null}} index="gb-defra" messages={messages}/>);
+
+        expect(container).toBeEmptyDOMElement();
+    });
+});
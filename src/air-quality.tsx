@@ -0,0 +1,82 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import React, { ReactElement, useState } from "react";
+import { AirQualityIndexId, getAirQualityCategory, Pollutants } from "./air-quality-index";
+import { Messages } from "./messages";
+import { AirQuality } from "./weather-providers";
+
+/**
+ * The React component properties
+ */
+export interface AirQualityBadgeProps {
+  airQuality: AirQuality;
+  index: AirQualityIndexId; // the index the admin picked
+  messages: Messages;
+}
+
+const POLLUTANT_LABELS: [keyof Pollutants, string][] = [
+  ["pm2_5", "PM2.5"],
+  ["pm10", "PM10"],
+  ["o3", "O₃"],
+  ["no2", "NO₂"],
+];
+
+/**
+ * Air quality badge
+ * ------------------------------------------------------------------------
+ * Shows the selected index with its color-coded category, the main
+ * pollutants are folded away until the user asks for them.
+ */
+export const AirQualityBadge = ({ airQuality, index, messages }: AirQualityBadgeProps): ReactElement | null => {
+  const [showPollutants, setShowPollutants] = useState<boolean>(false);
+  const level = index === "gb-defra" ? airQuality.gbDefraIndex : airQuality.usEpaIndex;
+  const category = level === null ? null : getAirQualityCategory(index, level);
+  if (level === null || !category) return null;
+
+  const pollutants = POLLUTANT_LABELS.filter(([key]) => airQuality[key] !== null);
+
+  return (
+    <div role="group" aria-label={messages.airQuality} className="weather-time__air-quality">
+      <span className="weather-time__air-quality-index">
+        {index === "gb-defra" ? "DAQI" : "AQI"} {level}
+      </span>
+      {/* The category's colors are part of the index, see air-quality-index.ts */}
+      <span
+        className="weather-time__air-quality-badge"
+        style={{ backgroundColor: category.color, color: category.textColor }}
+      >
+        {messages.airQualityCategories[category.id]}
+      </span>
+      {pollutants.length > 0 && (
+        <button
+          onClick={() => setShowPollutants((prev) => !prev)}
+          aria-expanded={showPollutants}
+          className="weather-time__air-quality-toggle"
+        >
+          {showPollutants ? messages.hidePollutants : messages.pollutants}
+        </button>
+      )}
+      {showPollutants && (
+        <ul className="weather-time__pollutants">
+          {pollutants.map(([key, label]) => (
+            <li key={key}>
+              {label}: {Math.round(airQuality[key] as number)} µg/m³
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from "react"
+import {screen, render} from "@testing-library/react"
+import {DateTime} from "luxon";
+
+import {AstronomyPanel, MoonIcon} from "./astronomy";
+import {getMessages} from "./messages";
+
+const astronomy = {
+    sunrise: Date.UTC(2024, 10, 26, 11, 56),
+    sunset: Date.UTC(2024, 10, 26, 21, 31),
+    moonPhase: "Waxing Crescent" as const,
+    moonIllumination: 20,
+};
+
+const renderAt = (millis: number) =>
+    render(<AstronomyPanel astronomy={astronomy} timeZone="America/New_York" locale="en-US" now={DateTime.fromMillis(millis)} messages={getMessages("en")}/>);
+
+describe("AstronomyPanel", () => {
+    it("should show sunrise and sunset in the city's time zone", () => {
+        renderAt(Date.UTC(2024, 10, 26, 15));
+
+        expect(screen.getByText(/Sunrise 6:56\sAM/)).toBeInTheDocument();
+        expect(screen.getByText(/Sunset 4:31\sPM/)).toBeInTheDocument();
+        expect(screen.getByRole("img", {name: "Waxing Crescent"})).toBeInTheDocument();
+    });
+
+    it("should show the daylight left", () => {
+        renderAt(Date.UTC(2024, 10, 26, 16, 45));
+
+        expect(screen.getByRole("progressbar")).toHaveAttribute("aria-valuenow", "50");
+        expect(screen.getByText("4h 46m of daylight left")).toBeInTheDocument();
+    });
+
+    it("should count down to sunrise and notice the sunset", () => {
+        const {unmount} = renderAt(Date.UTC(2024, 10, 26, 11, 26));
+        expect(screen.getByText("Sunrise in 30m")).toBeInTheDocument();
+        unmount();
+
+        renderAt(Date.UTC(2024, 10, 26, 22));
+        expect(screen.getByText("The sun has set")).toBeInTheDocument();
+    });
+});
+
+describe("AstronomyPanel in German", () => {
+    it("should translate the labels and the moon phase", () => {
+        render(<AstronomyPanel astronomy={astronomy} timeZone="America/New_York" locale="de-DE" now={DateTime.fromMillis(Date.UTC(2024, 10, 26, 16, 45))} messages={getMessages("de")}/>);
+
+        expect(screen.getByText("Sonnenaufgang 06:56")).toBeInTheDocument();
+        expect(screen.getByText("Sonnenuntergang 16:31")).toBeInTheDocument();
+        expect(screen.getByRole("img", {name: "Zunehmende Sichel"})).toBeInTheDocument();
+        expect(screen.getByText("Noch 4 Std. 46 Min. Tageslicht")).toBeInTheDocument();
+        expect(screen.getByRole("group", {name: "Sonne und Mond"})).toBeInTheDocument();
+        expect(screen.getByRole("progressbar", {name: "Tageslicht"})).toBeInTheDocument();
+    });
+});
+
+describe("MoonIcon", () => {
+    it("should leave the new moon unlit", () => {
+        const {container} = render(<MoonIcon phase="New Moon" illumination={0}/>);
+
+        expect(container.querySelector("path")).toBeNull();
+    });
+});
@@ -0,0 +1,138 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import React, { ReactElement } from "react";
+import { DateTime } from "luxon";
+import { formatMessage, Messages } from "./messages";
+import { Astronomy, MOON_PHASES, MoonPhase } from "./weather-providers";
+
+/**
+ * The React component properties
+ */
+export interface AstronomyPanelProps {
+  astronomy: Astronomy;
+  timeZone: string; // The city's tz_id, sunrise/sunset are shown in that zone
+  locale: string;
+  now: DateTime | null; // The ticking local time, drives the daylight progress
+  messages: Messages;
+}
+
+/**
+ * Format a duration in millis in the viewer's language, e.g. "2h 5m"
+ */
+const formatDuration = (millis: number, locale: string): string => {
+  const totalMinutes = Math.max(0, Math.round(millis / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const format = (value: number, unit: "hour" | "minute") =>
+    new Intl.NumberFormat(locale, { style: "unit", unit, unitDisplay: "narrow" }).format(value);
+  return hours > 0 ? `${format(hours, "hour")} ${format(minutes, "minute")}` : format(minutes, "minute");
+};
+
+/**
+ * Moon icon, drawn as an SVG so it matches any phase and illumination
+ * ------------------------------------------------------------------------
+ * The lit half is a semicircle on the right (waxing) or left (waning), the
+ * terminator an elliptical arc whose width follows the illumination.
+ */
+export const MoonIcon = ({ phase, illumination, size = 24, label = phase }: {
+  phase: MoonPhase;
+  illumination: number | null;
+  size?: number;
+  label?: string; // the phase's name in the viewer's language
+}): ReactElement => {
+  const phaseIndex = MOON_PHASES.indexOf(phase);
+  // Without an illumination value, use the typical one for the phase
+  const lit = (illumination ?? ((1 - Math.cos((phaseIndex / MOON_PHASES.length) * 2 * Math.PI)) / 2) * 100) / 100;
+  const isWaxing = phaseIndex > 0 && phaseIndex < 4;
+  const r = size / 2;
+  const terminatorRx = r * Math.abs(1 - 2 * lit);
+  const isGibbous = lit > 0.5;
+  // Arc from the top to the bottom around the lit side, then back along the terminator
+  const litSide = `M ${r} 0 A ${r} ${r} 0 0 ${isWaxing ? 1 : 0} ${r} ${size}`;
+  const terminator = `A ${terminatorRx} ${r} 0 0 ${isWaxing === isGibbous ? 1 : 0} ${r} 0`;
+
+  return (
+    <svg role="img" aria-label={label} width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
+      <circle cx={r} cy={r} r={r} fill="#4a4a4a" />
+      {lit > 0 && <path d={`${litSide} ${terminator} Z`} fill="#f4f1c9" />}
+    </svg>
+  );
+};
+
+/**
+ * Daylight state at `now`, e.g. "3h 12m of daylight left"
+ */
+function describeDaylight(
+  now: number,
+  sunrise: number | null,
+  sunset: number | null,
+  locale: string,
+  messages: Messages
+): { progress: number; label: string } | null {
+  if (sunrise === null || sunset === null || sunset <= sunrise) return null;
+  if (now < sunrise) {
+    return { progress: 0, label: formatMessage(messages.sunriseIn, { duration: formatDuration(sunrise - now, locale) }) };
+  }
+  if (now >= sunset) {
+    return { progress: 100, label: messages.sunHasSet };
+  }
+  return {
+    progress: Math.round(((now - sunrise) / (sunset - sunrise)) * 100),
+    label: formatMessage(messages.daylightLeft, { duration: formatDuration(sunset - now, locale) }),
+  };
+}
+
+/**
+ * Astronomy panel
+ * ------------------------------------------------------------------------
+ * Sunrise and sunset in the city's local time, how much daylight is left,
+ * and the moon phase.
+ */
+export const AstronomyPanel = ({ astronomy, timeZone, locale, now, messages }: AstronomyPanelProps): ReactElement => {
+  const { sunrise, sunset, moonPhase, moonIllumination } = astronomy;
+  const formatTime = (millis: number | null) =>
+    millis === null ? "–" : DateTime.fromMillis(millis, { zone: timeZone, locale }).toLocaleString(DateTime.TIME_SIMPLE);
+  const daylight = now ? describeDaylight(now.toMillis(), sunrise, sunset, locale, messages) : null;
+
+  return (
+    <div role="group" aria-label={messages.astronomy} className="weather-time__astronomy">
+      <div className="weather-time__astronomy-times">
+        <span>{formatMessage(messages.sunrise, { time: formatTime(sunrise) })}</span>
+        <span>{formatMessage(messages.sunset, { time: formatTime(sunset) })}</span>
+        {moonPhase && (
+          <span className="weather-time__moon">
+            <MoonIcon phase={moonPhase} illumination={moonIllumination} size={16} label={messages.moonPhases[moonPhase]} />
+            {messages.moonPhases[moonPhase]}
+          </span>
+        )}
+      </div>
+      {daylight && (
+        <>
+          <div
+            role="progressbar"
+            aria-label={messages.daylight}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={daylight.progress}
+            className="weather-time__daylight"
+          >
+            <div className="weather-time__daylight-bar" style={{ width: `${daylight.progress}%` }} />
+          </div>
+          <span className="weather-time__daylight-label">{daylight.label}</span>
+        </>
+      )}
+    </div>
+  );
+};
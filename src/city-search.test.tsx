@@ -0,0 +1,117 @@
+import React, {useState} from "react"
+import {screen, render, fireEvent, act} from "@testing-library/react"
+
+import {CitySearch, formatSuggestion, SEARCH_DELAY} from "./city-search";
+
+const oregon = {name: "Portland", region: "Oregon", country: "United States of America", lat: 45.52, lon: -122.68};
+const maine = {name: "Portland", region: "Maine", country: "United States of America", lat: 43.66, lon: -70.25};
+
+describe("CitySearch", () => {
+    const search = jest.fn();
+    const onSelect = jest.fn();
+    const onSubmit = jest.fn();
+
+    const Harness = ({initialValue = ""}: {initialValue?: string}) => {
+        const [value, setValue] = useState(initialValue);
+        return <CitySearch value={value} onChange={setValue} onSelect={onSelect} onSubmit={onSubmit} search={search}/>;
+    };
+
+    const type = async (text: string) => {
+        fireEvent.change(screen.getByRole("combobox"), {target: {value: text}});
+        await act(async () => {
+            jest.advanceTimersByTime(SEARCH_DELAY);
+        });
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        search.mockReset().mockResolvedValue([oregon, maine]);
+        onSelect.mockReset();
+        onSubmit.mockReset();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it("should format name, region and country", () => {
+        expect(formatSuggestion(oregon)).toBe("Portland, Oregon, United States of America");
+        expect(formatSuggestion({...oregon, region: ""})).toBe("Portland, United States of America");
+    });
+
+    it("should search once the user stops typing", async () => {
+        render(<Harness/>);
+
+        fireEvent.change(screen.getByRole("combobox"), {target: {value: "Po"}});
+        fireEvent.change(screen.getByRole("combobox"), {target: {value: "Por"}});
+        await type("Portl");
+
+        expect(search).toHaveBeenCalledTimes(1);
+        expect(search).toHaveBeenCalledWith("Portl");
+        expect(screen.getAllByRole("option").map((option) => option.textContent)).toEqual([
+            "Portland Oregon, United States of America",
+            "Portland Maine, United States of America",
+        ]);
+    });
+
+    it("should not search for a prefilled value", async () => {
+        render(<Harness initialValue="Portland, Oregon, United States of America"/>);
+
+        await act(async () => {
+            jest.advanceTimersByTime(SEARCH_DELAY);
+        });
+
+        expect(search).not.toHaveBeenCalled();
+    });
+
+    it("should not search for a single letter", async () => {
+        render(<Harness/>);
+
+        await type("P");
+
+        expect(search).not.toHaveBeenCalled();
+        expect(screen.queryByRole("listbox")).not.toBeInTheDocument();
+    });
+
+    it("should pick suggestions with the keyboard", async () => {
+        render(<Harness/>);
+        await type("Portl");
+        const input = screen.getByRole("combobox");
+
+        fireEvent.keyDown(input, {key: "ArrowDown"});
+        fireEvent.keyDown(input, {key: "ArrowDown"});
+        expect(screen.getAllByRole("option")[1]).toHaveAttribute("aria-selected", "true");
+        expect(input).toHaveAttribute("aria-activedescendant", screen.getAllByRole("option")[1].id);
+
+        // Wraps around
+        fireEvent.keyDown(input, {key: "ArrowDown"});
+        expect(screen.getAllByRole("option")[0]).toHaveAttribute("aria-selected", "true");
+        fireEvent.keyDown(input, {key: "ArrowUp"});
+        fireEvent.keyDown(input, {key: "Enter"});
+
+        expect(onSelect).toHaveBeenCalledWith(maine);
+        expect(onSubmit).not.toHaveBeenCalled();
+        expect(screen.queryByRole("listbox")).not.toBeInTheDocument();
+    });
+
+    it("should submit the text without a highlighted suggestion", async () => {
+        render(<Harness/>);
+        await type("Portl");
+
+        fireEvent.keyDown(screen.getByRole("combobox"), {key: "Escape"});
+        expect(screen.queryByRole("listbox")).not.toBeInTheDocument();
+
+        fireEvent.keyDown(screen.getByRole("combobox"), {key: "Enter"});
+        expect(onSubmit).toHaveBeenCalled();
+        expect(onSelect).not.toHaveBeenCalled();
+    });
+
+    it("should pick a suggestion with the mouse", async () => {
+        render(<Harness/>);
+        await type("Portl");
+
+        fireEvent.mouseDown(screen.getAllByRole("option")[0]);
+
+        expect(onSelect).toHaveBeenCalledWith(oregon);
+    });
+});
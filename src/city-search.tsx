@@ -0,0 +1,183 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+
+import React, { KeyboardEvent, ReactElement, useEffect, useId, useRef, useState } from "react";
+import { LocationSuggestion } from "./weather-providers";
+
+/**
+ * The React component properties
+ */
+export interface CitySearchProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (suggestion: LocationSuggestion) => void; // the user picked a suggestion
+  onSubmit: () => void; // Enter without a highlighted suggestion, use the text as is
+  search: (text: string) => Promise<LocationSuggestion[]>;
+  placeholder?: string;
+}
+
+// Wait for a typing pause before searching, so every keystroke doesn't cost a request
+export const SEARCH_DELAY = 300;
+const MIN_SEARCH_LENGTH = 2;
+
+/**
+ * "Portland, Oregon, United States of America", without the parts the provider doesn't know
+ */
+export const formatSuggestion = (suggestion: LocationSuggestion): string =>
+  [suggestion.name, suggestion.region, suggestion.country].filter(Boolean).join(", ");
+
+/**
+ * City search with suggestions
+ * ------------------------------------------------------------------------
+ * A text input that suggests matching places as the user types. Arrow keys move
+ * through the suggestions, Enter picks the highlighted one (or submits the text),
+ * Escape closes the list.
+ */
+export const CitySearch = ({
+  value,
+  onChange,
+  onSelect,
+  onSubmit,
+  search,
+  placeholder = "Type a city...",
+}: CitySearchProps): ReactElement => {
+  const listId = useId();
+  const [suggestions, setSuggestions] = useState<LocationSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  // Only what the user typed is searched, not a prefilled or picked value
+  const hasTypedRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    if (!hasTypedRef.current) return;
+    const text = value.trim();
+    if (text.length < MIN_SEARCH_LENGTH) {
+      setSuggestions([]);
+      setActiveIndex(-1);
+      return;
+    }
+    // Results of an outdated search (the user kept typing) are ignored
+    let isCurrent = true;
+    const timer = setTimeout(() => {
+      search(text).then((results) => {
+        if (!isCurrent) return;
+        setSuggestions(results);
+        setActiveIndex(-1);
+      });
+    }, SEARCH_DELAY);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+    // `search` is a new function on every render of the parent, the text is what matters
+  }, [value]);
+
+  const showList = isOpen && suggestions.length > 0;
+
+  const select = (suggestion: LocationSuggestion) => {
+    hasTypedRef.current = false;
+    setIsOpen(false);
+    onSelect(suggestion);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        if (suggestions.length === 0) return;
+        event.preventDefault();
+        const last = suggestions.length - 1;
+        // Wraps around at both ends
+        if (event.key === "ArrowDown") {
+          setActiveIndex((prev) => (prev >= last ? 0 : prev + 1));
+        } else {
+          setActiveIndex((prev) => (prev <= 0 ? last : prev - 1));
+        }
+        setIsOpen(true);
+        break;
+      }
+      case "Enter":
+        event.preventDefault();
+        if (showList && activeIndex >= 0) {
+          select(suggestions[activeIndex]);
+        } else {
+          onSubmit();
+        }
+        break;
+      case "Escape":
+        if (showList) {
+          // Only closes the list, not whatever the input is in
+          event.stopPropagation();
+          setIsOpen(false);
+          setActiveIndex(-1);
+        }
+        break;
+    }
+  };
+
+  return (
+    <div className="weather-time__search">
+      <input
+        type="text"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-activedescendant={showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          hasTypedRef.current = true;
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setIsOpen(false)}
+        className="weather-time__search-input"
+      />
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="weather-time__suggestions"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.lat},${suggestion.lon}`}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // mousedown instead of click, the input's blur would close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`weather-time__suggestion${index === activeIndex ? " weather-time__suggestion--active" : ""}`}
+            >
+              <b>{suggestion.name}</b>
+              {[suggestion.region, suggestion.country].filter(Boolean).length > 0 && (
+                <span className="weather-time__suggestion-detail">
+                  {" "}
+                  {[suggestion.region, suggestion.country].filter(Boolean).join(", ")}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import {confirmTimeZone, findCity, isValidTimeZone, resolveTimeZone} from "./city-time-zones";
+
+describe("city time zones", () => {
+    it("should accept IANA zones", () => {
+        expect(resolveTimeZone("America/New_York")).toEqual({zone: "America/New_York", name: "New York"});
+        expect(resolveTimeZone("UTC+5:30")).toEqual({zone: "UTC+5:30", name: "UTC+5:30"});
+    });
+
+    it("should look up bundled cities regardless of case and accents", () => {
+        expect(resolveTimeZone("são paulo")).toEqual({zone: "America/Sao_Paulo", name: "Sao Paulo"});
+        expect(resolveTimeZone(" TOKYO ")).toEqual({zone: "Asia/Tokyo", name: "Tokyo"});
+    });
+
+    it("should resolve aliases and former names", () => {
+        expect(resolveTimeZone("NYC")?.zone).toBe("America/New_York");
+        expect(resolveTimeZone("Bombay")).toEqual({zone: "Asia/Kolkata", name: "Mumbai"});
+        expect(resolveTimeZone("München")?.name).toBe("Munich");
+    });
+
+    it("should tell cities sharing a name apart by country or state", () => {
+        expect(findCity("Perth")?.zone).toBe("Australia/Perth");
+        expect(findCity("Perth, UK")?.zone).toBe("Europe/London");
+        expect(findCity("Portland, Maine")?.zone).toBe("America/New_York");
+        expect(findCity("Portland, Oregon, USA")?.zone).toBe("America/Los_Angeles");
+        expect(findCity("Portland, ME")?.zone).toBe("America/New_York");
+        expect(findCity("Portland, OR")?.zone).toBe("America/Los_Angeles");
+        expect(findCity("San Diego, CA")?.zone).toBe("America/Los_Angeles");
+        expect(findCity("Toronto, CA")?.zone).toBe("America/Toronto");
+        expect(findCity("Vancouver, BC")?.zone).toBe("America/Vancouver");
+        expect(findCity("Hyderabad, PK")?.zone).toBe("Asia/Karachi");
+        // A qualifier we don't know doesn't stop the lookup
+        expect(findCity("Berlin, Brandenburg")?.zone).toBe("Europe/Berlin");
+        expect(findCity("Portland, Oregon, Cascadia")?.zone).toBe("America/Los_Angeles");
+    });
+
+    it("should not guess a city in another country", () => {
+        expect(findCity("London, Canada")).toBeNull();
+        expect(findCity("Paris, US")).toBeNull();
+        expect(findCity("Portland, Texas")).toBeNull();
+        expect(findCity("Portland, TX")).toBeNull();
+        expect(findCity("London, ON")).toBeNull();
+        expect(resolveTimeZone("Paris, US")).toBeNull();
+        expect(findCity("Washington, DC")?.zone).toBe("America/New_York");
+    });
+
+    it("should keep the local zone when the provider confirms it", () => {
+        const summer = Date.UTC(2024, 6, 1);
+
+        expect(confirmTimeZone("Europe/Berlin", "UTC+2", summer)).toBe("Europe/Berlin");
+        expect(confirmTimeZone("Europe/Berlin", "America/New_York", summer)).toBe("America/New_York");
+        expect(confirmTimeZone(null, "Asia/Tokyo", summer)).toBe("Asia/Tokyo");
+    });
+
+    it("should reject anything else", () => {
+        expect(resolveTimeZone("Atlantis")).toBeNull();
+        expect(resolveTimeZone("Europe/Atlantis")).toBeNull();
+        expect(isValidTimeZone("")).toBe(false);
+    });
+});
@@ -0,0 +1,433 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { DateTime } from "luxon";
+
+/**
+ * Offline city => time zone database
+ * ------------------------------------------------------------------------
+ * Resolves a city to its time zone without any network access, so the clock
+ * renders on the first paint (and without a weather API at all). Covers major
+ * cities (capitals and large business hubs). Cities sharing a name are listed
+ * most prominent first, a country (or US state/Canadian province) after a comma picks
+ * another one, e.g. "Perth, UK", "Portland, Maine" or "Portland, ME".
+ */
+
+/**
+ * A city of the bundled database
+ */
+export interface CityTimeZone {
+  name: string;
+  country: string; // ISO 3166-1 alpha-2
+  region?: string; // state/province, only where it tells cities apart
+  zone: string; // IANA zone
+  aliases?: string[]; // other spellings, local and former names
+}
+
+const CITY_TIME_ZONES: CityTimeZone[] = [
+  // Americas
+  { name: "New York", country: "US", region: "New York", zone: "America/New_York", aliases: ["New York City", "NYC", "Manhattan", "Brooklyn"] },
+  { name: "Washington", country: "US", region: "District of Columbia", zone: "America/New_York", aliases: ["Washington DC", "Washington D.C."] },
+  { name: "Boston", country: "US", region: "Massachusetts", zone: "America/New_York" },
+  { name: "Philadelphia", country: "US", region: "Pennsylvania", zone: "America/New_York" },
+  { name: "Atlanta", country: "US", region: "Georgia", zone: "America/New_York" },
+  { name: "Miami", country: "US", region: "Florida", zone: "America/New_York" },
+  { name: "Charlotte", country: "US", region: "North Carolina", zone: "America/New_York" },
+  { name: "Detroit", country: "US", region: "Michigan", zone: "America/Detroit" },
+  { name: "Chicago", country: "US", region: "Illinois", zone: "America/Chicago" },
+  { name: "Houston", country: "US", region: "Texas", zone: "America/Chicago" },
+  { name: "Dallas", country: "US", region: "Texas", zone: "America/Chicago" },
+  { name: "Austin", country: "US", region: "Texas", zone: "America/Chicago" },
+  { name: "Minneapolis", country: "US", region: "Minnesota", zone: "America/Chicago" },
+  { name: "Denver", country: "US", region: "Colorado", zone: "America/Denver" },
+  { name: "Salt Lake City", country: "US", region: "Utah", zone: "America/Denver" },
+  { name: "Phoenix", country: "US", region: "Arizona", zone: "America/Phoenix" },
+  { name: "Los Angeles", country: "US", region: "California", zone: "America/Los_Angeles", aliases: ["LA"] },
+  { name: "San Francisco", country: "US", region: "California", zone: "America/Los_Angeles", aliases: ["SF"] },
+  { name: "San Jose", country: "US", region: "California", zone: "America/Los_Angeles" },
+  { name: "San Diego", country: "US", region: "California", zone: "America/Los_Angeles" },
+  { name: "Seattle", country: "US", region: "Washington", zone: "America/Los_Angeles" },
+  { name: "Portland", country: "US", region: "Oregon", zone: "America/Los_Angeles" },
+  { name: "Portland", country: "US", region: "Maine", zone: "America/New_York" },
+  { name: "Las Vegas", country: "US", region: "Nevada", zone: "America/Los_Angeles" },
+  { name: "Anchorage", country: "US", region: "Alaska", zone: "America/Anchorage" },
+  { name: "Honolulu", country: "US", region: "Hawaii", zone: "Pacific/Honolulu" },
+  { name: "Toronto", country: "CA", region: "Ontario", zone: "America/Toronto" },
+  { name: "Ottawa", country: "CA", region: "Ontario", zone: "America/Toronto" },
+  { name: "Montreal", country: "CA", region: "Quebec", zone: "America/Toronto", aliases: ["Montréal"] },
+  { name: "Vancouver", country: "CA", region: "British Columbia", zone: "America/Vancouver" },
+  { name: "Calgary", country: "CA", region: "Alberta", zone: "America/Edmonton" },
+  { name: "Halifax", country: "CA", region: "Nova Scotia", zone: "America/Halifax" },
+  { name: "St. John's", country: "CA", region: "Newfoundland and Labrador", zone: "America/St_Johns" },
+  { name: "Mexico City", country: "MX", zone: "America/Mexico_City", aliases: ["Ciudad de México", "CDMX"] },
+  { name: "Guatemala City", country: "GT", zone: "America/Guatemala" },
+  { name: "San Jose", country: "CR", zone: "America/Costa_Rica", aliases: ["San José"] },
+  { name: "Panama City", country: "PA", zone: "America/Panama" },
+  { name: "Havana", country: "CU", zone: "America/Havana" },
+  { name: "Bogota", country: "CO", zone: "America/Bogota", aliases: ["Bogotá"] },
+  { name: "Caracas", country: "VE", zone: "America/Caracas" },
+  { name: "Quito", country: "EC", zone: "America/Guayaquil" },
+  { name: "Lima", country: "PE", zone: "America/Lima" },
+  { name: "Santiago", country: "CL", zone: "America/Santiago", aliases: ["Santiago de Chile"] },
+  { name: "Buenos Aires", country: "AR", zone: "America/Argentina/Buenos_Aires" },
+  { name: "Montevideo", country: "UY", zone: "America/Montevideo" },
+  { name: "Sao Paulo", country: "BR", zone: "America/Sao_Paulo", aliases: ["São Paulo"] },
+  { name: "Rio de Janeiro", country: "BR", zone: "America/Sao_Paulo", aliases: ["Rio"] },
+  { name: "Brasilia", country: "BR", zone: "America/Sao_Paulo", aliases: ["Brasília"] },
+  // Europe
+  { name: "London", country: "GB", zone: "Europe/London" },
+  { name: "Birmingham", country: "GB", zone: "Europe/London" },
+  { name: "Manchester", country: "GB", zone: "Europe/London" },
+  { name: "Cambridge", country: "GB", zone: "Europe/London" },
+  { name: "Edinburgh", country: "GB", zone: "Europe/London" },
+  { name: "Glasgow", country: "GB", zone: "Europe/London" },
+  { name: "Perth", country: "AU", region: "Western Australia", zone: "Australia/Perth" },
+  { name: "Perth", country: "GB", zone: "Europe/London" },
+  { name: "Dublin", country: "IE", zone: "Europe/Dublin" },
+  { name: "Reykjavik", country: "IS", zone: "Atlantic/Reykjavik", aliases: ["Reykjavík"] },
+  { name: "Lisbon", country: "PT", zone: "Europe/Lisbon", aliases: ["Lisboa"] },
+  { name: "Porto", country: "PT", zone: "Europe/Lisbon" },
+  { name: "Madrid", country: "ES", zone: "Europe/Madrid" },
+  { name: "Barcelona", country: "ES", zone: "Europe/Madrid" },
+  { name: "Valencia", country: "ES", zone: "Europe/Madrid" },
+  { name: "Valencia", country: "VE", zone: "America/Caracas" },
+  { name: "Paris", country: "FR", zone: "Europe/Paris" },
+  { name: "Lyon", country: "FR", zone: "Europe/Paris" },
+  { name: "Brussels", country: "BE", zone: "Europe/Brussels", aliases: ["Bruxelles", "Brussel"] },
+  { name: "Amsterdam", country: "NL", zone: "Europe/Amsterdam" },
+  { name: "Rotterdam", country: "NL", zone: "Europe/Amsterdam" },
+  { name: "Luxembourg", country: "LU", zone: "Europe/Luxembourg" },
+  { name: "Berlin", country: "DE", zone: "Europe/Berlin" },
+  { name: "Hamburg", country: "DE", zone: "Europe/Berlin" },
+  { name: "Munich", country: "DE", zone: "Europe/Berlin", aliases: ["München", "Muenchen"] },
+  { name: "Frankfurt", country: "DE", zone: "Europe/Berlin", aliases: ["Frankfurt am Main"] },
+  { name: "Cologne", country: "DE", zone: "Europe/Berlin", aliases: ["Köln", "Koeln"] },
+  { name: "Stuttgart", country: "DE", zone: "Europe/Berlin" },
+  { name: "Dusseldorf", country: "DE", zone: "Europe/Berlin", aliases: ["Düsseldorf", "Duesseldorf"] },
+  { name: "Leipzig", country: "DE", zone: "Europe/Berlin" },
+  { name: "Chemnitz", country: "DE", zone: "Europe/Berlin" },
+  { name: "Zurich", country: "CH", zone: "Europe/Zurich", aliases: ["Zürich"] },
+  { name: "Geneva", country: "CH", zone: "Europe/Zurich", aliases: ["Genève", "Genf"] },
+  { name: "Vienna", country: "AT", zone: "Europe/Vienna", aliases: ["Wien"] },
+  { name: "Rome", country: "IT", zone: "Europe/Rome", aliases: ["Roma"] },
+  { name: "Milan", country: "IT", zone: "Europe/Rome", aliases: ["Milano"] },
+  { name: "Copenhagen", country: "DK", zone: "Europe/Copenhagen", aliases: ["København"] },
+  { name: "Oslo", country: "NO", zone: "Europe/Oslo" },
+  { name: "Stockholm", country: "SE", zone: "Europe/Stockholm" },
+  { name: "Gothenburg", country: "SE", zone: "Europe/Stockholm", aliases: ["Göteborg"] },
+  { name: "Helsinki", country: "FI", zone: "Europe/Helsinki" },
+  { name: "Tallinn", country: "EE", zone: "Europe/Tallinn" },
+  { name: "Riga", country: "LV", zone: "Europe/Riga" },
+  { name: "Vilnius", country: "LT", zone: "Europe/Vilnius" },
+  { name: "Warsaw", country: "PL", zone: "Europe/Warsaw", aliases: ["Warszawa"] },
+  { name: "Krakow", country: "PL", zone: "Europe/Warsaw", aliases: ["Kraków"] },
+  { name: "Prague", country: "CZ", zone: "Europe/Prague", aliases: ["Praha"] },
+  { name: "Budapest", country: "HU", zone: "Europe/Budapest" },
+  { name: "Bratislava", country: "SK", zone: "Europe/Bratislava" },
+  { name: "Zagreb", country: "HR", zone: "Europe/Zagreb" },
+  { name: "Belgrade", country: "RS", zone: "Europe/Belgrade", aliases: ["Beograd"] },
+  { name: "Athens", country: "GR", zone: "Europe/Athens", aliases: ["Athina"] },
+  { name: "Sofia", country: "BG", zone: "Europe/Sofia" },
+  { name: "Bucharest", country: "RO", zone: "Europe/Bucharest", aliases: ["București"] },
+  // The older zone name works in every browser
+  { name: "Kyiv", country: "UA", zone: "Europe/Kiev", aliases: ["Kiev"] },
+  { name: "Istanbul", country: "TR", zone: "Europe/Istanbul" },
+  { name: "Ankara", country: "TR", zone: "Europe/Istanbul" },
+  { name: "Moscow", country: "RU", zone: "Europe/Moscow", aliases: ["Moskva"] },
+  { name: "Saint Petersburg", country: "RU", zone: "Europe/Moscow", aliases: ["St. Petersburg"] },
+  // Africa and Middle East
+  { name: "Cairo", country: "EG", zone: "Africa/Cairo" },
+  { name: "Casablanca", country: "MA", zone: "Africa/Casablanca" },
+  { name: "Lagos", country: "NG", zone: "Africa/Lagos" },
+  { name: "Accra", country: "GH", zone: "Africa/Accra" },
+  { name: "Nairobi", country: "KE", zone: "Africa/Nairobi" },
+  { name: "Addis Ababa", country: "ET", zone: "Africa/Addis_Ababa" },
+  { name: "Johannesburg", country: "ZA", zone: "Africa/Johannesburg" },
+  { name: "Cape Town", country: "ZA", zone: "Africa/Johannesburg" },
+  { name: "Tel Aviv", country: "IL", zone: "Asia/Jerusalem" },
+  { name: "Jerusalem", country: "IL", zone: "Asia/Jerusalem" },
+  { name: "Amman", country: "JO", zone: "Asia/Amman" },
+  { name: "Beirut", country: "LB", zone: "Asia/Beirut" },
+  { name: "Riyadh", country: "SA", zone: "Asia/Riyadh" },
+  { name: "Dubai", country: "AE", zone: "Asia/Dubai" },
+  { name: "Abu Dhabi", country: "AE", zone: "Asia/Dubai" },
+  { name: "Doha", country: "QA", zone: "Asia/Qatar" },
+  { name: "Kuwait City", country: "KW", zone: "Asia/Kuwait" },
+  { name: "Tehran", country: "IR", zone: "Asia/Tehran" },
+  // Asia and Oceania
+  { name: "Karachi", country: "PK", zone: "Asia/Karachi" },
+  { name: "Lahore", country: "PK", zone: "Asia/Karachi" },
+  { name: "Mumbai", country: "IN", zone: "Asia/Kolkata", aliases: ["Bombay"] },
+  { name: "New Delhi", country: "IN", zone: "Asia/Kolkata", aliases: ["Delhi"] },
+  { name: "Bangalore", country: "IN", zone: "Asia/Kolkata", aliases: ["Bengaluru"] },
+  { name: "Chennai", country: "IN", zone: "Asia/Kolkata", aliases: ["Madras"] },
+  { name: "Kolkata", country: "IN", zone: "Asia/Kolkata", aliases: ["Calcutta"] },
+  { name: "Hyderabad", country: "IN", zone: "Asia/Kolkata" },
+  { name: "Hyderabad", country: "PK", zone: "Asia/Karachi" },
+  { name: "Pune", country: "IN", zone: "Asia/Kolkata" },
+  { name: "Colombo", country: "LK", zone: "Asia/Colombo" },
+  { name: "Kathmandu", country: "NP", zone: "Asia/Kathmandu" },
+  { name: "Dhaka", country: "BD", zone: "Asia/Dhaka" },
+  { name: "Yangon", country: "MM", zone: "Asia/Yangon", aliases: ["Rangoon"] },
+  { name: "Bangkok", country: "TH", zone: "Asia/Bangkok" },
+  { name: "Hanoi", country: "VN", zone: "Asia/Ho_Chi_Minh" },
+  { name: "Ho Chi Minh City", country: "VN", zone: "Asia/Ho_Chi_Minh", aliases: ["Saigon"] },
+  { name: "Kuala Lumpur", country: "MY", zone: "Asia/Kuala_Lumpur" },
+  { name: "Singapore", country: "SG", zone: "Asia/Singapore" },
+  { name: "Jakarta", country: "ID", zone: "Asia/Jakarta" },
+  { name: "Manila", country: "PH", zone: "Asia/Manila" },
+  { name: "Hong Kong", country: "HK", zone: "Asia/Hong_Kong" },
+  { name: "Shanghai", country: "CN", zone: "Asia/Shanghai" },
+  { name: "Beijing", country: "CN", zone: "Asia/Shanghai", aliases: ["Peking"] },
+  { name: "Shenzhen", country: "CN", zone: "Asia/Shanghai" },
+  { name: "Guangzhou", country: "CN", zone: "Asia/Shanghai", aliases: ["Canton"] },
+  { name: "Taipei", country: "TW", zone: "Asia/Taipei" },
+  { name: "Seoul", country: "KR", zone: "Asia/Seoul" },
+  { name: "Tokyo", country: "JP", zone: "Asia/Tokyo" },
+  { name: "Osaka", country: "JP", zone: "Asia/Tokyo" },
+  { name: "Adelaide", country: "AU", region: "South Australia", zone: "Australia/Adelaide" },
+  { name: "Darwin", country: "AU", region: "Northern Territory", zone: "Australia/Darwin" },
+  { name: "Brisbane", country: "AU", region: "Queensland", zone: "Australia/Brisbane" },
+  { name: "Sydney", country: "AU", region: "New South Wales", zone: "Australia/Sydney" },
+  { name: "Canberra", country: "AU", region: "Australian Capital Territory", zone: "Australia/Sydney" },
+  { name: "Melbourne", country: "AU", region: "Victoria", zone: "Australia/Melbourne" },
+  { name: "Auckland", country: "NZ", zone: "Pacific/Auckland" },
+  { name: "Wellington", country: "NZ", zone: "Pacific/Auckland" },
+];
+
+/**
+ * Country names and common abbreviations => ISO code, for "City, Country"
+ */
+const COUNTRY_ALIASES: Record<string, string> = {
+  "united states": "US",
+  "united states of america": "US",
+  usa: "US",
+  america: "US",
+  "united kingdom": "GB",
+  uk: "GB",
+  "great britain": "GB",
+  england: "GB",
+  scotland: "GB",
+  canada: "CA",
+  mexico: "MX",
+  "costa rica": "CR",
+  venezuela: "VE",
+  brazil: "BR",
+  germany: "DE",
+  deutschland: "DE",
+  france: "FR",
+  spain: "ES",
+  italy: "IT",
+  netherlands: "NL",
+  switzerland: "CH",
+  austria: "AT",
+  australia: "AU",
+  "new zealand": "NZ",
+  india: "IN",
+  pakistan: "PK",
+  china: "CN",
+  japan: "JP",
+  "south korea": "KR",
+  korea: "KR",
+  "south africa": "ZA",
+  uae: "AE",
+  "united arab emirates": "AE",
+  liberia: "LR",
+  myanmar: "MM",
+  burma: "MM",
+};
+
+/**
+ * US state and Canadian province codes => region, for "City, ST"
+ */
+const REGION_CODES: Record<string, Record<string, string>> = {
+  US: {
+    AL: "Alabama",
+    AK: "Alaska",
+    AZ: "Arizona",
+    AR: "Arkansas",
+    CA: "California",
+    CO: "Colorado",
+    CT: "Connecticut",
+    DE: "Delaware",
+    DC: "District of Columbia",
+    FL: "Florida",
+    GA: "Georgia",
+    HI: "Hawaii",
+    ID: "Idaho",
+    IL: "Illinois",
+    IN: "Indiana",
+    IA: "Iowa",
+    KS: "Kansas",
+    KY: "Kentucky",
+    LA: "Louisiana",
+    ME: "Maine",
+    MD: "Maryland",
+    MA: "Massachusetts",
+    MI: "Michigan",
+    MN: "Minnesota",
+    MS: "Mississippi",
+    MO: "Missouri",
+    MT: "Montana",
+    NE: "Nebraska",
+    NV: "Nevada",
+    NH: "New Hampshire",
+    NJ: "New Jersey",
+    NM: "New Mexico",
+    NY: "New York",
+    NC: "North Carolina",
+    ND: "North Dakota",
+    OH: "Ohio",
+    OK: "Oklahoma",
+    OR: "Oregon",
+    PA: "Pennsylvania",
+    RI: "Rhode Island",
+    SC: "South Carolina",
+    SD: "South Dakota",
+    TN: "Tennessee",
+    TX: "Texas",
+    UT: "Utah",
+    VT: "Vermont",
+    VA: "Virginia",
+    WA: "Washington",
+    WV: "West Virginia",
+    WI: "Wisconsin",
+    WY: "Wyoming",
+  },
+  CA: {
+    AB: "Alberta",
+    BC: "British Columbia",
+    MB: "Manitoba",
+    NB: "New Brunswick",
+    NL: "Newfoundland and Labrador",
+    NS: "Nova Scotia",
+    NT: "Northwest Territories",
+    NU: "Nunavut",
+    ON: "Ontario",
+    PE: "Prince Edward Island",
+    QC: "Quebec",
+    SK: "Saskatchewan",
+    YT: "Yukon",
+  },
+};
+
+/**
+ * Lowercase and strip accents and punctuation, so "São Paulo" matches "sao paulo"
+ */
+const normalizeName = (name: string): string =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/**
+ * The ISO code of a country name or code as providers spell it (e.g. "United States of America", "US"),
+ * null for countries the table doesn't know
+ */
+export function toCountryCode(country: string): string | null {
+  const trimmed = country.trim();
+  if (/^[A-Z]{2}$/.test(trimmed)) return trimmed;
+  return COUNTRY_ALIASES[normalizeName(trimmed)] ?? null;
+}
+
+/**
+ * Whether Luxon knows the zone (IANA names and fixed offsets like "UTC+5:30")
+ */
+export const isValidTimeZone = (zone: string): boolean =>
+  zone.trim() !== "" && DateTime.now().setZone(zone.trim()).isValid;
+
+/**
+ * Whether a "City, qualifier" qualifier (country code/name, or state/province name/code) fits the city.
+ * Codes shared by a country and a state ("CA", "DE") fit either.
+ */
+function matchesQualifier(city: CityTimeZone, qualifier: string): boolean {
+  const normalized = normalizeName(qualifier);
+  const codeRegion = REGION_CODES[city.country]?.[normalized.toUpperCase()];
+  return (
+    normalized === city.country.toLowerCase() ||
+    COUNTRY_ALIASES[normalized] === city.country ||
+    (city.region !== undefined &&
+      (normalizeName(city.region) === normalized ||
+        (codeRegion !== undefined && normalizeName(codeRegion) === normalizeName(city.region))))
+  );
+}
+
+/**
+ * Whether a qualifier is a country or region the database knows, so a city that doesn't fit it
+ * is really somewhere else (and not just spelled differently)
+ */
+function isKnownQualifier(qualifier: string): boolean {
+  const normalized = normalizeName(qualifier);
+  return (
+    normalized in COUNTRY_ALIASES ||
+    Object.values(REGION_CODES).some((codes) => normalized.toUpperCase() in codes) ||
+    CITY_TIME_ZONES.some(
+      (city) =>
+        city.country.toLowerCase() === normalized ||
+        (city.region !== undefined && normalizeName(city.region) === normalized)
+    )
+  );
+}
+
+/**
+ * Find a city in the bundled database. Accepts "City", "City, Country" and "City, Region, Country".
+ * Without a qualifier the most prominent city wins, qualifiers the database doesn't know are ignored.
+ * A known country or region that fits none of the cities means the city isn't in the database.
+ */
+export function findCity(input: string): CityTimeZone | null {
+  const [name, ...qualifiers] = input.split(",").map((part) => part.trim());
+  const knownQualifiers = qualifiers.filter((qualifier) => qualifier !== "" && isKnownQualifier(qualifier));
+  const candidates = CITY_TIME_ZONES.filter((city) =>
+    [city.name, ...(city.aliases ?? [])].some((cityName) => normalizeName(cityName) === normalizeName(name))
+  );
+  return candidates.find((city) => knownQualifiers.every((qualifier) => matchesQualifier(city, qualifier))) ?? null;
+}
+
+/**
+ * A time zone resolved without the network
+ */
+export interface ResolvedTimeZone {
+  zone: string;
+  name: string; // display name, the city or the zone's city part ("America/New_York" => "New York")
+}
+
+/**
+ * Resolve an IANA zone or a city of the bundled database to a time zone, null if it's neither
+ */
+export function resolveTimeZone(input: string): ResolvedTimeZone | null {
+  const value = input.trim();
+  if (value.includes("/") && isValidTimeZone(value)) {
+    return { zone: value, name: (value.split("/").pop() ?? value).replace(/_/g, " ") };
+  }
+  const city = findCity(value);
+  if (city) {
+    return { zone: city.zone, name: city.name };
+  }
+  // Fixed offsets and zones without a city part, e.g. "UTC" or "UTC+5:30"
+  return isValidTimeZone(value) ? { zone: value, name: value } : null;
+}
+
+/**
+ * Pick the zone to show once the weather provider reported its own. The provider only confirms or
+ * corrects the local zone: with the same current offset the local (IANA) zone is kept, since some
+ * providers only report a fixed offset that doesn't know about daylight saving time.
+ */
+export function confirmTimeZone(localZone: string | null | undefined, providerZone: string, now: number = Date.now()): string {
+  if (!localZone) return providerZone;
+  const localOffset = DateTime.fromMillis(now, { zone: localZone }).offset;
+  const providerOffset = DateTime.fromMillis(now, { zone: providerZone }).offset;
+  return localOffset === providerOffset ? localZone : providerZone;
+}
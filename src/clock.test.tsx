@@ -0,0 +1,69 @@
+import React from "react"
+import {screen, render, act} from "@testing-library/react"
+
+import {WeatherTime, WeatherTimeProps} from "./weather-time";
+
+describe("Clock", () => {
+    const props = {contentLanguage: "en_US", mode: "clock"} as unknown as WeatherTimeProps;
+
+    beforeEach(() => {
+        jest.useFakeTimers({now: Date.UTC(2024, 10, 26, 14, 5)});
+        global.fetch = jest.fn();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it("should show the time of a zone without any request", () => {
+        render(<WeatherTime {...props} timezone="Asia/Kolkata" city="Bangalore office"/>);
+
+        expect(screen.getByText(/7:35\sPM/)).toBeInTheDocument();
+        expect(screen.getByText("Tue, Nov 26th, 2024 · Bangalore office")).toBeInTheDocument();
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should look up the city when there is no zone", () => {
+        render(<WeatherTime {...props} city="Berlin" showordinalsuffix={false}/>);
+
+        expect(screen.getByText(/3:05\sPM/)).toBeInTheDocument();
+        expect(screen.getByText("Tue, Nov 26, 2024 · Berlin")).toBeInTheDocument();
+    });
+
+    it("should use the admin's format and show the time difference", () => {
+        render(<WeatherTime {...props} city="Berlin" datetimeformat="cccc HH:mm" showtimedifference={true}/>);
+
+        expect(screen.getByText("Tuesday 15:05")).toBeInTheDocument();
+        expect(screen.getByText("Berlin")).toBeInTheDocument();
+        expect(screen.getByText(/of you|same time/i)).toBeInTheDocument();
+    });
+
+    it("should tick every second only when the format shows seconds", () => {
+        const {unmount} = render(<WeatherTime {...props} city="Berlin" datetimeformat="HH:mm:ss"/>);
+        expect(screen.getByText("15:05:00")).toBeInTheDocument();
+
+        act(() => {
+            jest.advanceTimersByTime(1000);
+        });
+        expect(screen.getByText("15:05:01")).toBeInTheDocument();
+        unmount();
+
+        // It's 15:05:01 now, the minute changes in 59 seconds
+        render(<WeatherTime {...props} city="Berlin" datetimeformat="HH:mm 'seconds'"/>);
+        act(() => {
+            jest.advanceTimersByTime(58000);
+        });
+        expect(screen.getByText("15:05 seconds")).toBeInTheDocument();
+
+        act(() => {
+            jest.advanceTimersByTime(1000);
+        });
+        expect(screen.getByText("15:06 seconds")).toBeInTheDocument();
+    });
+
+    it("should tell editors about unknown zones", () => {
+        render(<WeatherTime {...props} city="Atlantis" isEditor={true}/>);
+
+        expect(screen.getByRole("alert")).toHaveTextContent("\"Atlantis\" is neither a time zone");
+    });
+});
@@ -0,0 +1,103 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import React, { ReactElement, useContext, useRef } from "react";
+import { DateTime } from "luxon";
+import { resolveTimeZone } from "./city-time-zones";
+import { LayoutBreakpoints, useContainerLayout } from "./container-layout";
+import { useCurrentTime } from "./current-time";
+import { DATE_PARTS, formatDateTime, showsSeconds } from "./date-time-format";
+import { getMessages, isRightToLeft } from "./messages";
+import { ThemeContext, themeProperties } from "./theme";
+import { formatTimeDifference, getTimeDifference } from "./time-difference";
+
+/**
+ * The React component properties
+ */
+export interface ClockProps {
+  timeZone: string; // IANA zone, or a city of the bundled table
+  label: string; // optional display label, defaults to the city
+  locale: string;
+  showOrdinal: boolean; // ordinal days in the date line, in languages that write them
+  pattern: string; // the admin's Luxon format, replaces the time and the date
+  showTimeDifference: boolean;
+  isCompactForced: boolean; // the admin's "always compact", otherwise it goes by the container's width
+  breakpoints: LayoutBreakpoints;
+  isEditor: boolean;
+}
+
+/**
+ * Clock
+ * ------------------------------------------------------------------------
+ * Date and time for a time zone, without any network access: the zone is
+ * resolved from the bundled city table, so no weather API key is needed.
+ */
+export const Clock = ({
+  timeZone,
+  label,
+  locale,
+  showOrdinal,
+  pattern,
+  showTimeDifference,
+  isCompactForced,
+  breakpoints,
+  isEditor,
+}: ClockProps): ReactElement => {
+  const resolved = resolveTimeZone(timeZone);
+  // Tick every second only when the pattern shows seconds
+  const now = useCurrentTime(showsSeconds(pattern));
+  const theme = useContext(ThemeContext);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const containerLayout = useContainerLayout(containerRef, breakpoints);
+  const layoutSize = isCompactForced ? "compact" : containerLayout;
+
+  if (!resolved) {
+    return isEditor ? (
+      <div className="weather-time weather-time--clock" style={themeProperties(theme)}>
+        <p role="alert" className="weather-time__message">
+          &quot;{timeZone}&quot; is neither a time zone (e.g. &quot;Europe/Berlin&quot;) nor a known city.
+        </p>
+      </div>
+    ) : (
+      <></>
+    );
+  }
+
+  const localTime = now.setZone(resolved.zone).setLocale(locale);
+  const hasPattern = pattern.trim() !== "";
+  const name = label || resolved.name;
+  const timeDifference = showTimeDifference ? getTimeDifference(localTime) : null;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`weather-time weather-time--clock weather-time--${layoutSize}`}
+      part="container"
+      dir={isRightToLeft(locale) ? "rtl" : "ltr"}
+      style={themeProperties(theme)}
+    >
+      <p className="weather-time__clock-time" part="time">
+        {hasPattern ? formatDateTime(localTime, locale, showOrdinal, pattern) : localTime.toLocaleString(DateTime.TIME_SIMPLE)}
+      </p>
+      <p className="weather-time__clock-date" part="date-time">
+        {hasPattern ? name : `${formatDateTime(localTime, locale, showOrdinal, "", DATE_PARTS)} · ${name}`}
+      </p>
+      {timeDifference && (
+        <p className="weather-time__note weather-time__clock-note" part="time-difference">
+          {formatTimeDifference(timeDifference, locale, getMessages(locale))}
+        </p>
+      )}
+    </div>
+  );
+};
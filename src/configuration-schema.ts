@@ -12,6 +12,12 @@
  */
 
 import { UiSchema } from "@rjsf/utils";
+import { DEFAULT_DETAIL_FIELDS, DETAIL_FIELDS } from "./weather-details";
+import { getMessages } from "./messages";
+import { SPEED_UNITS, UNIT_SYSTEMS } from "./units";
+import { COLOR_SCHEMES } from "./theme";
+import { DEFAULT_BREAKPOINTS } from "./container-layout";
+import { LAYOUT_IDS } from "./layouts";
 import { JSONSchema7 } from "json-schema";
 
 /**
@@ -25,21 +31,175 @@ export const configurationSchema: JSONSchema7 = {
       title: 'City',
       default: '{{user.profile.location}}',
     },
+    locationsource: {
+      type: "string",
+      title: "Location source",
+      enum: ["city", "profile", "geolocation"],
+      default: "city",
+    },
+    departmentlocations: {
+      type: "string",
+      title: "City by department",
+    },
+    defaultcity: {
+      type: "string",
+      title: "Default city",
+    },
+    provider: {
+      type: 'string',
+      title: 'Weather provider',
+      enum: ['weatherapi', 'openmeteo', 'openweathermap'],
+      default: 'weatherapi',
+    },
+    fallbackprovider: {
+      type: 'string',
+      title: 'Fallback weather provider',
+      enum: ['none', 'weatherapi', 'openmeteo', 'openweathermap'],
+      default: 'openmeteo',
+    },
     apikey: {
       type: 'string',
       title: 'WeatherAPI Key',
       default: '',
     },
+    openweathermapkey: {
+      type: 'string',
+      title: 'OpenWeatherMap Key',
+      default: '',
+    },
     allowcityoverride: {
       type: "boolean",
       title: "Allow city override?",
       default: true,
     },
+    persistpreferences: {
+      type: "boolean",
+      title: "Remember each user's city and unit?",
+      default: true,
+    },
+    mode: {
+      type: "string",
+      title: "Display mode",
+      enum: ["current", "forecast", "hourly", "worldclock", "clock"],
+      default: "current",
+    },
+    timezone: {
+      type: "string",
+      title: "Time zone",
+    },
+    worldclocklocations: {
+      type: "string",
+      title: "World clock cities",
+    },
+    worldclocksort: {
+      type: "string",
+      title: "World clock order",
+      enum: ["offset", "custom"],
+      default: "offset",
+    },
+    forecastdays: {
+      type: "integer",
+      title: "Forecast days",
+      minimum: 3,
+      maximum: 7,
+      default: 3,
+    },
+    forecasthours: {
+      type: "integer",
+      title: "Forecast hours",
+      minimum: 12,
+      maximum: 24,
+      default: 12,
+    },
+    showalerts: {
+      type: "boolean",
+      title: "Show weather alerts",
+      default: false,
+    },
+    alertminseverity: {
+      type: "string",
+      title: "Minimum alert severity",
+      enum: ["Unknown", "Minor", "Moderate", "Severe", "Extreme"],
+      default: "Moderate",
+    },
+    showairquality: {
+      type: "boolean",
+      title: "Show air quality",
+      default: false,
+    },
+    airqualityindex: {
+      type: "string",
+      title: "Air quality index",
+      enum: ["us-epa", "gb-defra"],
+      default: "us-epa",
+    },
+    showastronomy: {
+      type: "boolean",
+      title: "Show sunrise, sunset and moon phase",
+      default: false,
+    },
+    detailfields: {
+      type: "array",
+      title: "Weather details",
+      items: {
+        type: "string",
+        enum: [...DETAIL_FIELDS],
+      },
+      default: DEFAULT_DETAIL_FIELDS,
+    },
+    unitsystem: {
+      type: "string",
+      title: "Units",
+      enum: [...UNIT_SYSTEMS],
+      default: "auto",
+    },
+    unitsbasis: {
+      type: "string",
+      title: "Automatic units by",
+      enum: ["city", "viewer", "profile"],
+      default: "city",
+    },
+    windunit: {
+      type: "string",
+      title: "Wind speed unit",
+      enum: ["auto", ...SPEED_UNITS],
+      default: "auto",
+    },
+    cachettl: {
+      type: "integer",
+      title: "Cache duration (minutes)",
+      minimum: 0,
+      default: 10,
+    },
+    refreshinterval: {
+      type: "integer",
+      title: "Refresh interval (minutes)",
+      minimum: 0,
+      default: 15,
+    },
+    layout: {
+      type: "string",
+      title: "Layout",
+      enum: [...LAYOUT_IDS],
+      default: "auto",
+    },
     mobileview: {
       type: "boolean",
-      title: "Mobile view",
+      title: "Always use the compact layout",
       default: false,
     },
+    compactbreakpoint: {
+      type: "integer",
+      title: "Compact layout below (px)",
+      minimum: 0,
+      default: DEFAULT_BREAKPOINTS.compact,
+    },
+    widebreakpoint: {
+      type: "integer",
+      title: "Wide layout from (px)",
+      minimum: 0,
+      default: DEFAULT_BREAKPOINTS.wide,
+    },
     usenewimages: {
       type: "boolean",
       title: "Use new images?",
@@ -52,6 +212,26 @@ export const configurationSchema: JSONSchema7 = {
       default: true,
       description: "If checked, the date will show the ordinal suffix (e.g. '1st', '2nd', '3rd', '4th').",
     },
+    datetimeformat: {
+      type: "string",
+      title: "Date and time format",
+    },
+    showtimedifference: {
+      type: "boolean",
+      title: "Show time difference",
+      default: false,
+    },
+    colorscheme: {
+      type: "string",
+      title: "Colors",
+      enum: [...COLOR_SCHEMES],
+      default: "light",
+    },
+    shadowdom: {
+      type: "boolean",
+      title: "Isolate from the page's styles",
+      default: false,
+    },
   },
   required: ['city'],
 };
@@ -64,16 +244,127 @@ export const uiSchema: UiSchema = {
   city: {
     'ui:help': 'Enter the city name, or use {{user.profile.location}} to pull from the user.',
   },
+  provider: {
+    'ui:enumNames': ['WeatherAPI', 'Open-Meteo (no key required)', 'OpenWeatherMap'],
+    'ui:help': 'Where the weather data comes from.',
+  },
+  fallbackprovider: {
+    'ui:enumNames': ['None', 'WeatherAPI', 'Open-Meteo (no key required)', 'OpenWeatherMap'],
+    'ui:help': 'Used automatically when the primary provider fails or runs out of quota.',
+  },
+  locationsource: {
+    "ui:enumNames": ["Fixed city", "User profile placeholder", "Detect my location"],
+    "ui:help":
+      "Where the location comes from. \"User profile placeholder\" uses the placeholder in City, or {{user.profile.location}} if City is empty. \"Detect my location\" asks for the browser's position and falls back to City when the user says no.",
+  },
+  departmentlocations: {
+    "ui:widget": "textarea",
+    "ui:placeholder": "Sales | Berlin\nEngineering | Munich",
+    "ui:help":
+      "For users whose profile doesn't fill in the {{user.profile.*}} placeholders in City: one department and its city per line, separated by \"|\".",
+  },
+  defaultcity: {
+    "ui:help": "Shown when neither the user profile nor the department gives a city.",
+  },
   apikey: {
     'ui:help': 'Get your API key from https://www.weatherapi.com/',
   },
+  openweathermapkey: {
+    'ui:help': 'Only needed when OpenWeatherMap is used. Get your API key from https://openweathermap.org/',
+  },
   allowcityoverride: {
     "ui:help":
       "If checked, a small button in the widget will let the user override the city.",
   },
+  persistpreferences: {
+    "ui:help":
+      "If checked, the city a user picked, their °C/°F choice and their answer to the location prompt are stored in their browser and restored on the next visit.",
+  },
+  mode: {
+    "ui:enumNames": ["Current conditions", "Multi-day forecast", "Hourly timeline", "World clock", "Clock only"],
+    "ui:help":
+      "Show only the current conditions, add a row with the upcoming days or hours, show the time and weather of several cities, or only the date and time (no weather API key needed).",
+  },
+  timezone: {
+    "ui:placeholder": "Europe/Berlin",
+    "ui:help":
+      "Clock only mode: an IANA time zone. Leave empty to look up the city above in the built-in list of major cities.",
+  },
+  worldclocklocations: {
+    "ui:widget": "textarea",
+    "ui:placeholder": "Berlin | Berlin HQ\nNew York\nTokyo | Tokyo office",
+    "ui:help": "World clock mode: one city (or \"lat,lon\") per line, optionally followed by \"|\" and a label.",
+  },
+  worldclocksort: {
+    "ui:enumNames": ["By time zone (west to east)", "As entered"],
+    "ui:help": "World clock mode: the order of the cities.",
+  },
+  forecastdays: {
+    "ui:widget": "updown",
+    "ui:help": "Number of days shown in forecast mode (3-7). The free WeatherAPI plan only returns 3 days.",
+  },
+  forecasthours: {
+    "ui:widget": "updown",
+    "ui:help": "Number of hours shown in hourly mode (12-24). OpenWeatherMap only provides 3-hour steps.",
+  },
+  showalerts: {
+    "ui:help": "Show government weather alerts (e.g. storm warnings) for the city. Only available with WeatherAPI.",
+  },
+  alertminseverity: {
+    "ui:enumNames": ["All alerts", "Minor", "Moderate", "Severe", "Extreme"],
+    "ui:help": "Alerts below this severity are not shown. Alerts without a severity are only shown with \"All alerts\".",
+  },
+  showairquality: {
+    "ui:help": "Show the air quality index next to the temperature, with the main pollutants on demand.",
+  },
+  airqualityindex: {
+    "ui:enumNames": ["US EPA (1-6)", "UK DEFRA (1-10)"],
+    "ui:help": "Which index to show. Providers that don't report it have it calculated from the pollutant levels.",
+  },
+  showastronomy: {
+    "ui:help": "Show today's sunrise and sunset in the city's local time, the daylight left, and the moon phase (WeatherAPI only).",
+  },
+  detailfields: {
+    "ui:options": { orderable: true },
+    "ui:help": "Details shown under the temperature, in this order. Details the weather provider doesn't report are left out.",
+    items: {
+      "ui:enumNames": DETAIL_FIELDS.map((field) => getMessages("en").detailLabels[field]),
+    },
+  },
+  unitsystem: {
+    "ui:enumNames": ["Automatic", "Metric (°C, km/h, mm, hPa)", "Imperial (°F, mph, in, inHg)", "Mixed (°C, mph, mm, hPa, miles)"],
+    "ui:help": "Units for all values. Users can pick their own in the city popup, and switch between °C and °F by clicking the temperature.",
+  },
+  unitsbasis: {
+    "ui:enumNames": ["The city's country", "The viewer's language setting", "The user's profile location"],
+    "ui:help": "What automatic units go by, e.g. Fahrenheit for a city in the US.",
+  },
+  windunit: {
+    "ui:enumNames": ["By the units", "km/h", "mph", "m/s", "Knots"],
+  },
+  cachettl: {
+    "ui:widget": "updown",
+    "ui:help": "Weather is shared between widgets and page loads for this long before it's fetched again.",
+  },
+  refreshinterval: {
+    "ui:widget": "updown",
+    "ui:help": "How often the weather is refreshed while the widget is visible. 0 turns automatic refreshes off.",
+  },
+  layout: {
+    "ui:enumNames": ["Automatic (card or banner by the available width)", "Horizontal banner", "Vertical card", "Minimal chip (icon and temperature)", "Hero (date on top, large temperature)"],
+    "ui:help": "How the current conditions are arranged. The editor shows a preview of each layout below the widget.",
+  },
   mobileview: {
     "ui:help":
-      "Hide the date and time to simplify the widget for mobile.",
+      "The layout follows the width the widget has on the page: compact (icon and temperature, no date and time) in narrow spaces, wide with a larger icon in wide ones. Check to always use the compact layout.",
+  },
+  compactbreakpoint: {
+    "ui:widget": "updown",
+    "ui:help": "Below this width, the widget uses the compact layout.",
+  },
+  widebreakpoint: {
+    "ui:widget": "updown",
+    "ui:help": "From this width on, the widget uses the wide layout with a larger icon and temperature.",
   },
   usenewimages: {
     "ui:help":
@@ -81,7 +372,24 @@ export const uiSchema: UiSchema = {
   },
   showordinalsuffix: {
     "ui:help":
-      "If checked, the date will show the ordinal suffix (e.g. '1st', '2nd', '3rd', '4th').",
+      "If checked, the date will show the ordinal suffix (e.g. '1st', '2nd', '3rd', '4th') in languages that use one.",
+  },
+  datetimeformat: {
+    "ui:placeholder": "ccc, LLL d, HH:mm ZZZZ",
+    "ui:help":
+      "Leave empty to follow the reader's language. Otherwise a Luxon format (https://moment.github.io/luxon/#/formatting?id=table-of-tokens), e.g. \"ss\" for seconds, \"cccc\" for the weekday, \"yyyy\" for the year, \"ZZZZ\" for the time zone abbreviation, \"ZZ\" for the UTC offset, or \"f\" for the locale's own short date and time.",
+  },
+  showtimedifference: {
+    "ui:help":
+      "If checked, a line under the date tells readers how far the city's time is from their own, e.g. \"6 hours ahead of you · tomorrow\".",
+  },
+  colorscheme: {
+    "ui:enumNames": ["Automatic (light or dark like the reader's device)", "Light", "Dark", "The app's theme"],
+    "ui:help": "\"Light\" keeps the page's text color and no background, like before there were color schemes. \"The app's theme\" uses the app's background, text and primary colors.",
+  },
+  shadowdom: {
+    "ui:help":
+      "Renders the widget in a Shadow DOM, so the page's CSS can't change its layout. It can still be styled with the --weather-time-* custom properties and weather-time::part() (see the README).",
   },
 
 };
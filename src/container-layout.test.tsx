@@ -0,0 +1,111 @@
+import React from "react"
+import {screen, render, act} from "@testing-library/react"
+
+import {DEFAULT_BREAKPOINTS, layoutForWidth, parseBreakpoints} from "./container-layout";
+import {WeatherTime} from "./weather-time";
+import {clearWeatherCache} from "./weather-cache";
+import {mockWeatherApi, widgetProps} from "./test-helpers";
+
+/**
+ * A ResizeObserver (jsdom has none) whose observed elements can be resized by the test
+ */
+const mockResizeObserver = () => {
+    const callbacks: ResizeObserverCallback[] = [];
+    global.ResizeObserver = jest.fn((callback: ResizeObserverCallback) => {
+        callbacks.push(callback);
+        return {observe: jest.fn(), unobserve: jest.fn(), disconnect: jest.fn()};
+    }) as unknown as typeof ResizeObserver;
+    return (width: number) => callbacks.forEach((callback) =>
+        callback([{contentRect: {width}} as ResizeObserverEntry], {} as ResizeObserver));
+};
+
+describe("container layout", () => {
+    it("should pick the layout by the width", () => {
+        expect(layoutForWidth(200, DEFAULT_BREAKPOINTS)).toBe("compact");
+        expect(layoutForWidth(320, DEFAULT_BREAKPOINTS)).toBe("standard");
+        expect(layoutForWidth(639, DEFAULT_BREAKPOINTS)).toBe("standard");
+        expect(layoutForWidth(640, DEFAULT_BREAKPOINTS)).toBe("wide");
+    });
+
+    it("should parse the breakpoints", () => {
+        expect(parseBreakpoints("250", 800)).toEqual({compact: 250, wide: 800});
+        expect(parseBreakpoints("", "abc")).toEqual(DEFAULT_BREAKPOINTS);
+        expect(parseBreakpoints(-1, 100)).toEqual({compact: DEFAULT_BREAKPOINTS.compact, wide: DEFAULT_BREAKPOINTS.compact});
+    });
+
+    describe("in the widget", () => {
+        const props = widgetProps();
+
+        beforeEach(() => {
+            clearWeatherCache();
+            mockWeatherApi();
+        });
+
+        afterEach(() => {
+            delete (global as Partial<typeof globalThis>).ResizeObserver;
+        });
+
+        it("should follow the container's width", async () => {
+            const resize = mockResizeObserver();
+            const {container} = render(<WeatherTime {...props} compactbreakpoint="300" widebreakpoint="700"/>);
+            await screen.findByText("10°C");
+            const root = container.querySelector(".weather-time");
+
+            act(() => resize(250));
+            expect(root).toHaveClass("weather-time--compact");
+            expect(screen.queryByText(/Loading time|\d:\d\d/)).not.toBeInTheDocument();
+
+            act(() => resize(500));
+            expect(root).toHaveClass("weather-time--standard");
+
+            act(() => resize(900));
+            expect(root).toHaveClass("weather-time--wide");
+        });
+
+        it("should measure the world clock once cities are added", async () => {
+            const resize = mockResizeObserver();
+            const worldClockProps = widgetProps({mode: "worldclock"});
+            const {container, rerender} = render(<WeatherTime {...worldClockProps} worldclocklocations=""/>);
+
+            rerender(<WeatherTime {...worldClockProps} worldclocklocations="London"/>);
+            await screen.findByText("10°C");
+
+            act(() => resize(250));
+            expect(container.querySelector(".weather-time")).toHaveClass("weather-time--compact");
+        });
+
+        it("should always be compact with mobileview", async () => {
+            const resize = mockResizeObserver();
+            const {container} = render(<WeatherTime {...props} mobileview={true}/>);
+            await screen.findByText("10°C");
+
+            act(() => resize(900));
+            expect(container.querySelector(".weather-time")).toHaveClass("weather-time--compact");
+        });
+
+        it("should follow the container's width in clock mode", () => {
+            const resize = mockResizeObserver();
+            const {container} = render(<WeatherTime {...props} mode="clock" city="Berlin"/>);
+            const root = container.querySelector(".weather-time");
+
+            act(() => resize(250));
+            expect(root).toHaveClass("weather-time--clock", "weather-time--compact");
+
+            act(() => resize(900));
+            expect(root).toHaveClass("weather-time--wide");
+        });
+
+        it("should follow the container's width in world clock mode", async () => {
+            const resize = mockResizeObserver();
+            const {container} = render(<WeatherTime {...props} mode="worldclock" worldclocklocations="London"/>);
+            await screen.findByText("10°C");
+            const root = container.querySelector(".weather-time");
+
+            act(() => resize(250));
+            expect(root).toHaveClass("weather-time--world-clock", "weather-time--compact");
+
+            act(() => resize(500));
+            expect(root).toHaveClass("weather-time--standard");
+        });
+    });
+});
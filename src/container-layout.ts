@@ -0,0 +1,80 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+
+import { RefObject, useEffect, useState } from "react";
+
+/**
+ * Container-responsive layout
+ * ------------------------------------------------------------------------
+ * The same page shows the widget in a narrow sidebar and full width, so the
+ * layout goes by the width of the widget's container (ResizeObserver) rather
+ * than by the device:
+ *   compact   below the compact breakpoint: icon and temperature only, stacked
+ *             (the clock aligned to the end, world clock rows without icons)
+ *   standard  temperature and date beside the icon
+ *   wide      from the wide breakpoint: like standard, with a larger icon and temperature
+ *             (a larger time, larger world clock rows)
+ */
+
+export const LAYOUT_SIZES = ["compact", "standard", "wide"] as const;
+export type LayoutSize = (typeof LAYOUT_SIZES)[number];
+
+export interface LayoutBreakpoints {
+  compact: number; // widths (px) below this are compact
+  wide: number; // widths (px) from this on are wide
+}
+
+export const DEFAULT_BREAKPOINTS: LayoutBreakpoints = { compact: 320, wide: 640 };
+
+/**
+ * Parse the breakpoint attributes, invalid values get the default. The wide breakpoint is
+ * never below the compact one.
+ */
+export function parseBreakpoints(compact: number | string, wide: number | string): LayoutBreakpoints {
+  const parse = (value: number | string, fallback: number) => {
+    const px = parseInt(String(value), 10);
+    return Number.isNaN(px) || px < 0 ? fallback : px;
+  };
+  const compactWidth = parse(compact, DEFAULT_BREAKPOINTS.compact);
+  return { compact: compactWidth, wide: Math.max(compactWidth, parse(wide, DEFAULT_BREAKPOINTS.wide)) };
+}
+
+export function layoutForWidth(width: number, breakpoints: LayoutBreakpoints): LayoutSize {
+  if (width < breakpoints.compact) return "compact";
+  if (width >= breakpoints.wide) return "wide";
+  return "standard";
+}
+
+/**
+ * The layout for the element's current width. Until it's measured (or without ResizeObserver)
+ * it's "standard", the widget's original desktop layout.
+ */
+export function useContainerLayout(targetRef: RefObject<Element>, breakpoints: LayoutBreakpoints): LayoutSize {
+  const [layout, setLayout] = useState<LayoutSize>("standard");
+
+  useEffect(() => {
+    const element = targetRef.current;
+    if (!element || typeof ResizeObserver === "undefined") return;
+    // Only a change of the layout renders again, not every pixel
+    const observer = new ResizeObserver((entries) => {
+      const width = entries[entries.length - 1]?.contentRect.width;
+      if (width !== undefined) setLayout(layoutForWidth(width, breakpoints));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [targetRef, breakpoints.compact, breakpoints.wide]);
+
+  return layout;
+}
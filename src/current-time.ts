@@ -0,0 +1,42 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { useEffect, useState } from "react";
+import { DateTime } from "luxon";
+
+/**
+ * Ticking clock
+ * ------------------------------------------------------------------------
+ * The current time, updated on every second when `everySecond` is set (the
+ * format shows seconds) and otherwise on every minute boundary, so the shown
+ * minute changes when the real one does.
+ */
+export function useCurrentTime(everySecond: boolean): DateTime {
+  const [now, setNow] = useState<DateTime>(() => DateTime.now());
+
+  useEffect(() => {
+    const step = everySecond ? 1000 : 60000;
+    let timer: ReturnType<typeof setTimeout>;
+    const tick = () => {
+      const current = DateTime.now();
+      setNow(current);
+      // Wait until the start of the next second or minute
+      timer = setTimeout(tick, step - (current.toMillis() % step));
+    };
+    tick();
+    return () => clearTimeout(timer);
+  }, [everySecond]);
+
+  return now;
+}
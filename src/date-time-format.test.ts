@@ -0,0 +1,48 @@
+import {DateTime} from "luxon";
+
+import {DATE_PARTS, formatDateTime, showsSeconds} from "./date-time-format";
+
+describe("formatDateTime", () => {
+    const evening = DateTime.fromISO("2024-11-26T21:05", {zone: "America/New_York"});
+    const firstOfMonth = DateTime.fromISO("2024-11-01T09:05", {zone: "Europe/Paris"});
+
+    it("should keep the English format with ordinals", () => {
+        expect(formatDateTime(evening, "en-US")).toBe("Nov 26th, 9:05pm");
+        expect(formatDateTime(evening, "en-US", false)).toBe("Nov 26, 9:05pm");
+        expect(formatDateTime(firstOfMonth, "en-US")).toBe("Nov 1st, 9:05am");
+    });
+
+    it("should follow the locale's order and clock", () => {
+        expect(formatDateTime(evening, "en-GB")).toBe("26th Nov, 21:05");
+        expect(formatDateTime(evening, "de")).toBe("26. Nov., 21:05");
+        expect(formatDateTime(evening, "ja")).toBe("11月26日 21:05");
+    });
+
+    it("should use ordinals only where the language has them", () => {
+        expect(formatDateTime(firstOfMonth, "fr")).toBe("1er nov., 9:05");
+        expect(formatDateTime(evening, "fr")).toBe("26 nov., 21:05");
+        expect(formatDateTime(firstOfMonth, "es")).toBe("1 nov, 9:05");
+    });
+
+    it("should use the admin's pattern", () => {
+        expect(formatDateTime(evening, "en-US", true, "cccc, yyyy-MM-dd HH:mm:ss ZZZZ")).toBe("Tuesday, 2024-11-26 21:05:00 EST");
+        expect(formatDateTime(evening, "de", true, "cccc HH:mm ZZ")).toBe("Dienstag 21:05 -05:00");
+    });
+
+    it("should format other parts the same way", () => {
+        expect(formatDateTime(evening, "en-US", true, "", DATE_PARTS)).toBe("Tue, Nov 26th, 2024");
+        expect(formatDateTime(evening, "en-US", false, "", DATE_PARTS)).toBe("Tue, Nov 26, 2024");
+        expect(formatDateTime(firstOfMonth, "fr", true, "", DATE_PARTS)).toBe("ven. 1er nov. 2024");
+    });
+});
+
+describe("showsSeconds", () => {
+    it("should find the tokens with seconds outside of quoted text", () => {
+        expect(showsSeconds("HH:mm:ss")).toBe(true);
+        expect(showsSeconds("tt")).toBe(true);
+        expect(showsSeconds("F")).toBe(true);
+        expect(showsSeconds("cccc HH:mm")).toBe(false);
+        expect(showsSeconds("t")).toBe(false);
+        expect(showsSeconds("HH:mm 'seconds'")).toBe(false);
+    });
+});
@@ -0,0 +1,93 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+
+import { DateTime } from "luxon";
+
+/**
+ * Locale-aware date and time of the widget
+ * ------------------------------------------------------------------------
+ * The short "month, day, time" line follows the viewer's locale (month names,
+ * order, 12h or 24h clock), with ordinal days only in languages that write
+ * them. Admins can replace it with their own Luxon format pattern.
+ */
+
+const DATE_TIME_PARTS = { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" } as const;
+
+/**
+ * The date without the time, e.g. "Tue, Nov 26th, 2024", for the clock's date line
+ */
+export const DATE_PARTS = { weekday: "short", month: "short", day: "numeric", year: "numeric" } as const;
+
+const ENGLISH_ORDINAL_SUFFIXES: Record<string, string> = { one: "st", two: "nd", few: "rd", other: "th" };
+const englishOrdinals = new Intl.PluralRules("en", { type: "ordinal" });
+
+/**
+ * Ordinal days by language, e.g. "26th" in English and "1er" in French. Languages
+ * that aren't listed don't use ordinals for dates (German's "26." is already in the
+ * locale's own format).
+ */
+const ORDINAL_DAYS: Record<string, (day: number) => string> = {
+  en: (day) => `${day}${ENGLISH_ORDINAL_SUFFIXES[englishOrdinals.select(day)]}`,
+  fr: (day) => (day === 1 ? "1er" : `${day}`),
+};
+
+interface DateTimePart {
+  type: string;
+  value: string;
+}
+
+/**
+ * Format the short date and time, e.g. "Nov 26th, 9:05am" (en-US), "26. Nov., 21:05" (de)
+ * or "11月26日 21:05" (ja). With a `pattern`, that Luxon format is used instead, e.g.
+ * "cccc HH:mm:ss ZZZZ" for "Tuesday 21:05:00 EST". Other `parts` (e.g. DATE_PARTS) pick what the
+ * locale's format shows.
+ */
+export function formatDateTime(
+  dt: DateTime,
+  locale: string,
+  showOrdinal: boolean = true,
+  pattern: string = "",
+  parts: Intl.DateTimeFormatOptions = DATE_TIME_PARTS
+): string {
+  const localized = dt.setLocale(locale);
+  if (pattern.trim() !== "") {
+    return localized.toFormat(pattern.trim());
+  }
+
+  const language = locale.split("-")[0].toLowerCase();
+  const ordinalDay = showOrdinal ? ORDINAL_DAYS[language] : undefined;
+  const localeParts: DateTimePart[] = localized.toLocaleParts(parts);
+  return localeParts
+    .map((part, index) => {
+      if (part.type === "day" && ordinalDay) {
+        return ordinalDay(Number(part.value));
+      }
+      // The widget has always written English times as "9:05am"
+      if (language === "en") {
+        if (part.type === "dayPeriod") return part.value.toLowerCase();
+        if (part.type === "literal" && localeParts[index + 1]?.type === "dayPeriod") return "";
+      }
+      return part.value;
+    })
+    .join("");
+}
+
+/**
+ * Whether a Luxon format pattern shows seconds (or finer), e.g. "HH:mm:ss" or "tt".
+ * Quoted literal text is skipped.
+ */
+export function showsSeconds(pattern: string): boolean {
+  return /[sSuXxF]|tt|TT/.test(pattern.replace(/'[^']*'/g, ""));
+}
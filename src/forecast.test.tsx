@@ -0,0 +1,26 @@
+import React from "react"
+import {screen, render} from "@testing-library/react"
+
+import {ForecastRow} from "./forecast";
+
+const days = [
+    {date: "2024-11-26", maxTempC: 14.4, maxTempF: 57.9, minTempC: 6, minTempF: 42.8, conditionCode: 1000, conditionText: "Sunny"},
+    {date: "2024-11-27", maxTempC: 10, maxTempF: 50, minTempC: 2, minTempF: 35.6, conditionCode: 1183, conditionText: "Light rain"},
+];
+
+describe("ForecastRow", () => {
+    it("should render localized day names and temperatures", () => {
+        render(<ForecastRow days={days} isFahrenheit={false} imageBasePath="/img" locale="de-DE" isMobileView={false}/>);
+
+        expect(screen.getByText("Di")).toBeInTheDocument();
+        expect(screen.getByText("14° / 6°C")).toBeInTheDocument();
+        expect(screen.getByAltText("Light rain")).toHaveAttribute("src", "/img/rain.svg");
+    })
+
+    it("should use the active unit", () => {
+        render(<ForecastRow days={days} isFahrenheit={true} imageBasePath="/img" locale="en-US" isMobileView={true}/>);
+
+        expect(screen.getByText("Tue")).toBeInTheDocument();
+        expect(screen.getByText("58° / 43°F")).toBeInTheDocument();
+    })
+})
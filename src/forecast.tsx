@@ -0,0 +1,68 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import React, { ReactElement } from "react";
+import { DateTime } from "luxon";
+import { ForecastDay } from "./weather-providers";
+import { getIconFilename } from "./weather-icons";
+
+/**
+ * The React component properties
+ */
+export interface ForecastRowProps {
+  days: ForecastDay[];
+  isFahrenheit: boolean;
+  imageBasePath: string;
+  locale: string; // BCP 47 locale used for the day names
+  isMobileView: boolean;
+}
+
+/**
+ * Row of forecast days
+ * ------------------------------------------------------------------------
+ * Shows the localized day name, the condition icon and the high/low
+ * temperatures in the active unit for every day of the forecast.
+ */
+export const ForecastRow = ({
+  days,
+  isFahrenheit,
+  imageBasePath,
+  locale,
+  isMobileView,
+}: ForecastRowProps): ReactElement => {
+  return (
+    // On narrow (compact) layouts the row scrolls instead of squeezing the days
+    <div className={`weather-time__forecast${isMobileView ? " weather-time__forecast--compact" : ""}`}>
+      {days.map((day) => {
+        const high = Math.round(isFahrenheit ? day.maxTempF : day.maxTempC);
+        const low = Math.round(isFahrenheit ? day.minTempF : day.minTempC);
+
+        return (
+          <div key={day.date} className="weather-time__forecast-day">
+            <p className="weather-time__forecast-name">{DateTime.fromISO(day.date, { locale }).toFormat("ccc")}</p>
+            <img
+              src={`${imageBasePath}/${getIconFilename(day.conditionCode, "day")}`}
+              alt={day.conditionText}
+              title={day.conditionText}
+              className="weather-time__forecast-icon"
+            />
+            <p className="weather-time__forecast-temperature">
+              {high}° / {low}°{isFahrenheit ? "F" : "C"}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
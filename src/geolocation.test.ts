@@ -0,0 +1,65 @@
+import {renderHook, act} from "@testing-library/react";
+import {formatCoordinates, useGeolocation} from "./geolocation";
+import {preferencesKey, readPreferences} from "./preferences";
+
+describe("useGeolocation", () => {
+    const key = preferencesKey("user-1", "/page#0");
+    const getCurrentPosition = jest.fn();
+
+    beforeEach(() => {
+        window.localStorage.clear();
+        getCurrentPosition.mockReset();
+        Object.defineProperty(navigator, "geolocation", {value: {getCurrentPosition}, configurable: true});
+    });
+
+    it("should round coordinates to two decimals", () => {
+        expect(formatCoordinates(40.712776, -74.005974)).toBe("40.71,-74.01");
+    });
+
+    it("should not ask while disabled", () => {
+        const {result} = renderHook(() => useGeolocation(false, key));
+        expect(result.current.status).toBe("off");
+        expect(getCurrentPosition).not.toHaveBeenCalled();
+    });
+
+    it("should use and remember the position once granted", () => {
+        getCurrentPosition.mockImplementation((success) =>
+            success({coords: {latitude: 52.52, longitude: 13.405}})
+        );
+        const {result} = renderHook(() => useGeolocation(true, key));
+        expect(result.current.status).toBe("granted");
+        expect(result.current.coordinates).toBe("52.52,13.40");
+        expect(readPreferences(key)?.geolocation).toEqual({permission: "granted", coordinates: "52.52,13.40"});
+        expect(readPreferences(preferencesKey("user-2", "/page#0"))).toBeNull();
+    });
+
+    it("should remember a denial and not ask again", () => {
+        getCurrentPosition.mockImplementation((_success, error) =>
+            error({code: 1, PERMISSION_DENIED: 1, message: "denied"})
+        );
+        const first = renderHook(() => useGeolocation(true, key));
+        expect(first.result.current.status).toBe("denied");
+        expect(first.result.current.coordinates).toBeNull();
+
+        getCurrentPosition.mockClear();
+        const second = renderHook(() => useGeolocation(true, key));
+        expect(second.result.current.status).toBe("denied");
+        expect(getCurrentPosition).not.toHaveBeenCalled();
+
+        // Asking explicitly still works
+        act(() => second.result.current.request());
+        expect(getCurrentPosition).toHaveBeenCalledTimes(1);
+    });
+
+    it("should remember nothing without a preference key", () => {
+        getCurrentPosition.mockImplementation((_success, error) =>
+            error({code: 1, PERMISSION_DENIED: 1, message: "denied"})
+        );
+        renderHook(() => useGeolocation(true, null));
+        expect(window.localStorage.length).toBe(0);
+
+        getCurrentPosition.mockClear();
+        renderHook(() => useGeolocation(true, null));
+        expect(getCurrentPosition).toHaveBeenCalledTimes(1);
+    });
+});
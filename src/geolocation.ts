@@ -0,0 +1,106 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { useCallback, useEffect, useState } from "react";
+import { readPreferences, updatePreferences } from "./preferences";
+
+/**
+ * Browser geolocation as the location source
+ * ------------------------------------------------------------------------
+ * Asks the browser for the user's position and hands it on as "lat,lon",
+ * which every provider understands. The user's answer is remembered with their
+ * other preferences (with the last position), so a denial isn't asked again on
+ * every page load and a known position shows right away.
+ */
+
+// A position from the last few minutes is good enough, we only need the city
+const MAX_POSITION_AGE = 10 * 60 * 1000;
+const POSITION_TIMEOUT = 10 * 1000;
+
+/**
+ * "off" when geolocation isn't the location source, "unavailable" when the browser
+ * has no geolocation or couldn't determine the position
+ */
+export type GeolocationStatus = "off" | "pending" | "granted" | "denied" | "unavailable";
+
+/**
+ * Round to 2 decimals (about 1 km): plenty for the weather, shares the cache between
+ * nearby users and doesn't send the exact position to the weather provider
+ */
+export const formatCoordinates = (latitude: number, longitude: number): string =>
+  `${latitude.toFixed(2)},${longitude.toFixed(2)}`;
+
+/**
+ * The user's position as "lat,lon" while `enabled`, null until it's known or if the user said no.
+ * The answer is remembered under `preferenceKey` (see preferences.ts), nothing is remembered without one.
+ * `request` asks again, even after a remembered denial (e.g. from a "Use my location" button).
+ */
+export function useGeolocation(
+  enabled: boolean,
+  preferenceKey: string | null
+): {
+  coordinates: string | null;
+  status: GeolocationStatus;
+  request: () => void;
+} {
+  const [coordinates, setCoordinates] = useState<string | null>(() =>
+    enabled && preferenceKey ? readPreferences(preferenceKey)?.geolocation?.coordinates ?? null : null
+  );
+  const [status, setStatus] = useState<GeolocationStatus>("off");
+
+  const request = useCallback(() => {
+    if (!navigator.geolocation) {
+      setStatus("unavailable");
+      return;
+    }
+    setStatus("pending");
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const current = formatCoordinates(position.coords.latitude, position.coords.longitude);
+        if (preferenceKey) updatePreferences(preferenceKey, { geolocation: { permission: "granted", coordinates: current } });
+        setCoordinates(current);
+        setStatus("granted");
+      },
+      (error) => {
+        if (error.code === error.PERMISSION_DENIED) {
+          if (preferenceKey) updatePreferences(preferenceKey, { geolocation: { permission: "denied", coordinates: null } });
+          setCoordinates(null);
+          setStatus("denied");
+        } else {
+          // Timeout or no position fix: the last known position (if any) stays in use
+          console.warn("Could not determine the position:", error.message);
+          setStatus("unavailable");
+        }
+      },
+      { maximumAge: MAX_POSITION_AGE, timeout: POSITION_TIMEOUT }
+    );
+  }, [preferenceKey]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setCoordinates(null);
+      setStatus("off");
+      return;
+    }
+    const stored = preferenceKey ? readPreferences(preferenceKey)?.geolocation : null;
+    if (stored?.permission === "denied") {
+      setStatus("denied");
+      return;
+    }
+    setCoordinates(stored?.coordinates ?? null);
+    request();
+  }, [enabled, preferenceKey, request]);
+
+  return { coordinates, status, request };
+}
@@ -0,0 +1,36 @@
+import React from "react"
+import {screen, render} from "@testing-library/react"
+
+import {HourlyTimeline} from "./hourly-forecast";
+import {getMessages} from "./messages";
+
+// 2024-11-26 13:00 UTC
+const start = Date.UTC(2024, 10, 26, 13);
+const hours = [10, 12, 11].map((tempC, i) => ({
+    time: start + i * 3600 * 1000,
+    tempC,
+    tempF: (tempC * 9) / 5 + 32,
+    conditionCode: 1000,
+    conditionText: "Clear",
+    isDay: i === 0,
+    chanceOfPrecipitation: i * 20,
+}));
+
+describe("HourlyTimeline", () => {
+    it("should render hour slots in the city's time zone", () => {
+        render(<HourlyTimeline hours={hours} isFahrenheit={false} imageBasePath="/img" locale="de-DE" timeZone="Asia/Tokyo" isMobileView={false} messages={getMessages("de")}/>);
+
+        expect(screen.getByText("22 Uhr")).toBeInTheDocument();
+        expect(screen.getByText("12°")).toBeInTheDocument();
+        expect(screen.getByText("40%")).toBeInTheDocument();
+        expect(screen.getAllByAltText("Clear")[1]).toHaveAttribute("src", "/img/clear-moon.svg");
+        expect(screen.getByRole("img", {name: "Temperaturverlauf"})).toBeInTheDocument();
+    })
+
+    it("should draw one sparkline point per hour", () => {
+        render(<HourlyTimeline hours={hours} isFahrenheit={true} imageBasePath="/img" locale="en-US" timeZone="UTC" isMobileView={true} messages={getMessages("en")}/>);
+
+        const points = screen.getByRole("img", {name: "Temperature trend"}).querySelector("polyline")?.getAttribute("points");
+        expect(points?.split(" ")).toEqual(["24,28.0", "72,4.0", "120,16.0"]);
+    })
+})
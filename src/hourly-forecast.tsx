@@ -0,0 +1,130 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import React, { CSSProperties, ReactElement } from "react";
+import { DateTime } from "luxon";
+import { ForecastHour } from "./weather-providers";
+import { getIconFilename } from "./weather-icons";
+import { Messages } from "./messages";
+
+// Width of one hour slot, the sparkline points line up with the slot centers
+const SLOT_WIDTH = 56;
+const SLOT_WIDTH_MOBILE = 48;
+const SPARKLINE_HEIGHT = 32;
+
+/**
+ * Properties of the temperature sparkline
+ */
+export interface TemperatureSparklineProps {
+  values: number[];
+  slotWidth: number;
+  height: number;
+  label: string; // the accessible name, e.g. "Temperature trend"
+}
+
+/**
+ * Inline SVG line of the temperatures, one point per hour slot
+ */
+export const TemperatureSparkline = ({ values, slotWidth, height, label }: TemperatureSparklineProps): ReactElement => {
+  const padding = 4;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  // A flat line in the middle if all values are the same
+  const range = max - min || 1;
+  const points = values
+    .map((value, i) => {
+      const x = i * slotWidth + slotWidth / 2;
+      const y = max === min ? height / 2 : padding + ((max - value) / range) * (height - 2 * padding);
+      return `${x},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  return (
+    <svg
+      width={values.length * slotWidth}
+      height={height}
+      viewBox={`0 0 ${values.length * slotWidth} ${height}`}
+      role="img"
+      aria-label={label}
+      className="weather-time__sparkline"
+    >
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={2} strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+/**
+ * The React component properties
+ */
+export interface HourlyTimelineProps {
+  hours: ForecastHour[];
+  isFahrenheit: boolean;
+  imageBasePath: string;
+  locale: string; // BCP 47 locale used for the hour labels
+  timeZone: string; // The city's tz_id, hour labels are shown in that zone
+  isMobileView: boolean;
+  messages: Messages;
+}
+
+/**
+ * Hourly forecast timeline
+ * ------------------------------------------------------------------------
+ * A horizontally scrollable strip of hour slots (time, icon, temperature and
+ * chance of precipitation), with a temperature sparkline above the slots.
+ */
+export const HourlyTimeline = ({
+  hours,
+  isFahrenheit,
+  imageBasePath,
+  locale,
+  timeZone,
+  isMobileView,
+  messages,
+}: HourlyTimelineProps): ReactElement => {
+  const slotWidth = isMobileView ? SLOT_WIDTH_MOBILE : SLOT_WIDTH;
+  const temperatures = hours.map((hour) => (isFahrenheit ? hour.tempF : hour.tempC));
+
+  return (
+    <div
+      className={`weather-time__hourly${isMobileView ? " weather-time__hourly--compact" : ""}`}
+      // The slots line up with the sparkline's points
+      style={{ "--weather-time-slot-width": `${slotWidth}px` } as CSSProperties}
+    >
+      <TemperatureSparkline
+        values={temperatures}
+        slotWidth={slotWidth}
+        height={SPARKLINE_HEIGHT}
+        label={messages.temperatureTrend}
+      />
+      <div className="weather-time__hourly-slots">
+        {hours.map((hour, i) => (
+          <div key={hour.time} className="weather-time__hourly-slot">
+            <p>
+              {/* Same zone logic as the local time of the widget */}
+              {DateTime.fromMillis(hour.time, { zone: timeZone, locale }).toLocaleString({ hour: "numeric" })}
+            </p>
+            <img
+              src={`${imageBasePath}/${getIconFilename(hour.conditionCode, hour.isDay ? "day" : "night")}`}
+              alt={hour.conditionText}
+              title={hour.conditionText}
+              className="weather-time__hourly-icon"
+            />
+            <p className="weather-time__hourly-temperature">{Math.round(temperatures[i])}°</p>
+            <p className="weather-time__hourly-precipitation">{Math.round(hour.chanceOfPrecipitation)}%</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
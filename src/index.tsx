@@ -11,12 +11,14 @@
  * limitations under the License.
  */
 
-import React from "react";
+import React, { ReactElement } from "react";
 import ReactDOM from "react-dom/client";
 
 import { BlockFactory, BlockDefinition, ExternalBlockDefinition, BaseBlock } from "widget-sdk";
 import { WeatherTimeProps, WeatherTime } from "./weather-time";
 import { configurationSchema, uiSchema } from "./configuration-schema";
+import { WidgetHostContext } from "./widget-host";
+import { getRenderTarget } from "./render-root";
 import icon from "../resources/weather-time.svg";
 import pkg from '../package.json'
 
@@ -25,22 +27,55 @@ import pkg from '../package.json'
  */
 const widgetAttributes: string[] = [
   'city',
+  'locationsource',
+  'departmentlocations',
+  'defaultcity',
   'apikey',
+  'provider',
+  'fallbackprovider',
+  'openweathermapkey',
   'allowcityoverride',
+  'persistpreferences',
+  'mode',
+  'timezone',
+  'worldclocklocations',
+  'worldclocksort',
+  'forecastdays',
+  'forecasthours',
+  'showalerts',
+  'alertminseverity',
+  'showairquality',
+  'airqualityindex',
+  'showastronomy',
+  'detailfields',
+  'unitsystem',
+  'unitsbasis',
+  'windunit',
+  'cachettl',
+  'refreshinterval',
+  'layout',
   'mobileview',
+  'compactbreakpoint',
+  'widebreakpoint',
   'usenewimages',
+  'showordinalsuffix',
+  'datetimeformat',
+  'showtimedifference',
+  'colorscheme',
+  'shadowdom',
 ];
 
 /**
  * This factory creates the class which is registered with the tagname in the `custom element registry`
  * Gets the parental class and a set of helper utilities provided by the hosting application.
  */
-const factory: BlockFactory = (BaseBlockClass, _widgetApi) => {
+const factory: BlockFactory = (BaseBlockClass, widgetApi) => {
   /**
    *  <weather-time city="New York" allowcityoverride="true"></weather-time>
    */
   return class WeatherTimeBlock extends BaseBlockClass implements BaseBlock {
     private _root: ReactDOM.Root | null = null;
+    private _renderTarget: Element | null = null;
 
     public constructor() {
       super();
@@ -54,9 +89,43 @@ const factory: BlockFactory = (BaseBlockClass, _widgetApi) => {
       };
     }
 
+    /**
+     * Identifies this widget on the page, for storing the user's choices per widget.
+     * Widgets rarely have an id, then their position among the page's weather widgets is used.
+     */
+    private get instanceId(): string {
+      const index = Array.from(document.querySelectorAll(this.localName)).indexOf(this);
+      return `${window.location.pathname}#${this.id || index}`;
+    }
+
+    /**
+     * Render into the container or this element's shadow root (see render-root.ts). When that
+     * changes, the widget moves to the new target.
+     */
+    private renderInto(container: HTMLElement, content: ReactElement): void {
+      const target = getRenderTarget(this, container, String(this.props.shadowdom) === "true");
+      if (this._root && this._renderTarget !== target) {
+        this._root.unmount();
+        this._root = null;
+      }
+      this._renderTarget = target;
+      this._root ??= ReactDOM.createRoot(target);
+      this._root.render(
+        <WidgetHostContext.Provider value={{ widgetApi, instanceId: this.instanceId }}>
+          {content}
+        </WidgetHostContext.Provider>
+      );
+    }
+
     public renderBlock(container: HTMLElement): void {
-      this._root ??= ReactDOM.createRoot(container);
-      this._root.render(<WeatherTime {...this.props} />);
+      this.renderInto(container, <WeatherTime {...this.props} />);
+    }
+
+    /**
+     * Render the live widget in the editor as well, with detailed error messages for editors
+     */
+    public renderBlockInEditor(container: HTMLElement): void {
+      this.renderInto(container, <WeatherTime {...this.props} isEditor={true} />);
     }
 
     /**
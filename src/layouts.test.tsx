@@ -0,0 +1,52 @@
+import React from "react"
+import {screen, render, within} from "@testing-library/react"
+
+import {resolveLayout} from "./layouts";
+import {WeatherTime} from "./weather-time";
+import {clearWeatherCache} from "./weather-cache";
+import {mockWeatherApi, widgetProps} from "./test-helpers";
+
+describe("layouts", () => {
+    it("should resolve the configured layout", () => {
+        expect(resolveLayout("hero", "compact").id).toBe("hero");
+        expect(resolveLayout("chip", "wide").id).toBe("chip");
+        expect(resolveLayout("auto", "compact").id).toBe("card");
+        expect(resolveLayout("auto", "standard").id).toBe("banner");
+        expect(resolveLayout("unknown", "wide").id).toBe("banner");
+    });
+
+    describe("in the widget", () => {
+        const props = widgetProps();
+
+        beforeEach(() => {
+            clearWeatherCache();
+            mockWeatherApi();
+        });
+
+        it("should render the hero layout with the city", async () => {
+            const {container} = render(<WeatherTime {...props} layout="hero"/>);
+            await screen.findByText("10°C");
+
+            expect(container.querySelector(".weather-time")).toHaveClass("weather-time--hero");
+            expect(screen.getByText("London, United Kingdom")).toHaveClass("weather-time__hero-city");
+        });
+
+        it("should render the chip layout with the city as its title", async () => {
+            const {container} = render(<WeatherTime {...props} layout="chip"/>);
+            await screen.findByText("10°C");
+
+            expect(container.querySelector(".weather-time__chip")).toHaveAttribute("title", "London, United Kingdom");
+            expect(screen.queryByText(/Loading time|\d:\d\d/)).not.toBeInTheDocument();
+        });
+
+        it("should preview the layouts in the editor", async () => {
+            render(<WeatherTime {...props} layout="card" isEditor={true}/>);
+            await screen.findByText("10°C");
+
+            const previews = within(screen.getByRole("list", {name: "Layouts"})).getAllByRole("listitem");
+            expect(previews.map((item) => item.textContent))
+                .toEqual(["Horizontal banner", "Vertical card", "Minimal chip", "Hero"]);
+            expect(previews[1]).toHaveAttribute("aria-current", "true");
+        });
+    });
+});
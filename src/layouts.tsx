@@ -0,0 +1,246 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+
+import React, { ReactElement, ReactNode, SyntheticEvent } from "react";
+import { LayoutSize } from "./container-layout";
+import { Messages } from "./messages";
+
+/**
+ * Layout registry
+ * ------------------------------------------------------------------------
+ * The arrangements of the single-city widget. Every layout renders the same
+ * normalized view model, so a new one is a component and an entry in LAYOUTS.
+ * Layouts render into the widget's flex container (see weather-time-styles.ts,
+ * the container gets a `weather-time--<layout id>` class).
+ */
+
+export const LAYOUT_IDS = ["auto", "banner", "card", "chip", "hero"] as const;
+export type LayoutId = (typeof LAYOUT_IDS)[number];
+
+/**
+ * What every layout shows, already formatted
+ */
+export interface LayoutViewModel {
+  temperature: number | null; // rounded, in `unit`; null until the weather is loaded
+  unit: "C" | "F";
+  iconUrl: string; // empty until the weather is loaded
+  iconAlt: string;
+  dateTime: string;
+  timeDifference: string; // empty when turned off
+  cityLabel: string; // e.g. "London, United Kingdom"
+  details: ReactNode; // detail fields and air quality
+  notice: ReactNode; // e.g. how old the weather is while offline
+}
+
+export interface LayoutProps {
+  view: LayoutViewModel;
+  size: LayoutSize; // from the container's width, see container-layout.ts
+  hasNewImages: boolean;
+  onToggleUnit: () => void;
+  onRefresh: () => void;
+  onIconError: (event: SyntheticEvent<HTMLImageElement>) => void; // falls back to other icon sources
+}
+
+export interface LayoutDefinition {
+  id: Exclude<LayoutId, "auto">;
+  label: string;
+  Component: (props: LayoutProps) => ReactElement;
+  thumbnail: ReactElement; // wireframe for the editor
+}
+
+const Temperature = ({ view, onToggleUnit }: LayoutProps): ReactElement | null =>
+  view.temperature === null ? null : (
+    <p onClick={onToggleUnit} className="weather-time__temperature" part="temperature">
+      {view.temperature}°{view.unit}
+    </p>
+  );
+
+const Icon = ({ view, onRefresh, onIconError }: LayoutProps): ReactElement => (
+  <img
+    src={view.iconUrl}
+    onClick={onRefresh}
+    alt={view.iconAlt}
+    className="weather-time__icon"
+    part="icon"
+    onError={onIconError}
+  />
+);
+
+const DateTimeLines = ({ view, onRefresh }: LayoutProps): ReactElement => (
+  <>
+    <p onClick={onRefresh} className="weather-time__date-time" part="date-time">
+      {view.dateTime}
+    </p>
+    {view.timeDifference && (
+      <p className="weather-time__note weather-time__time-difference" part="time-difference">
+        {view.timeDifference}
+      </p>
+    )}
+  </>
+);
+
+/**
+ * Temperature and date/time side by side with the weather icon (the original desktop layout)
+ */
+const BannerLayout = (props: LayoutProps): ReactElement => (
+  <>
+    {/* Left side: Temperature & date/time */}
+    <div className={props.hasNewImages ? "weather-time__main--new-images" : undefined}>
+      <Temperature {...props} />
+      {props.view.details}
+      <DateTimeLines {...props} />
+      {props.view.notice}
+    </div>
+
+    {/* Right side: Weather icon */}
+    {props.view.iconUrl && (
+      <div className="weather-time__icon-side">
+        <Icon {...props} />
+      </div>
+    )}
+  </>
+);
+
+/**
+ * Icon on top of the temperature (the original mobile layout). The date only shows with enough room.
+ */
+const CardLayout = (props: LayoutProps): ReactElement => (
+  <>
+    {props.view.iconUrl && (
+      <div className="weather-time__icon-box">
+        <Icon {...props} />
+      </div>
+    )}
+    <Temperature {...props} />
+    {props.size !== "compact" && <DateTimeLines {...props} />}
+    {props.view.details}
+    {props.view.notice}
+  </>
+);
+
+/**
+ * Just a small icon and the temperature
+ */
+const ChipLayout = (props: LayoutProps): ReactElement => (
+  <div className="weather-time__chip" title={props.view.cityLabel}>
+    {props.view.iconUrl && <Icon {...props} />}
+    <Temperature {...props} />
+  </div>
+);
+
+/**
+ * The date on top, then a large temperature and icon with the city below
+ */
+const HeroLayout = (props: LayoutProps): ReactElement => (
+  <div className="weather-time__hero">
+    <DateTimeLines {...props} />
+    <div className="weather-time__hero-main">
+      <Temperature {...props} />
+      {props.view.iconUrl && <Icon {...props} />}
+    </div>
+    {props.view.cityLabel && <p className="weather-time__hero-city">{props.view.cityLabel}</p>}
+    {props.view.details}
+    {props.view.notice}
+  </div>
+);
+
+/**
+ * Wireframes of the layouts: a circle for the icon, bars for the temperature and the date
+ */
+const Wireframe = ({ children }: { children: ReactNode }): ReactElement => (
+  <svg viewBox="0 0 80 48" width="80" height="48" aria-hidden="true" fill="currentColor">
+    <rect x="0.5" y="0.5" width="79" height="47" rx="3" fill="none" stroke="currentColor" opacity="0.4" />
+    {children}
+  </svg>
+);
+
+export const LAYOUTS: Record<LayoutDefinition["id"], LayoutDefinition> = {
+  banner: {
+    id: "banner",
+    label: "Horizontal banner",
+    Component: BannerLayout,
+    thumbnail: (
+      <Wireframe>
+        <rect x="8" y="12" width="26" height="8" rx="2" />
+        <rect x="8" y="26" width="34" height="4" rx="2" opacity="0.6" />
+        <circle cx="60" cy="24" r="11" opacity="0.8" />
+      </Wireframe>
+    ),
+  },
+  card: {
+    id: "card",
+    label: "Vertical card",
+    Component: CardLayout,
+    thumbnail: (
+      <Wireframe>
+        <circle cx="60" cy="15" r="9" opacity="0.8" />
+        <rect x="46" y="28" width="26" height="7" rx="2" />
+        <rect x="38" y="39" width="34" height="3" rx="1.5" opacity="0.6" />
+      </Wireframe>
+    ),
+  },
+  chip: {
+    id: "chip",
+    label: "Minimal chip",
+    Component: ChipLayout,
+    thumbnail: (
+      <Wireframe>
+        <rect x="18" y="16" width="44" height="16" rx="8" fill="none" stroke="currentColor" />
+        <circle cx="28" cy="24" r="5" opacity="0.8" />
+        <rect x="37" y="21" width="18" height="6" rx="2" />
+      </Wireframe>
+    ),
+  },
+  hero: {
+    id: "hero",
+    label: "Hero",
+    Component: HeroLayout,
+    thumbnail: (
+      <Wireframe>
+        <rect x="8" y="7" width="40" height="4" rx="2" opacity="0.6" />
+        <rect x="8" y="17" width="36" height="14" rx="2" />
+        <circle cx="62" cy="24" r="12" opacity="0.8" />
+        <rect x="8" y="37" width="24" height="4" rx="2" opacity="0.6" />
+      </Wireframe>
+    ),
+  },
+};
+
+/**
+ * The layout to render. "auto" (and unknown ids) goes by the container's width like the
+ * widget always did: the card when compact, the banner otherwise.
+ */
+export function resolveLayout(id: string, size: LayoutSize): LayoutDefinition {
+  if (id in LAYOUTS) return LAYOUTS[id as LayoutDefinition["id"]];
+  return size === "compact" ? LAYOUTS.card : LAYOUTS.banner;
+}
+
+/**
+ * Tells editors what the layouts look like, with the configured one marked
+ */
+export const LayoutPreviews = ({ selected, messages }: { selected: string; messages: Messages }): ReactElement => (
+  <ul aria-label={messages.layouts} className="weather-time__layout-previews">
+    {Object.values(LAYOUTS).map((layout) => (
+      <li
+        key={layout.id}
+        aria-current={layout.id === selected ? "true" : undefined}
+        className="weather-time__layout-preview"
+      >
+        {layout.thumbnail}
+        <div>{layout.label}</div>
+      </li>
+    ))}
+  </ul>
+);
@@ -0,0 +1,77 @@
+import React from "react"
+import {screen, render, fireEvent} from "@testing-library/react"
+
+import {formatMessage, getMessages, isRightToLeft} from "./messages";
+import {WeatherTime} from "./weather-time";
+import {clearWeatherCache} from "./weather-cache";
+import {mockWeatherApi, weatherApiReply, widgetProps} from "./test-helpers";
+
+describe("messages", () => {
+    it("should have every message in every language", () => {
+        const english = getMessages("en");
+
+        ["de", "fr", "es", "it", "nl", "ja", "ar"].forEach((language) => {
+            const messages = getMessages(language);
+            expect(messages).not.toBe(english);
+            expect(Object.keys(messages)).toEqual(Object.keys(english));
+            expect(Object.values(messages)).not.toContain("");
+            // Nested records (errors, moon phases, conditions, ...) and the compass points
+            Object.entries(english)
+                .filter(([, value]) => typeof value === "object")
+                .forEach(([key, value]) => {
+                    const translated = messages[key as keyof typeof messages] as object;
+                    expect(Object.keys(translated)).toEqual(Object.keys(value));
+                    expect(Object.values(translated)).not.toContain("");
+                });
+        });
+    });
+
+    it("should pick the catalog by the language and fall back to English", () => {
+        expect(getMessages("de-CH").retry).toBe("Erneut versuchen");
+        expect(getMessages("FR").retry).toBe("Réessayer");
+        expect(getMessages("pl-PL")).toBe(getMessages("en"));
+    });
+
+    it("should know the right-to-left languages", () => {
+        expect(isRightToLeft("ar-SA")).toBe(true);
+        expect(isRightToLeft("he")).toBe(true);
+        expect(isRightToLeft("en-US")).toBe(false);
+    });
+
+    it("should fill in placeholders", () => {
+        expect(formatMessage("offline · updated {time}", {time: "5 min. ago"})).toBe("offline · updated 5 min. ago");
+        expect(formatMessage("{unknown}", {})).toBe("{unknown}");
+    });
+
+    describe("in the widget", () => {
+        const props = widgetProps({city: "Dubai", allowcityoverride: true});
+
+        beforeEach(() => {
+            clearWeatherCache();
+            mockWeatherApi({
+                Dubai: weatherApiReply("Dubai", "United Arab Emirates", "Asia/Dubai", {temp_c: 30, temp_f: 86, condition: {code: 1000, text: "مشمس"}}),
+            });
+        });
+
+        it("should lay out right to left and translate for Arabic", async () => {
+            const {container} = render(<WeatherTime {...props} contentLanguage="ar_SA"/>);
+
+            expect(await screen.findByAltText("مشمس")).toBeInTheDocument();
+            expect(container.firstElementChild).toHaveAttribute("dir", "rtl");
+            expect((global.fetch as jest.Mock).mock.lastCall[0]).toContain("lang=ar");
+
+            fireEvent.click(screen.getByText("..."));
+            expect(screen.getByRole("button", {name: "إلغاء"})).toBeInTheDocument();
+        });
+
+        it("should stay left to right in English", async () => {
+            const {container} = render(<WeatherTime {...props} contentLanguage="en_US"/>);
+
+            expect(await screen.findByText("30°C")).toBeInTheDocument();
+            expect(container.firstElementChild).toHaveAttribute("dir", "ltr");
+
+            fireEvent.click(screen.getByText("..."));
+            expect(screen.getByRole("button", {name: "Cancel"})).toBeInTheDocument();
+        });
+    });
+});
@@ -0,0 +1,1062 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+
+import { AirQualityCategoryId } from "./air-quality-index";
+import { WeatherErrorKind } from "./weather-errors";
+import { AlertSeverity, MoonPhase } from "./weather-providers";
+import { DetailField } from "./weather-details";
+
+/**
+ * Message catalog
+ * ------------------------------------------------------------------------
+ * Everything the widget says to end users, per language of the block's
+ * `contentLanguage`. Languages without a catalog get English. Messages only
+ * editors see (configuration problems) stay English.
+ */
+
+export interface Messages {
+  loadingTime: string;
+  weatherIcon: string; // alt text when the provider has no condition text
+  currentCity: string;
+  typeCity: string;
+  ok: string;
+  cancel: string;
+  retry: string;
+  resetToDefault: string;
+  useMyLocation: string;
+  yourLocation: string; // the city label for the user's position when the provider can't name it
+  locationAccessOff: string;
+  units: string;
+  unitsAsConfigured: string;
+  unitsAuto: string;
+  unitsMetric: string;
+  unitsImperial: string;
+  unitsMixed: string;
+  offlineUpdated: string; // {time} is the relative time, e.g. "14 min. ago"
+  timeAhead: string; // {difference} is the hours and minutes, e.g. "5 hours 30 minutes"
+  timeBehind: string;
+  sameTime: string;
+  // Accessible names of the panels
+  worldClock: string;
+  weatherAlerts: string;
+  airQuality: string;
+  astronomy: string;
+  daylight: string;
+  temperatureTrend: string;
+  layouts: string;
+  sunrise: string; // {time} is the local time of sunrise
+  sunset: string;
+  sunriseIn: string; // {duration} is the hours and minutes, e.g. "2h 5m"
+  daylightLeft: string;
+  sunHasSet: string;
+  moonPhases: Record<MoonPhase, string>;
+  showDetails: string;
+  hideDetails: string;
+  severities: Record<AlertSeverity, string>;
+  pollutants: string;
+  hidePollutants: string;
+  airQualityCategories: Record<AirQualityCategoryId, string>;
+  detailLabels: Record<DetailField, string>;
+  windFrom: string; // {direction} is the compass point the wind comes from
+  compassPoints: string[]; // the 16 points, clockwise from north
+  dayAhead: string; // {days} is the number of days, e.g. "1 day"
+  dayBehind: string;
+  conditions: Record<number, string>; // by WMO weather code, for providers without condition texts (Open-Meteo)
+  errors: Record<WeatherErrorKind, string>;
+}
+
+/**
+ * The neutral error messages only tell "unavailable", "not here" and "no connection" apart
+ */
+const errorMessages = (unavailable: string, unknownLocation: string, network: string): Messages["errors"] => ({
+  "missing-key": unavailable,
+  "unknown-location": unknownLocation,
+  "quota-exceeded": unavailable,
+  "auth-rejected": unavailable,
+  network,
+  "malformed-response": unavailable,
+});
+
+const en: Messages = {
+  loadingTime: "Loading time...",
+  weatherIcon: "Weather Icon",
+  currentCity: "Current City:",
+  typeCity: "Type a city...",
+  ok: "OK",
+  cancel: "Cancel",
+  retry: "Retry",
+  resetToDefault: "Reset to default",
+  useMyLocation: "Use my location",
+  yourLocation: "Your location",
+  locationAccessOff: "Location access is off, showing the configured city.",
+  units: "Units",
+  unitsAsConfigured: "As configured",
+  unitsAuto: "Automatic",
+  unitsMetric: "Metric",
+  unitsImperial: "Imperial",
+  unitsMixed: "Mixed",
+  offlineUpdated: "offline · updated {time}",
+  timeAhead: "{difference} ahead of you",
+  timeBehind: "{difference} behind you",
+  sameTime: "same time as you",
+  worldClock: "World clock",
+  weatherAlerts: "Weather alerts",
+  airQuality: "Air quality",
+  astronomy: "Astronomy",
+  daylight: "Daylight",
+  temperatureTrend: "Temperature trend",
+  layouts: "Layouts",
+  sunrise: "Sunrise {time}",
+  sunset: "Sunset {time}",
+  sunriseIn: "Sunrise in {duration}",
+  daylightLeft: "{duration} of daylight left",
+  sunHasSet: "The sun has set",
+  moonPhases: {
+    "New Moon": "New Moon",
+    "Waxing Crescent": "Waxing Crescent",
+    "First Quarter": "First Quarter",
+    "Waxing Gibbous": "Waxing Gibbous",
+    "Full Moon": "Full Moon",
+    "Waning Gibbous": "Waning Gibbous",
+    "Last Quarter": "Last Quarter",
+    "Waning Crescent": "Waning Crescent",
+  },
+  showDetails: "Show details",
+  hideDetails: "Hide details",
+  severities: {
+    Unknown: "Unknown",
+    Minor: "Minor",
+    Moderate: "Moderate",
+    Severe: "Severe",
+    Extreme: "Extreme",
+  },
+  pollutants: "Pollutants",
+  hidePollutants: "Hide pollutants",
+  airQualityCategories: {
+    good: "Good",
+    moderate: "Moderate",
+    unhealthyForSensitiveGroups: "Unhealthy for sensitive groups",
+    unhealthy: "Unhealthy",
+    veryUnhealthy: "Very unhealthy",
+    hazardous: "Hazardous",
+    low: "Low",
+    high: "High",
+    veryHigh: "Very high",
+  },
+  detailLabels: {
+    condition: "Condition",
+    feelslike: "Feels like",
+    humidity: "Humidity",
+    wind: "Wind",
+    gusts: "Gusts",
+    uv: "UV index",
+    precipitation: "Precipitation",
+    pressure: "Pressure",
+    visibility: "Visibility",
+  },
+  windFrom: "from {direction}",
+  compassPoints: ["N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE", "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW"],
+  dayAhead: "+{days}",
+  dayBehind: "-{days}",
+  conditions: {
+    0: "Clear",
+    1: "Mainly clear",
+    2: "Partly cloudy",
+    3: "Overcast",
+    45: "Fog",
+    48: "Freezing fog",
+    51: "Light drizzle",
+    53: "Drizzle",
+    55: "Dense drizzle",
+    56: "Freezing drizzle",
+    57: "Heavy freezing drizzle",
+    61: "Light rain",
+    63: "Moderate rain",
+    65: "Heavy rain",
+    66: "Light freezing rain",
+    67: "Heavy freezing rain",
+    71: "Light snow",
+    73: "Moderate snow",
+    75: "Heavy snow",
+    77: "Snow grains",
+    80: "Light rain showers",
+    81: "Rain showers",
+    82: "Violent rain showers",
+    85: "Light snow showers",
+    86: "Heavy snow showers",
+    95: "Thunderstorm",
+    96: "Thunderstorm with hail",
+    99: "Thunderstorm with heavy hail",
+  },
+  errors: errorMessages(
+    "Weather is currently unavailable.",
+    "Weather isn't available for this location.",
+    "Weather couldn't be loaded. Check your connection and try again."
+  ),
+};
+
+const de: Messages = {
+  loadingTime: "Uhrzeit wird geladen...",
+  weatherIcon: "Wettersymbol",
+  currentCity: "Aktuelle Stadt:",
+  typeCity: "Stadt eingeben...",
+  ok: "OK",
+  cancel: "Abbrechen",
+  retry: "Erneut versuchen",
+  resetToDefault: "Auf Standard zurücksetzen",
+  useMyLocation: "Meinen Standort verwenden",
+  yourLocation: "Dein Standort",
+  locationAccessOff: "Der Standortzugriff ist aus, die eingestellte Stadt wird angezeigt.",
+  units: "Einheiten",
+  unitsAsConfigured: "Wie eingestellt",
+  unitsAuto: "Automatisch",
+  unitsMetric: "Metrisch",
+  unitsImperial: "Imperial",
+  unitsMixed: "Gemischt",
+  offlineUpdated: "offline · aktualisiert {time}",
+  timeAhead: "{difference} später als bei dir",
+  timeBehind: "{difference} früher als bei dir",
+  sameTime: "gleiche Uhrzeit wie bei dir",
+  worldClock: "Weltuhr",
+  weatherAlerts: "Unwetterwarnungen",
+  airQuality: "Luftqualität",
+  astronomy: "Sonne und Mond",
+  daylight: "Tageslicht",
+  temperatureTrend: "Temperaturverlauf",
+  layouts: "Layouts",
+  sunrise: "Sonnenaufgang {time}",
+  sunset: "Sonnenuntergang {time}",
+  sunriseIn: "Sonnenaufgang in {duration}",
+  daylightLeft: "Noch {duration} Tageslicht",
+  sunHasSet: "Die Sonne ist untergegangen",
+  moonPhases: {
+    "New Moon": "Neumond",
+    "Waxing Crescent": "Zunehmende Sichel",
+    "First Quarter": "Erstes Viertel",
+    "Waxing Gibbous": "Zunehmender Mond",
+    "Full Moon": "Vollmond",
+    "Waning Gibbous": "Abnehmender Mond",
+    "Last Quarter": "Letztes Viertel",
+    "Waning Crescent": "Abnehmende Sichel",
+  },
+  showDetails: "Details anzeigen",
+  hideDetails: "Details ausblenden",
+  severities: {
+    Unknown: "Unbekannt",
+    Minor: "Gering",
+    Moderate: "Mäßig",
+    Severe: "Schwer",
+    Extreme: "Extrem",
+  },
+  pollutants: "Schadstoffe",
+  hidePollutants: "Schadstoffe ausblenden",
+  airQualityCategories: {
+    good: "Gut",
+    moderate: "Mäßig",
+    unhealthyForSensitiveGroups: "Ungesund für empfindliche Gruppen",
+    unhealthy: "Ungesund",
+    veryUnhealthy: "Sehr ungesund",
+    hazardous: "Gefährlich",
+    low: "Niedrig",
+    high: "Hoch",
+    veryHigh: "Sehr hoch",
+  },
+  detailLabels: {
+    condition: "Wetterlage",
+    feelslike: "Gefühlt",
+    humidity: "Luftfeuchtigkeit",
+    wind: "Wind",
+    gusts: "Böen",
+    uv: "UV-Index",
+    precipitation: "Niederschlag",
+    pressure: "Luftdruck",
+    visibility: "Sichtweite",
+  },
+  windFrom: "aus {direction}",
+  compassPoints: ["N", "NNO", "NO", "ONO", "O", "OSO", "SO", "SSO", "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW"],
+  dayAhead: "+{days}",
+  dayBehind: "-{days}",
+  conditions: {
+    0: "Klar",
+    1: "Überwiegend klar",
+    2: "Teilweise bewölkt",
+    3: "Bedeckt",
+    45: "Nebel",
+    48: "Gefrierender Nebel",
+    51: "Leichter Nieselregen",
+    53: "Nieselregen",
+    55: "Starker Nieselregen",
+    56: "Gefrierender Nieselregen",
+    57: "Starker gefrierender Nieselregen",
+    61: "Leichter Regen",
+    63: "Mäßiger Regen",
+    65: "Starker Regen",
+    66: "Leichter gefrierender Regen",
+    67: "Starker gefrierender Regen",
+    71: "Leichter Schneefall",
+    73: "Mäßiger Schneefall",
+    75: "Starker Schneefall",
+    77: "Schneegriesel",
+    80: "Leichte Regenschauer",
+    81: "Regenschauer",
+    82: "Heftige Regenschauer",
+    85: "Leichte Schneeschauer",
+    86: "Starke Schneeschauer",
+    95: "Gewitter",
+    96: "Gewitter mit Hagel",
+    99: "Gewitter mit starkem Hagel",
+  },
+  errors: errorMessages(
+    "Das Wetter ist derzeit nicht verfügbar.",
+    "Für diesen Ort ist kein Wetter verfügbar.",
+    "Das Wetter konnte nicht geladen werden. Prüfe deine Verbindung und versuche es erneut."
+  ),
+};
+
+const fr: Messages = {
+  loadingTime: "Chargement de l'heure...",
+  weatherIcon: "Icône météo",
+  currentCity: "Ville actuelle :",
+  typeCity: "Saisissez une ville...",
+  ok: "OK",
+  cancel: "Annuler",
+  retry: "Réessayer",
+  resetToDefault: "Rétablir les valeurs par défaut",
+  useMyLocation: "Utiliser ma position",
+  yourLocation: "Votre position",
+  locationAccessOff: "L'accès à la position est désactivé, la ville configurée est affichée.",
+  units: "Unités",
+  unitsAsConfigured: "Comme configuré",
+  unitsAuto: "Automatique",
+  unitsMetric: "Métrique",
+  unitsImperial: "Impérial",
+  unitsMixed: "Mixte",
+  offlineUpdated: "hors ligne · mis à jour {time}",
+  timeAhead: "{difference} d'avance sur vous",
+  timeBehind: "{difference} de retard sur vous",
+  sameTime: "même heure que vous",
+  worldClock: "Horloge mondiale",
+  weatherAlerts: "Alertes météo",
+  airQuality: "Qualité de l'air",
+  astronomy: "Soleil et lune",
+  daylight: "Lumière du jour",
+  temperatureTrend: "Évolution de la température",
+  layouts: "Mises en page",
+  sunrise: "Lever du soleil {time}",
+  sunset: "Coucher du soleil {time}",
+  sunriseIn: "Lever du soleil dans {duration}",
+  daylightLeft: "Encore {duration} de jour",
+  sunHasSet: "Le soleil est couché",
+  moonPhases: {
+    "New Moon": "Nouvelle lune",
+    "Waxing Crescent": "Premier croissant",
+    "First Quarter": "Premier quartier",
+    "Waxing Gibbous": "Gibbeuse croissante",
+    "Full Moon": "Pleine lune",
+    "Waning Gibbous": "Gibbeuse décroissante",
+    "Last Quarter": "Dernier quartier",
+    "Waning Crescent": "Dernier croissant",
+  },
+  showDetails: "Afficher les détails",
+  hideDetails: "Masquer les détails",
+  severities: {
+    Unknown: "Inconnue",
+    Minor: "Mineure",
+    Moderate: "Modérée",
+    Severe: "Sévère",
+    Extreme: "Extrême",
+  },
+  pollutants: "Polluants",
+  hidePollutants: "Masquer les polluants",
+  airQualityCategories: {
+    good: "Bon",
+    moderate: "Modéré",
+    unhealthyForSensitiveGroups: "Mauvais pour les groupes sensibles",
+    unhealthy: "Mauvais",
+    veryUnhealthy: "Très mauvais",
+    hazardous: "Dangereux",
+    low: "Faible",
+    high: "Élevé",
+    veryHigh: "Très élevé",
+  },
+  detailLabels: {
+    condition: "Conditions",
+    feelslike: "Ressenti",
+    humidity: "Humidité",
+    wind: "Vent",
+    gusts: "Rafales",
+    uv: "Indice UV",
+    precipitation: "Précipitations",
+    pressure: "Pression",
+    visibility: "Visibilité",
+  },
+  windFrom: "du {direction}",
+  compassPoints: ["N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE", "S", "SSO", "SO", "OSO", "O", "ONO", "NO", "NNO"],
+  dayAhead: "+{days}",
+  dayBehind: "-{days}",
+  conditions: {
+    0: "Dégagé",
+    1: "Plutôt dégagé",
+    2: "Partiellement nuageux",
+    3: "Couvert",
+    45: "Brouillard",
+    48: "Brouillard givrant",
+    51: "Bruine légère",
+    53: "Bruine",
+    55: "Bruine dense",
+    56: "Bruine verglaçante",
+    57: "Forte bruine verglaçante",
+    61: "Pluie faible",
+    63: "Pluie modérée",
+    65: "Forte pluie",
+    66: "Pluie verglaçante faible",
+    67: "Forte pluie verglaçante",
+    71: "Neige faible",
+    73: "Neige modérée",
+    75: "Forte neige",
+    77: "Neige en grains",
+    80: "Averses de pluie faibles",
+    81: "Averses de pluie",
+    82: "Violentes averses de pluie",
+    85: "Averses de neige faibles",
+    86: "Fortes averses de neige",
+    95: "Orage",
+    96: "Orage avec grêle",
+    99: "Orage avec forte grêle",
+  },
+  errors: errorMessages(
+    "La météo est actuellement indisponible.",
+    "La météo n'est pas disponible pour ce lieu.",
+    "Impossible de charger la météo. Vérifiez votre connexion et réessayez."
+  ),
+};
+
+const es: Messages = {
+  loadingTime: "Cargando la hora...",
+  weatherIcon: "Icono del tiempo",
+  currentCity: "Ciudad actual:",
+  typeCity: "Escribe una ciudad...",
+  ok: "Aceptar",
+  cancel: "Cancelar",
+  retry: "Reintentar",
+  resetToDefault: "Restablecer valores predeterminados",
+  useMyLocation: "Usar mi ubicación",
+  yourLocation: "Tu ubicación",
+  locationAccessOff: "El acceso a la ubicación está desactivado, se muestra la ciudad configurada.",
+  units: "Unidades",
+  unitsAsConfigured: "Según la configuración",
+  unitsAuto: "Automático",
+  unitsMetric: "Métrico",
+  unitsImperial: "Imperial",
+  unitsMixed: "Mixto",
+  offlineUpdated: "sin conexión · actualizado {time}",
+  timeAhead: "{difference} por delante de ti",
+  timeBehind: "{difference} por detrás de ti",
+  sameTime: "misma hora que tú",
+  worldClock: "Reloj mundial",
+  weatherAlerts: "Alertas meteorológicas",
+  airQuality: "Calidad del aire",
+  astronomy: "Sol y luna",
+  daylight: "Luz del día",
+  temperatureTrend: "Tendencia de la temperatura",
+  layouts: "Diseños",
+  sunrise: "Amanecer {time}",
+  sunset: "Atardecer {time}",
+  sunriseIn: "Amanece en {duration}",
+  daylightLeft: "Quedan {duration} de luz",
+  sunHasSet: "El sol se ha puesto",
+  moonPhases: {
+    "New Moon": "Luna nueva",
+    "Waxing Crescent": "Luna creciente",
+    "First Quarter": "Cuarto creciente",
+    "Waxing Gibbous": "Gibosa creciente",
+    "Full Moon": "Luna llena",
+    "Waning Gibbous": "Gibosa menguante",
+    "Last Quarter": "Cuarto menguante",
+    "Waning Crescent": "Luna menguante",
+  },
+  showDetails: "Mostrar detalles",
+  hideDetails: "Ocultar detalles",
+  severities: {
+    Unknown: "Desconocida",
+    Minor: "Menor",
+    Moderate: "Moderada",
+    Severe: "Grave",
+    Extreme: "Extrema",
+  },
+  pollutants: "Contaminantes",
+  hidePollutants: "Ocultar contaminantes",
+  airQualityCategories: {
+    good: "Buena",
+    moderate: "Moderada",
+    unhealthyForSensitiveGroups: "Dañina para grupos sensibles",
+    unhealthy: "Dañina",
+    veryUnhealthy: "Muy dañina",
+    hazardous: "Peligrosa",
+    low: "Baja",
+    high: "Alta",
+    veryHigh: "Muy alta",
+  },
+  detailLabels: {
+    condition: "Estado",
+    feelslike: "Sensación térmica",
+    humidity: "Humedad",
+    wind: "Viento",
+    gusts: "Ráfagas",
+    uv: "Índice UV",
+    precipitation: "Precipitación",
+    pressure: "Presión",
+    visibility: "Visibilidad",
+  },
+  windFrom: "del {direction}",
+  compassPoints: ["N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE", "S", "SSO", "SO", "OSO", "O", "ONO", "NO", "NNO"],
+  dayAhead: "+{days}",
+  dayBehind: "-{days}",
+  conditions: {
+    0: "Despejado",
+    1: "Mayormente despejado",
+    2: "Parcialmente nublado",
+    3: "Cubierto",
+    45: "Niebla",
+    48: "Niebla helada",
+    51: "Llovizna ligera",
+    53: "Llovizna",
+    55: "Llovizna densa",
+    56: "Llovizna helada",
+    57: "Llovizna helada intensa",
+    61: "Lluvia ligera",
+    63: "Lluvia moderada",
+    65: "Lluvia intensa",
+    66: "Lluvia helada ligera",
+    67: "Lluvia helada intensa",
+    71: "Nevada ligera",
+    73: "Nevada moderada",
+    75: "Nevada intensa",
+    77: "Cinarra",
+    80: "Chubascos ligeros",
+    81: "Chubascos",
+    82: "Chubascos violentos",
+    85: "Chubascos de nieve ligeros",
+    86: "Chubascos de nieve intensos",
+    95: "Tormenta",
+    96: "Tormenta con granizo",
+    99: "Tormenta con granizo intenso",
+  },
+  errors: errorMessages(
+    "El tiempo no está disponible en este momento.",
+    "El tiempo no está disponible para esta ubicación.",
+    "No se pudo cargar el tiempo. Comprueba tu conexión e inténtalo de nuevo."
+  ),
+};
+
+const it: Messages = {
+  loadingTime: "Caricamento dell'ora...",
+  weatherIcon: "Icona meteo",
+  currentCity: "Città attuale:",
+  typeCity: "Digita una città...",
+  ok: "OK",
+  cancel: "Annulla",
+  retry: "Riprova",
+  resetToDefault: "Ripristina predefiniti",
+  useMyLocation: "Usa la mia posizione",
+  yourLocation: "La tua posizione",
+  locationAccessOff: "L'accesso alla posizione è disattivato, viene mostrata la città configurata.",
+  units: "Unità",
+  unitsAsConfigured: "Come configurato",
+  unitsAuto: "Automatico",
+  unitsMetric: "Metrico",
+  unitsImperial: "Imperiale",
+  unitsMixed: "Misto",
+  offlineUpdated: "offline · aggiornato {time}",
+  timeAhead: "{difference} avanti rispetto a te",
+  timeBehind: "{difference} indietro rispetto a te",
+  sameTime: "stessa ora tua",
+  worldClock: "Orologio mondiale",
+  weatherAlerts: "Allerte meteo",
+  airQuality: "Qualità dell'aria",
+  astronomy: "Sole e luna",
+  daylight: "Luce del giorno",
+  temperatureTrend: "Andamento della temperatura",
+  layouts: "Layout",
+  sunrise: "Alba {time}",
+  sunset: "Tramonto {time}",
+  sunriseIn: "Alba tra {duration}",
+  daylightLeft: "Ancora {duration} di luce",
+  sunHasSet: "Il sole è tramontato",
+  moonPhases: {
+    "New Moon": "Luna nuova",
+    "Waxing Crescent": "Luna crescente",
+    "First Quarter": "Primo quarto",
+    "Waxing Gibbous": "Gibbosa crescente",
+    "Full Moon": "Luna piena",
+    "Waning Gibbous": "Gibbosa calante",
+    "Last Quarter": "Ultimo quarto",
+    "Waning Crescent": "Luna calante",
+  },
+  showDetails: "Mostra dettagli",
+  hideDetails: "Nascondi dettagli",
+  severities: {
+    Unknown: "Sconosciuta",
+    Minor: "Minore",
+    Moderate: "Moderata",
+    Severe: "Grave",
+    Extreme: "Estrema",
+  },
+  pollutants: "Inquinanti",
+  hidePollutants: "Nascondi inquinanti",
+  airQualityCategories: {
+    good: "Buona",
+    moderate: "Moderata",
+    unhealthyForSensitiveGroups: "Dannosa per i gruppi sensibili",
+    unhealthy: "Dannosa",
+    veryUnhealthy: "Molto dannosa",
+    hazardous: "Pericolosa",
+    low: "Bassa",
+    high: "Alta",
+    veryHigh: "Molto alta",
+  },
+  detailLabels: {
+    condition: "Condizioni",
+    feelslike: "Percepita",
+    humidity: "Umidità",
+    wind: "Vento",
+    gusts: "Raffiche",
+    uv: "Indice UV",
+    precipitation: "Precipitazioni",
+    pressure: "Pressione",
+    visibility: "Visibilità",
+  },
+  windFrom: "da {direction}",
+  compassPoints: ["N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE", "S", "SSO", "SO", "OSO", "O", "ONO", "NO", "NNO"],
+  dayAhead: "+{days}",
+  dayBehind: "-{days}",
+  conditions: {
+    0: "Sereno",
+    1: "Prevalentemente sereno",
+    2: "Parzialmente nuvoloso",
+    3: "Coperto",
+    45: "Nebbia",
+    48: "Nebbia gelata",
+    51: "Pioviggine leggera",
+    53: "Pioviggine",
+    55: "Pioviggine fitta",
+    56: "Pioviggine gelata",
+    57: "Pioviggine gelata intensa",
+    61: "Pioggia leggera",
+    63: "Pioggia moderata",
+    65: "Pioggia forte",
+    66: "Pioggia gelata leggera",
+    67: "Pioggia gelata forte",
+    71: "Neve leggera",
+    73: "Neve moderata",
+    75: "Neve forte",
+    77: "Neve granulosa",
+    80: "Rovesci leggeri",
+    81: "Rovesci",
+    82: "Rovesci violenti",
+    85: "Rovesci di neve leggeri",
+    86: "Rovesci di neve forti",
+    95: "Temporale",
+    96: "Temporale con grandine",
+    99: "Temporale con grandine forte",
+  },
+  errors: errorMessages(
+    "Il meteo non è al momento disponibile.",
+    "Il meteo non è disponibile per questa località.",
+    "Impossibile caricare il meteo. Controlla la connessione e riprova."
+  ),
+};
+
+const nl: Messages = {
+  loadingTime: "Tijd laden...",
+  weatherIcon: "Weerpictogram",
+  currentCity: "Huidige stad:",
+  typeCity: "Typ een stad...",
+  ok: "OK",
+  cancel: "Annuleren",
+  retry: "Opnieuw proberen",
+  resetToDefault: "Standaard herstellen",
+  useMyLocation: "Mijn locatie gebruiken",
+  yourLocation: "Jouw locatie",
+  locationAccessOff: "Locatietoegang staat uit, de ingestelde stad wordt getoond.",
+  units: "Eenheden",
+  unitsAsConfigured: "Zoals ingesteld",
+  unitsAuto: "Automatisch",
+  unitsMetric: "Metrisch",
+  unitsImperial: "Imperiaal",
+  unitsMixed: "Gemengd",
+  offlineUpdated: "offline · bijgewerkt {time}",
+  timeAhead: "{difference} voor op jou",
+  timeBehind: "{difference} achter op jou",
+  sameTime: "zelfde tijd als bij jou",
+  worldClock: "Wereldklok",
+  weatherAlerts: "Weerwaarschuwingen",
+  airQuality: "Luchtkwaliteit",
+  astronomy: "Zon en maan",
+  daylight: "Daglicht",
+  temperatureTrend: "Temperatuurverloop",
+  layouts: "Indelingen",
+  sunrise: "Zonsopkomst {time}",
+  sunset: "Zonsondergang {time}",
+  sunriseIn: "Zonsopkomst over {duration}",
+  daylightLeft: "Nog {duration} daglicht",
+  sunHasSet: "De zon is onder",
+  moonPhases: {
+    "New Moon": "Nieuwe maan",
+    "Waxing Crescent": "Wassende sikkel",
+    "First Quarter": "Eerste kwartier",
+    "Waxing Gibbous": "Wassende maan",
+    "Full Moon": "Volle maan",
+    "Waning Gibbous": "Afnemende maan",
+    "Last Quarter": "Laatste kwartier",
+    "Waning Crescent": "Afnemende sikkel",
+  },
+  showDetails: "Details tonen",
+  hideDetails: "Details verbergen",
+  severities: {
+    Unknown: "Onbekend",
+    Minor: "Licht",
+    Moderate: "Matig",
+    Severe: "Ernstig",
+    Extreme: "Extreem",
+  },
+  pollutants: "Vervuilende stoffen",
+  hidePollutants: "Vervuilende stoffen verbergen",
+  airQualityCategories: {
+    good: "Goed",
+    moderate: "Matig",
+    unhealthyForSensitiveGroups: "Ongezond voor gevoelige groepen",
+    unhealthy: "Ongezond",
+    veryUnhealthy: "Zeer ongezond",
+    hazardous: "Gevaarlijk",
+    low: "Laag",
+    high: "Hoog",
+    veryHigh: "Zeer hoog",
+  },
+  detailLabels: {
+    condition: "Weer",
+    feelslike: "Gevoelstemperatuur",
+    humidity: "Luchtvochtigheid",
+    wind: "Wind",
+    gusts: "Windstoten",
+    uv: "UV-index",
+    precipitation: "Neerslag",
+    pressure: "Luchtdruk",
+    visibility: "Zicht",
+  },
+  windFrom: "uit {direction}",
+  compassPoints: ["N", "NNO", "NO", "ONO", "O", "OZO", "ZO", "ZZO", "Z", "ZZW", "ZW", "WZW", "W", "WNW", "NW", "NNW"],
+  dayAhead: "+{days}",
+  dayBehind: "-{days}",
+  conditions: {
+    0: "Helder",
+    1: "Overwegend helder",
+    2: "Gedeeltelijk bewolkt",
+    3: "Bewolkt",
+    45: "Mist",
+    48: "Aanvriezende mist",
+    51: "Lichte motregen",
+    53: "Motregen",
+    55: "Dichte motregen",
+    56: "Aanvriezende motregen",
+    57: "Zware aanvriezende motregen",
+    61: "Lichte regen",
+    63: "Matige regen",
+    65: "Zware regen",
+    66: "Lichte ijzel",
+    67: "Zware ijzel",
+    71: "Lichte sneeuw",
+    73: "Matige sneeuw",
+    75: "Zware sneeuw",
+    77: "Motsneeuw",
+    80: "Lichte regenbuien",
+    81: "Regenbuien",
+    82: "Zware regenbuien",
+    85: "Lichte sneeuwbuien",
+    86: "Zware sneeuwbuien",
+    95: "Onweer",
+    96: "Onweer met hagel",
+    99: "Onweer met zware hagel",
+  },
+  errors: errorMessages(
+    "Het weer is momenteel niet beschikbaar.",
+    "Het weer is niet beschikbaar voor deze locatie.",
+    "Het weer kon niet worden geladen. Controleer je verbinding en probeer het opnieuw."
+  ),
+};
+
+const ja: Messages = {
+  loadingTime: "時刻を読み込み中...",
+  weatherIcon: "天気アイコン",
+  currentCity: "現在の都市:",
+  typeCity: "都市名を入力...",
+  ok: "OK",
+  cancel: "キャンセル",
+  retry: "再試行",
+  resetToDefault: "デフォルトに戻す",
+  useMyLocation: "現在地を使用",
+  yourLocation: "現在地",
+  locationAccessOff: "位置情報へのアクセスがオフのため、設定された都市を表示しています。",
+  units: "単位",
+  unitsAsConfigured: "設定どおり",
+  unitsAuto: "自動",
+  unitsMetric: "メートル法",
+  unitsImperial: "ヤード・ポンド法",
+  unitsMixed: "混合",
+  offlineUpdated: "オフライン · {time}に更新",
+  timeAhead: "あなたより{difference}進んでいます",
+  timeBehind: "あなたより{difference}遅れています",
+  sameTime: "あなたと同じ時刻",
+  worldClock: "世界時計",
+  weatherAlerts: "気象警報",
+  airQuality: "大気質",
+  astronomy: "太陽と月",
+  daylight: "日照",
+  temperatureTrend: "気温の推移",
+  layouts: "レイアウト",
+  sunrise: "日の出 {time}",
+  sunset: "日の入り {time}",
+  sunriseIn: "日の出まで{duration}",
+  daylightLeft: "日没まで{duration}",
+  sunHasSet: "日が沈みました",
+  moonPhases: {
+    "New Moon": "新月",
+    "Waxing Crescent": "三日月",
+    "First Quarter": "上弦の月",
+    "Waxing Gibbous": "十三夜月",
+    "Full Moon": "満月",
+    "Waning Gibbous": "寝待月",
+    "Last Quarter": "下弦の月",
+    "Waning Crescent": "有明月",
+  },
+  showDetails: "詳細を表示",
+  hideDetails: "詳細を隠す",
+  severities: {
+    Unknown: "不明",
+    Minor: "軽度",
+    Moderate: "中程度",
+    Severe: "重大",
+    Extreme: "極めて重大",
+  },
+  pollutants: "汚染物質",
+  hidePollutants: "汚染物質を隠す",
+  airQualityCategories: {
+    good: "良い",
+    moderate: "普通",
+    unhealthyForSensitiveGroups: "敏感なグループには不健康",
+    unhealthy: "不健康",
+    veryUnhealthy: "非常に不健康",
+    hazardous: "危険",
+    low: "低",
+    high: "高",
+    veryHigh: "非常に高",
+  },
+  detailLabels: {
+    condition: "天気",
+    feelslike: "体感温度",
+    humidity: "湿度",
+    wind: "風",
+    gusts: "突風",
+    uv: "UV指数",
+    precipitation: "降水量",
+    pressure: "気圧",
+    visibility: "視程",
+  },
+  windFrom: "{direction}の風",
+  compassPoints: ["北", "北北東", "北東", "東北東", "東", "東南東", "南東", "南南東", "南", "南南西", "南西", "西南西", "西", "西北西", "北西", "北北西"],
+  dayAhead: "+{days}",
+  dayBehind: "-{days}",
+  conditions: {
+    0: "快晴",
+    1: "おおむね晴れ",
+    2: "晴れ時々曇り",
+    3: "曇り",
+    45: "霧",
+    48: "着氷性の霧",
+    51: "弱い霧雨",
+    53: "霧雨",
+    55: "強い霧雨",
+    56: "着氷性の霧雨",
+    57: "強い着氷性の霧雨",
+    61: "小雨",
+    63: "雨",
+    65: "大雨",
+    66: "弱い着氷性の雨",
+    67: "強い着氷性の雨",
+    71: "小雪",
+    73: "雪",
+    75: "大雪",
+    77: "霧雪",
+    80: "弱いにわか雨",
+    81: "にわか雨",
+    82: "激しいにわか雨",
+    85: "弱いにわか雪",
+    86: "強いにわか雪",
+    95: "雷雨",
+    96: "雹を伴う雷雨",
+    99: "激しい雹を伴う雷雨",
+  },
+  errors: errorMessages(
+    "現在、天気を利用できません。",
+    "この場所の天気は利用できません。",
+    "天気を読み込めませんでした。接続を確認して、もう一度お試しください。"
+  ),
+};
+
+const ar: Messages = {
+  loadingTime: "جارٍ تحميل الوقت...",
+  weatherIcon: "أيقونة الطقس",
+  currentCity: "المدينة الحالية:",
+  typeCity: "اكتب اسم مدينة...",
+  ok: "موافق",
+  cancel: "إلغاء",
+  retry: "إعادة المحاولة",
+  resetToDefault: "إعادة التعيين إلى الافتراضي",
+  useMyLocation: "استخدام موقعي",
+  yourLocation: "موقعك",
+  locationAccessOff: "الوصول إلى الموقع متوقف، يتم عرض المدينة المحددة.",
+  units: "الوحدات",
+  unitsAsConfigured: "حسب الإعدادات",
+  unitsAuto: "تلقائي",
+  unitsMetric: "متري",
+  unitsImperial: "إمبراطوري",
+  unitsMixed: "مختلط",
+  offlineUpdated: "غير متصل · آخر تحديث {time}",
+  timeAhead: "متقدم عنك بـ {difference}",
+  timeBehind: "متأخر عنك بـ {difference}",
+  sameTime: "نفس توقيتك",
+  worldClock: "الساعة العالمية",
+  weatherAlerts: "تنبيهات الطقس",
+  airQuality: "جودة الهواء",
+  astronomy: "الشمس والقمر",
+  daylight: "ضوء النهار",
+  temperatureTrend: "اتجاه درجة الحرارة",
+  layouts: "التخطيطات",
+  sunrise: "الشروق {time}",
+  sunset: "الغروب {time}",
+  sunriseIn: "الشروق بعد {duration}",
+  daylightLeft: "يتبقى {duration} من ضوء النهار",
+  sunHasSet: "غربت الشمس",
+  moonPhases: {
+    "New Moon": "محاق",
+    "Waxing Crescent": "هلال متزايد",
+    "First Quarter": "تربيع أول",
+    "Waxing Gibbous": "أحدب متزايد",
+    "Full Moon": "بدر",
+    "Waning Gibbous": "أحدب متناقص",
+    "Last Quarter": "تربيع أخير",
+    "Waning Crescent": "هلال متناقص",
+  },
+  showDetails: "إظهار التفاصيل",
+  hideDetails: "إخفاء التفاصيل",
+  severities: {
+    Unknown: "غير معروف",
+    Minor: "طفيف",
+    Moderate: "متوسط",
+    Severe: "شديد",
+    Extreme: "بالغ الشدة",
+  },
+  pollutants: "الملوثات",
+  hidePollutants: "إخفاء الملوثات",
+  airQualityCategories: {
+    good: "جيد",
+    moderate: "متوسط",
+    unhealthyForSensitiveGroups: "غير صحي للفئات الحساسة",
+    unhealthy: "غير صحي",
+    veryUnhealthy: "غير صحي جدًا",
+    hazardous: "خطير",
+    low: "منخفض",
+    high: "مرتفع",
+    veryHigh: "مرتفع جدًا",
+  },
+  detailLabels: {
+    condition: "الحالة",
+    feelslike: "الإحساس الحراري",
+    humidity: "الرطوبة",
+    wind: "الرياح",
+    gusts: "الهبات",
+    uv: "مؤشر الأشعة فوق البنفسجية",
+    precipitation: "الهطول",
+    pressure: "الضغط الجوي",
+    visibility: "الرؤية",
+  },
+  windFrom: "من {direction}",
+  compassPoints: [
+    "شمال", "شمال شمال شرق", "شمال شرق", "شرق شمال شرق",
+    "شرق", "شرق جنوب شرق", "جنوب شرق", "جنوب جنوب شرق",
+    "جنوب", "جنوب جنوب غرب", "جنوب غرب", "غرب جنوب غرب",
+    "غرب", "غرب شمال غرب", "شمال غرب", "شمال شمال غرب",
+  ],
+  dayAhead: "بعد {days}",
+  dayBehind: "قبل {days}",
+  conditions: {
+    0: "صافٍ",
+    1: "صافٍ في الغالب",
+    2: "غائم جزئيًا",
+    3: "غائم",
+    45: "ضباب",
+    48: "ضباب متجمد",
+    51: "رذاذ خفيف",
+    53: "رذاذ",
+    55: "رذاذ كثيف",
+    56: "رذاذ متجمد",
+    57: "رذاذ متجمد كثيف",
+    61: "مطر خفيف",
+    63: "مطر معتدل",
+    65: "مطر غزير",
+    66: "مطر متجمد خفيف",
+    67: "مطر متجمد غزير",
+    71: "ثلج خفيف",
+    73: "ثلج معتدل",
+    75: "ثلج كثيف",
+    77: "حبيبات ثلجية",
+    80: "زخات مطر خفيفة",
+    81: "زخات مطر",
+    82: "زخات مطر عنيفة",
+    85: "زخات ثلج خفيفة",
+    86: "زخات ثلج كثيفة",
+    95: "عاصفة رعدية",
+    96: "عاصفة رعدية مع بَرَد",
+    99: "عاصفة رعدية مع بَرَد كثيف",
+  },
+  errors: errorMessages(
+    "الطقس غير متاح حاليًا.",
+    "الطقس غير متاح لهذا الموقع.",
+    "تعذر تحميل الطقس. تحقق من اتصالك وحاول مرة أخرى."
+  ),
+};
+
+const CATALOGS: Record<string, Messages> = { en, de, fr, es, it, nl, ja, ar };
+
+// Languages written right to left
+const RTL_LANGUAGES = ["ar", "he", "iw", "fa", "ur"];
+
+/**
+ * The language part of a locale, e.g. "de" for "de-CH"
+ */
+export const toLanguage = (locale: string): string => locale.split("-")[0].toLowerCase();
+
+/**
+ * The messages for a locale (e.g. "de-CH"), English for languages without a catalog
+ */
+export const getMessages = (locale: string): Messages => CATALOGS[toLanguage(locale)] ?? en;
+
+export const isRightToLeft = (locale: string): boolean => RTL_LANGUAGES.includes(toLanguage(locale));
+
+/**
+ * Fill in the {placeholders} of a message
+ */
+export const formatMessage = (message: string, values: Record<string, string>): string =>
+  message.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
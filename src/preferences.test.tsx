@@ -0,0 +1,154 @@
+import React from "react"
+import {screen, render, fireEvent, renderHook, waitFor, act} from "@testing-library/react"
+import {WidgetApi} from "widget-sdk";
+
+import {clearPreferences, preferencesKey, readPreferences, updatePreferences, useCurrentUserId} from "./preferences";
+import {WeatherTime} from "./weather-time";
+import {WidgetHostContext} from "./widget-host";
+import {clearWeatherCache} from "./weather-cache";
+import {mockWeatherApi, weatherApiReply, widgetProps} from "./test-helpers";
+
+const widgetApi = (id: string) => ({getUserInformation: jest.fn(() => Promise.resolve({id}))}) as unknown as WidgetApi;
+
+const PARIS = weatherApiReply("Paris", "France", "Europe/Paris");
+
+describe("preferences", () => {
+    const key = preferencesKey("user-1", "/page#0");
+
+    beforeEach(() => {
+        window.localStorage.clear();
+    });
+
+    it("should store choices per user and widget", () => {
+        updatePreferences(key, {overrideCity: "Paris"});
+        updatePreferences(key, {isFahrenheit: true});
+
+        expect(readPreferences(key)).toEqual({overrideCity: "Paris", pickedLocation: null, unitSystem: null, isFahrenheit: true, geolocation: null});
+        expect(readPreferences(preferencesKey("user-2", "/page#0"))).toBeNull();
+        expect(readPreferences(preferencesKey("user-1", "/page#1"))).toBeNull();
+
+        clearPreferences(key);
+        expect(readPreferences(key)).toBeNull();
+    });
+
+    it("should know the current user only with a widget API", async () => {
+        expect(renderHook(() => useCurrentUserId(undefined)).result.current).toEqual({userId: null, isLoading: false});
+
+        const api = widgetApi("user-1");
+        const {result} = renderHook(() => useCurrentUserId(api));
+        expect(result.current.isLoading).toBe(true);
+        await waitFor(() => expect(result.current).toEqual({userId: "user-1", isLoading: false}));
+    });
+
+    describe("in the widget", () => {
+        const props = widgetProps({allowcityoverride: true});
+        const host = {widgetApi: widgetApi("user-1"), instanceId: "/page#0"};
+
+        beforeEach(() => {
+            clearWeatherCache();
+            mockWeatherApi({Paris: PARIS});
+        });
+
+        it("should restore the user's city and unit", async () => {
+            updatePreferences(key, {overrideCity: "Paris", isFahrenheit: true});
+
+            render(<WidgetHostContext.Provider value={host}><WeatherTime {...props}/></WidgetHostContext.Provider>);
+
+            expect(await screen.findByText("50°F")).toBeInTheDocument();
+            // Not a single request for the configured city, whose weather could arrive last
+            expect((global.fetch as jest.Mock).mock.calls.map(([url]) => url)).toEqual([expect.stringContaining("q=Paris")]);
+        });
+
+        it("should forget the city when the user goes back to their location", async () => {
+            Object.defineProperty(navigator, "geolocation", {
+                value: {getCurrentPosition: jest.fn((_success, error) => error({code: 3, PERMISSION_DENIED: 1, message: "timeout"}))},
+                configurable: true,
+            });
+            jest.spyOn(console, "warn").mockImplementation(() => undefined);
+            updatePreferences(key, {overrideCity: "Paris"});
+
+            const widget = <WidgetHostContext.Provider value={host}><WeatherTime {...props} locationsource="geolocation"/></WidgetHostContext.Provider>;
+            const {unmount} = render(widget);
+            await waitFor(() => expect((global.fetch as jest.Mock).mock.lastCall?.[0]).toContain("q=Paris"));
+
+            fireEvent.click(await screen.findByText("..."));
+            fireEvent.click(screen.getByRole("button", {name: "Use my location"}));
+            expect(readPreferences(key)?.overrideCity).toBeNull();
+
+            // The next page load stays with the configured city
+            unmount();
+            render(widget);
+            fireEvent.click(await screen.findByText("..."));
+            expect(await screen.findByText(/London, United Kingdom/)).toBeInTheDocument();
+        });
+
+        it("should wait for the position before fetching", async () => {
+            let answer: PositionCallback = () => undefined;
+            Object.defineProperty(navigator, "geolocation", {
+                value: {getCurrentPosition: jest.fn((success: PositionCallback) => { answer = success; })},
+                configurable: true,
+            });
+
+            render(<WidgetHostContext.Provider value={host}><WeatherTime {...props} locationsource="geolocation"/></WidgetHostContext.Provider>);
+            await waitFor(() => expect(navigator.geolocation.getCurrentPosition).toHaveBeenCalled());
+            expect(global.fetch).not.toHaveBeenCalled();
+
+            act(() => answer({coords: {latitude: 51.51, longitude: -0.13}} as GeolocationPosition));
+
+            await screen.findByText("10°C");
+            expect((global.fetch as jest.Mock).mock.calls.map(([url]) => url)).toEqual([expect.stringContaining("q=51.51%2C-0.13")]);
+        });
+
+        it("should name the user's position when the provider can't", async () => {
+            Object.defineProperty(navigator, "geolocation", {
+                value: {getCurrentPosition: jest.fn((success: PositionCallback) => success({coords: {latitude: 52.52, longitude: 13.405}} as GeolocationPosition))},
+                configurable: true,
+            });
+            global.fetch = jest.fn(() => Promise.resolve({
+                ok: true,
+                status: 200,
+                json: () => Promise.resolve({timezone: "Europe/Berlin", current: {temperature_2m: 20, weather_code: 0, is_day: 1}}),
+            })) as jest.Mock;
+
+            render(<WidgetHostContext.Provider value={host}><WeatherTime {...props} provider="openmeteo" locationsource="geolocation"/></WidgetHostContext.Provider>);
+            await screen.findByText("Clear");
+            fireEvent.click(screen.getByText("..."));
+
+            expect(screen.getAllByText(/Your location/).length).toBeGreaterThan(0);
+            expect(screen.queryByText(/52\.52,13\.40/)).not.toBeInTheDocument();
+        });
+
+        it("should remember the unit and reset to the default", async () => {
+            render(<WidgetHostContext.Provider value={host}><WeatherTime {...props}/></WidgetHostContext.Provider>);
+
+            fireEvent.click(await screen.findByText("10°C"));
+            expect(readPreferences(key)?.isFahrenheit).toBe(true);
+
+            fireEvent.click(screen.getByText("..."));
+            fireEvent.click(screen.getByRole("button", {name: "Reset to default"}));
+
+            expect(screen.getByText("10°C")).toBeInTheDocument();
+            expect(readPreferences(key)).toBeNull();
+        });
+
+        it("should let the user pick the unit system", async () => {
+            render(<WidgetHostContext.Provider value={host}><WeatherTime {...props} detailfields="wind"/></WidgetHostContext.Provider>);
+            await screen.findByText("10°C");
+
+            fireEvent.click(screen.getByText("..."));
+            fireEvent.change(screen.getByRole("combobox", {name: "Units"}), {target: {value: "imperial"}});
+
+            expect(screen.getByText("50°F")).toBeInTheDocument();
+            expect(readPreferences(key)?.unitSystem).toBe("imperial");
+        });
+
+        it("should store nothing when the admin turned it off", async () => {
+            render(<WidgetHostContext.Provider value={host}><WeatherTime {...props} persistpreferences="false"/></WidgetHostContext.Provider>);
+
+            fireEvent.click(await screen.findByText("10°C"));
+
+            expect(screen.getByText("50°F")).toBeInTheDocument();
+            expect(readPreferences(key)).toBeNull();
+        });
+    });
+});
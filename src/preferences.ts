@@ -0,0 +1,100 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+
+import { WidgetApi } from "widget-sdk";
+import { LocationSuggestion } from "./weather-providers";
+import { useUserProfile } from "./profile-location";
+import { UnitSystemId } from "./units";
+
+/**
+ * The user's choices, remembered between page loads
+ * ------------------------------------------------------------------------
+ * Stored in localStorage per user and per widget instance, so two widgets on a page
+ * (or two people sharing a browser) don't overwrite each other's choices.
+ */
+
+const STORAGE_PREFIX = "weather-time:preferences";
+
+/**
+ * The user's answer to the browser's location prompt (with the last position), so a denial
+ * isn't asked again on every page load and a known position shows right away
+ */
+export interface StoredGeolocation {
+  permission: "granted" | "denied";
+  coordinates: string | null;
+}
+
+/**
+ * What's remembered, null for "not chosen, use the default"
+ */
+export interface StoredPreferences {
+  overrideCity: string | null;
+  pickedLocation: LocationSuggestion | null; // the suggestion the override city was picked from
+  unitSystem: UnitSystemId | null;
+  isFahrenheit: boolean | null; // the C/F toggle, on top of the unit system
+  geolocation: StoredGeolocation | null; // only with geolocation as the location source
+}
+
+const NO_PREFERENCES: StoredPreferences = {
+  overrideCity: null,
+  pickedLocation: null,
+  unitSystem: null,
+  isFahrenheit: null,
+  geolocation: null,
+};
+
+export const preferencesKey = (userId: string, instanceId: string): string =>
+  `${STORAGE_PREFIX}:${userId}:${instanceId}`;
+
+/**
+ * The stored choices, null if there are none (or localStorage is unavailable)
+ */
+export function readPreferences(key: string): StoredPreferences | null {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? { ...NO_PREFERENCES, ...(JSON.parse(raw) as Partial<StoredPreferences>) } : null;
+  } catch (error) {
+    console.warn("Could not read the stored preferences:", error);
+    return null;
+  }
+}
+
+/**
+ * Store some of the choices, the others are kept
+ */
+export function updatePreferences(key: string, changes: Partial<StoredPreferences>): void {
+  try {
+    window.localStorage.setItem(key, JSON.stringify({ ...NO_PREFERENCES, ...readPreferences(key), ...changes }));
+  } catch (error) {
+    console.warn("Could not store the preferences:", error);
+  }
+}
+
+export function clearPreferences(key: string): void {
+  try {
+    window.localStorage.removeItem(key);
+  } catch (error) {
+    console.warn("Could not clear the stored preferences:", error);
+  }
+}
+
+/**
+ * The id of the signed-in user, null until it's known or if the host can't tell
+ * (e.g. no widget API outside the Staffbase app). `isLoading` while the host is still asked.
+ */
+export function useCurrentUserId(widgetApi: WidgetApi | undefined): { userId: string | null; isLoading: boolean } {
+  const { profile, isLoading } = useUserProfile(widgetApi);
+  return { userId: profile?.id || null, isLoading };
+}
@@ -0,0 +1,83 @@
+import React from "react"
+import {screen, render} from "@testing-library/react"
+import {SBUserProfile, WidgetApi} from "widget-sdk";
+
+import {fillProfilePlaceholders, parseDepartmentLocations, resolveCity} from "./profile-location";
+import {WeatherTime, WeatherTimeProps} from "./weather-time";
+import {WidgetHostContext} from "./widget-host";
+
+const user = (fields: Partial<SBUserProfile>) => ({id: "user-1", firstName: "Ada", lastName: "Lovelace", ...fields}) as SBUserProfile;
+
+describe("profile location", () => {
+    const departments = parseDepartmentLocations("Sales | Berlin\nEngineering|Munich\n\nbroken line");
+
+    it("should parse the department mapping", () => {
+        expect(Array.from(departments.entries())).toEqual([["sales", "Berlin"], ["engineering", "Munich"]]);
+    });
+
+    it("should fill in profile placeholders", () => {
+        expect(fillProfilePlaceholders("{{user.profile.location}}, {{ user.profile.position }}", user({location: "Paris", position: "CTO"})))
+            .toEqual({value: "Paris, CTO", fields: ["location", "position"]});
+        expect(fillProfilePlaceholders("{{user.profile.location}}", user({location: " "}))).toBeNull();
+        expect(fillProfilePlaceholders("{{user.profile.avatar}}", user({}))).toBeNull();
+    });
+
+    it("should fall back from the profile to the department and the default", () => {
+        const city = "{{user.profile.location}}";
+
+        expect(resolveCity("Tokyo", null, departments, "Oslo")).toEqual({city: "Tokyo", source: "configured", detail: ""});
+        expect(resolveCity(city, user({location: "Paris"}), departments, "Oslo")).toEqual({city: "Paris", source: "profile", detail: "location"});
+        expect(resolveCity(city, user({department: "SALES"}), departments, "Oslo")).toEqual({city: "Berlin", source: "department", detail: "SALES"});
+        expect(resolveCity(city, user({department: "Legal"}), departments, "Oslo")).toEqual({city: "Oslo", source: "default", detail: ""});
+        expect(resolveCity(city, null, departments, "")).toEqual({city: "", source: "default", detail: ""});
+    });
+
+    describe("in the widget", () => {
+        const props = {contentLanguage: "en_US", mode: "clock", city: "{{user.profile.location}}"} as unknown as WeatherTimeProps;
+        const host = (profile: SBUserProfile) => ({
+            widgetApi: {getUserInformation: jest.fn(() => Promise.resolve(profile))} as unknown as WidgetApi,
+            instanceId: "/page#0",
+        });
+
+        beforeEach(() => {
+            jest.useFakeTimers({now: Date.UTC(2024, 10, 26, 14, 5), doNotFake: ["setTimeout", "queueMicrotask"]});
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it("should resolve the city from the profile and tell editors", async () => {
+            render(
+                <WidgetHostContext.Provider value={host(user({location: "Tokyo"}))}>
+                    <WeatherTime {...props} isEditor={true}/>
+                </WidgetHostContext.Provider>
+            );
+
+            expect(await screen.findByText(/11:05\sPM/)).toBeInTheDocument();
+            expect(screen.getByText("Location: Tokyo – from the user profile (location)")).toBeInTheDocument();
+        });
+
+        it("should use the department mapping without a profile location", async () => {
+            render(
+                <WidgetHostContext.Provider value={host(user({department: "Sales"}))}>
+                    <WeatherTime {...props} departmentlocations="Sales | Berlin" isEditor={true}/>
+                </WidgetHostContext.Provider>
+            );
+
+            expect(await screen.findByText("Location: Berlin – from the department mapping (Sales)")).toBeInTheDocument();
+            expect(screen.getByText(/3:05\sPM/)).toBeInTheDocument();
+        });
+
+        it("should not show the source to users", async () => {
+            render(
+                <WidgetHostContext.Provider value={host(user({location: "Tokyo"}))}>
+                    <WeatherTime {...props}/>
+                </WidgetHostContext.Provider>
+            );
+
+            expect(await screen.findByText(/11:05\sPM/)).toBeInTheDocument();
+            expect(screen.queryByText(/Location:/)).not.toBeInTheDocument();
+        });
+    });
+});
@@ -0,0 +1,137 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+
+import { useEffect, useState } from "react";
+import { SBUserProfile, WidgetApi } from "widget-sdk";
+
+/**
+ * Profile placeholders in the city
+ * ------------------------------------------------------------------------
+ * The host normally replaces `{{user.profile.location}}` before the widget sees it,
+ * but not everywhere (preview, editor, some embeds). Anything left over is filled in
+ * from the user's profile here, and if that doesn't give a city, the department
+ * mapping and then the admin's default are used.
+ */
+
+const PLACEHOLDER_PATTERN = /\{\{\s*user\.profile\.(\w+)\s*\}\}/g;
+
+/**
+ * Where the shown city came from
+ */
+export type CitySource = "configured" | "profile" | "department" | "default";
+
+export interface ResolvedCity {
+  city: string; // empty if nothing gave a city
+  source: CitySource;
+  detail: string; // the profile field or department that gave the city
+}
+
+export const hasProfilePlaceholder = (value: string): boolean => new RegExp(PLACEHOLDER_PATTERN.source).test(value);
+
+/**
+ * Parse the department mapping, one "department | city" per line. Departments are matched case-insensitively.
+ */
+export function parseDepartmentLocations(value: unknown): Map<string, string> {
+  const departments = new Map<string, string>();
+  for (const line of String(value ?? "").split("\n")) {
+    const [department = "", ...city] = line.split("|");
+    if (department.trim() && city.join("|").trim()) {
+      departments.set(department.trim().toLowerCase(), city.join("|").trim());
+    }
+  }
+  return departments;
+}
+
+/**
+ * Fill in the profile placeholders, null if the profile lacks any of the fields
+ */
+export function fillProfilePlaceholders(value: string, profile: SBUserProfile): { value: string; fields: string[] } | null {
+  const fields: string[] = [];
+  let isComplete = true;
+  const filled = value.replace(PLACEHOLDER_PATTERN, (_placeholder, field: string) => {
+    const fieldValue = (profile as unknown as Record<string, unknown>)[field];
+    if (typeof fieldValue !== "string" || fieldValue.trim() === "") {
+      isComplete = false;
+      return "";
+    }
+    fields.push(field);
+    return fieldValue.trim();
+  });
+  return isComplete ? { value: filled, fields } : null;
+}
+
+/**
+ * Pick the city: as configured, from the profile placeholders, by the user's department, or the admin's default
+ */
+export function resolveCity(
+  city: string,
+  profile: SBUserProfile | null,
+  departments: Map<string, string>,
+  defaultCity: string
+): ResolvedCity {
+  if (!hasProfilePlaceholder(city)) {
+    return { city, source: "configured", detail: "" };
+  }
+  const filled = profile ? fillProfilePlaceholders(city, profile) : null;
+  if (filled) {
+    return { city: filled.value, source: "profile", detail: filled.fields.join(", ") };
+  }
+  const department = profile?.department?.trim() ?? "";
+  const departmentCity = departments.get(department.toLowerCase());
+  if (departmentCity) {
+    return { city: departmentCity, source: "department", detail: department };
+  }
+  return { city: defaultCity, source: "default", detail: "" };
+}
+
+/**
+ * The signed-in user's profile while `enabled`, null if the host can't tell (e.g. no widget API
+ * outside the Staffbase app). `isLoading` until the host answered.
+ */
+export function useUserProfile(widgetApi: WidgetApi | undefined, enabled: boolean = true): {
+  profile: SBUserProfile | null;
+  isLoading: boolean;
+} {
+  const shouldLoad = enabled && Boolean(widgetApi);
+  const [profile, setProfile] = useState<SBUserProfile | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(shouldLoad);
+
+  useEffect(() => {
+    if (!widgetApi || !enabled) {
+      setProfile(null);
+      setIsLoading(false);
+      return;
+    }
+    let isCurrent = true;
+    setIsLoading(true);
+    widgetApi
+      .getUserInformation()
+      .then((user) => {
+        if (isCurrent) setProfile(user);
+      })
+      .catch((error) => {
+        console.warn("Could not get the current user:", error);
+        if (isCurrent) setProfile(null);
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [widgetApi, enabled]);
+
+  return { profile, isLoading };
+}
@@ -0,0 +1,73 @@
+import {renderHook} from "@testing-library/react";
+
+import {getBackoffDelay, useRefreshScheduler} from "./refresh-scheduler";
+
+const MINUTE = 60 * 1000;
+
+const setHidden = (hidden: boolean) => {
+    Object.defineProperty(document, "hidden", {configurable: true, get: () => hidden});
+    document.dispatchEvent(new Event("visibilitychange"));
+};
+
+describe("refresh scheduler", () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+        setHidden(false);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it("should back off exponentially up to an hour", () => {
+        expect(getBackoffDelay(5 * MINUTE, 0)).toBe(5 * MINUTE);
+        expect(getBackoffDelay(5 * MINUTE, 2)).toBe(20 * MINUTE);
+        expect(getBackoffDelay(5 * MINUTE, 10)).toBe(60 * MINUTE);
+        expect(getBackoffDelay(120 * MINUTE, 3)).toBe(120 * MINUTE);
+    });
+
+    it("should refresh on the interval", async () => {
+        const refresh = jest.fn(() => Promise.resolve(true));
+        renderHook(() => useRefreshScheduler({current: null}, 10 * MINUTE, refresh));
+
+        await jest.advanceTimersByTimeAsync(10 * MINUTE);
+        expect(refresh).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(10 * MINUTE);
+        expect(refresh).toHaveBeenCalledTimes(2);
+    });
+
+    it("should pause while hidden and catch up when visible again", async () => {
+        const refresh = jest.fn(() => Promise.resolve(true));
+        renderHook(() => useRefreshScheduler({current: null}, 10 * MINUTE, refresh));
+
+        setHidden(true);
+        await jest.advanceTimersByTimeAsync(30 * MINUTE);
+        expect(refresh).not.toHaveBeenCalled();
+
+        setHidden(false);
+        await jest.advanceTimersByTimeAsync(0);
+        expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it("should back off after failures", async () => {
+        const refresh = jest.fn(() => Promise.resolve(false));
+        renderHook(() => useRefreshScheduler({current: null}, 10 * MINUTE, refresh));
+
+        await jest.advanceTimersByTimeAsync(10 * MINUTE);
+        expect(refresh).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(10 * MINUTE);
+        expect(refresh).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(10 * MINUTE);
+        expect(refresh).toHaveBeenCalledTimes(2);
+    });
+
+    it("should stop when unmounted or disabled", async () => {
+        const refresh = jest.fn(() => Promise.resolve(true));
+        const {unmount} = renderHook(() => useRefreshScheduler({current: null}, 10 * MINUTE, refresh));
+        renderHook(() => useRefreshScheduler({current: null}, 0, refresh));
+
+        unmount();
+        await jest.advanceTimersByTimeAsync(60 * MINUTE);
+        expect(refresh).not.toHaveBeenCalled();
+    });
+});
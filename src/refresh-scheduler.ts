@@ -0,0 +1,104 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { RefObject, useEffect, useRef } from "react";
+
+// Upper bound for the delay after repeated failures (unless the interval itself is longer)
+const MAX_BACKOFF_DELAY = 60 * 60 * 1000;
+
+/**
+ * Delay until the next refresh: the interval, doubled for every consecutive failure
+ */
+export function getBackoffDelay(intervalMillis: number, failures: number): number {
+  return Math.min(intervalMillis * 2 ** failures, Math.max(intervalMillis, MAX_BACKOFF_DELAY));
+}
+
+/**
+ * Visibility-aware refresh scheduler
+ * ------------------------------------------------------------------------
+ * Calls `refresh` every `intervalMillis`, but only while the tab is visible
+ * (Page Visibility API) and the target element is on screen (IntersectionObserver).
+ * When the widget becomes visible again after the interval has passed, it refreshes
+ * right away. `refresh` resolves to false (or rejects) on failure, which backs off
+ * exponentially until the next success. An interval of 0 disables the scheduler.
+ */
+export function useRefreshScheduler(
+  targetRef: RefObject<Element>,
+  intervalMillis: number,
+  refresh: () => Promise<boolean>
+): void {
+  // Always call the latest callback, without restarting the scheduler on every render
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
+
+  useEffect(() => {
+    if (!(intervalMillis > 0)) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let failures = 0;
+    // The initial fetch on mount counts as the first refresh
+    let lastRun = Date.now();
+    let isOnScreen = true;
+    let isRunning = false;
+    let isDisposed = false;
+
+    const isActive = () => !document.hidden && isOnScreen;
+
+    const cancel = () => {
+      if (timer !== null) clearTimeout(timer);
+      timer = null;
+    };
+
+    const schedule = () => {
+      cancel();
+      if (isDisposed || isRunning || !isActive()) return;
+      // Overdue refreshes (e.g. after the tab was hidden for a while) run immediately
+      const delay = Math.max(0, lastRun + getBackoffDelay(intervalMillis, failures) - Date.now());
+      timer = setTimeout(run, delay);
+    };
+
+    const run = async () => {
+      timer = null;
+      if (!isActive()) return;
+
+      isRunning = true;
+      lastRun = Date.now();
+      const succeeded = await refreshRef.current().catch(() => false);
+      failures = succeeded ? 0 : failures + 1;
+      isRunning = false;
+      schedule();
+    };
+
+    document.addEventListener("visibilitychange", schedule);
+
+    // IntersectionObserver isn't available everywhere (e.g. older webviews), treat the widget as on screen then
+    let observer: IntersectionObserver | null = null;
+    if (targetRef.current && typeof IntersectionObserver !== "undefined") {
+      observer = new IntersectionObserver((entries) => {
+        isOnScreen = entries.some((entry) => entry.isIntersecting);
+        schedule();
+      });
+      observer.observe(targetRef.current);
+    }
+
+    schedule();
+
+    return () => {
+      isDisposed = true;
+      cancel();
+      document.removeEventListener("visibilitychange", schedule);
+      observer?.disconnect();
+    };
+  }, [targetRef, intervalMillis]);
+}
@@ -0,0 +1,65 @@
+import {getRenderTarget} from "./render-root";
+
+describe("render root", () => {
+    beforeEach(() => {
+        document.head.innerHTML = "";
+        document.body.innerHTML = "";
+    });
+
+    it("should render into the container with the stylesheet on the page", () => {
+        const container = document.body.appendChild(document.createElement("div"));
+
+        expect(getRenderTarget(container, container, false)).toBe(container);
+        getRenderTarget(container, container, false);
+
+        expect(container.shadowRoot).toBeNull();
+        expect(document.head.querySelectorAll("style")).toHaveLength(1);
+        expect(document.head.querySelector("style")?.textContent).toContain("--weather-time-temp-size");
+    });
+
+    it("should render into a shadow root with its own stylesheet", () => {
+        const container = document.body.appendChild(document.createElement("div"));
+
+        const target = getRenderTarget(container, container, true);
+
+        expect(container.shadowRoot?.contains(target)).toBe(true);
+        expect(container.shadowRoot?.querySelectorAll("style")).toHaveLength(1);
+        expect(document.head.querySelector("style")).toBeNull();
+        expect(getRenderTarget(container, container, true)).toBe(target);
+    });
+
+    it("should attach the shadow root to the widget's element, not the container", () => {
+        const host = document.body.appendChild(document.createElement("weather-time"));
+        const container = host.appendChild(document.createElement("div"));
+
+        const target = getRenderTarget(host, container, true);
+
+        expect(host.shadowRoot?.contains(target)).toBe(true);
+        expect(container.shadowRoot).toBeNull();
+
+        // Switched off, the container shows through the element's shadow root
+        expect(getRenderTarget(host, container, false)).toBe(container);
+        expect(host.shadowRoot?.querySelector("slot")).not.toBeNull();
+    });
+
+    it("should show the container's children again when switched off", () => {
+        const container = document.body.appendChild(document.createElement("div"));
+        getRenderTarget(container, container, true);
+
+        expect(getRenderTarget(container, container, false)).toBe(container);
+        expect(container.shadowRoot?.querySelector("slot")).not.toBeNull();
+
+        getRenderTarget(container, container, true);
+        expect(container.shadowRoot?.querySelector("slot")).toBeNull();
+    });
+
+    it("should fall back to the container without shadow root support", () => {
+        jest.spyOn(console, "warn").mockImplementation(() => undefined);
+        const container = document.body.appendChild(document.createElement("p"));
+        container.attachShadow = () => {
+            throw new DOMException("Operation is not supported", "NotSupportedError");
+        };
+
+        expect(getRenderTarget(container, container, true)).toBe(container);
+    });
+});
@@ -0,0 +1,55 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+
+import { installStyles } from "./weather-time-styles";
+
+const SHADOW_MOUNT_ID = "weather-time-root";
+
+/**
+ * Where the widget renders into
+ * ------------------------------------------------------------------------
+ * Either the container the host hands to `renderBlock`, with the stylesheet added to the
+ * page once, or an element in the shadow root of the `weather-time` element itself (the
+ * container isn't necessarily that element, and `weather-time::part()` only reaches into
+ * the element's own shadow root), with its own copy of the stylesheet, so the page's CSS
+ * (e.g. global `p` margins) can't reach the widget. A shadow root can't be removed again:
+ * when the option is switched off (e.g. in the editor), a slot shows the element's own
+ * children (and with them the container) through it. Elements that can't have a shadow
+ * root render into the container.
+ */
+export function getRenderTarget(host: HTMLElement, container: HTMLElement, useShadowDom: boolean): Element {
+  if (useShadowDom) {
+    try {
+      const shadowRoot = host.shadowRoot ?? host.attachShadow({ mode: "open" });
+      installStyles(shadowRoot);
+      shadowRoot.querySelector("slot")?.remove();
+      let mountPoint = shadowRoot.getElementById(SHADOW_MOUNT_ID);
+      if (!mountPoint) {
+        mountPoint = document.createElement("div");
+        mountPoint.id = SHADOW_MOUNT_ID;
+        shadowRoot.appendChild(mountPoint);
+      }
+      return mountPoint;
+    } catch (error) {
+      console.warn("Could not render into a shadow root:", error);
+    }
+  }
+
+  installStyles(document);
+  if (host.shadowRoot && !host.shadowRoot.querySelector("slot")) {
+    host.shadowRoot.appendChild(document.createElement("slot"));
+  }
+  return container;
+}
@@ -0,0 +1,50 @@
+import {WeatherTimeProps} from "./weather-time";
+
+/**
+ * A WeatherAPI.com reply, as far as the widget reads it
+ */
+export interface WeatherApiReply {
+    location: {name: string, country: string, tz_id: string};
+    current: Record<string, unknown>;
+}
+
+/**
+ * A sunny 10°C in the city, `current` adds or replaces fields of the current conditions
+ */
+export const weatherApiReply = (name: string, country: string, timeZone: string, current: Record<string, unknown> = {}): WeatherApiReply => ({
+    location: {name, country, tz_id: timeZone},
+    current: {temp_c: 10, temp_f: 50, is_day: 1, condition: {code: 1000, text: "Sunny"}, ...current},
+});
+
+export const LONDON = weatherApiReply("London", "United Kingdom", "Europe/London");
+
+/**
+ * The response to a WeatherAPI.com request: the reply for the queried city (`q`), London for any other query
+ */
+export const weatherApiResponse = (url: string, replies: Record<string, WeatherApiReply> = {}) =>
+    Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(replies[new URL(url).searchParams.get("q") ?? ""] ?? LONDON),
+    });
+
+/**
+ * Answer every fetch as WeatherAPI.com would, see `weatherApiResponse`
+ */
+export const mockWeatherApi = (replies: Record<string, WeatherApiReply> = {}): jest.Mock => {
+    const fetch = jest.fn((url: string) => weatherApiResponse(url, replies));
+    global.fetch = fetch as jest.Mock;
+    return fetch;
+};
+
+/**
+ * The widget's props: London's weather from WeatherAPI.com for an en_US viewer, without a fallback provider
+ */
+export const widgetProps = (overrides: Partial<WeatherTimeProps> = {}): WeatherTimeProps => ({
+    contentLanguage: "en_US",
+    city: "London",
+    apikey: "key",
+    provider: "weatherapi",
+    fallbackprovider: "none",
+    ...overrides,
+}) as WeatherTimeProps;
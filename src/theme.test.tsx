@@ -0,0 +1,121 @@
+import React from "react"
+import {screen, render, renderHook, act} from "@testing-library/react"
+import {ColorTheme, WidgetApi} from "widget-sdk";
+
+import {DARK_THEME, LIGHT_THEME, themeProperties, tokensFromAppTheme, useThemeTokens} from "./theme";
+import {WeatherTime} from "./weather-time";
+import {WidgetHostContext} from "./widget-host";
+import {mockWeatherApi, weatherApiReply, widgetProps} from "./test-helpers";
+
+const BERLIN = weatherApiReply("Berlin", "Germany", "Europe/Berlin");
+
+const appTheme = (overrides: Partial<ColorTheme> = {}) => ({
+    bgColor: "#00A4FD",
+    textColor: "#FFFFFF",
+    colors: {
+        backgroundPrimary: "#FFFFFF",
+        textPrimary: "#333333",
+        borderSolid: "#E5E5E5",
+        hoverState: "#E5E5E5",
+        clientPrimary: "#00A4FD",
+        borderTranslucent: "rgba(0,0,0,0.1)",
+        backdrop: "rgba(0,0,0,0.6)",
+    },
+    ...overrides,
+}) as unknown as ColorTheme;
+
+const mockDarkMode = (matches: boolean) => {
+    const listeners: ((event: {matches: boolean}) => void)[] = [];
+    window.matchMedia = jest.fn(() => ({
+        matches,
+        media: "(prefers-color-scheme: dark)",
+        addEventListener: (_: string, listener: (event: {matches: boolean}) => void) => listeners.push(listener),
+        removeEventListener: jest.fn(),
+    })) as unknown as typeof window.matchMedia;
+    return (dark: boolean) => listeners.forEach((listener) => listener({matches: dark}));
+};
+
+describe("theme", () => {
+    afterEach(() => {
+        // jsdom has no matchMedia of its own
+        delete (window as Partial<Window>).matchMedia;
+    });
+
+    it("should map the app's theme to tokens", () => {
+        expect(tokensFromAppTheme(appTheme())).toEqual({
+            text: "#FFFFFF",
+            background: "#00A4FD",
+            surface: "#FFFFFF",
+            surfaceText: "#333333",
+            border: "#E5E5E5",
+            highlight: "#E5E5E5",
+            // The primary color is the background already
+            accent: "#FFFFFF",
+            track: "rgba(0,0,0,0.1)",
+            overlay: "rgba(0,0,0,0.6)",
+        });
+        expect(tokensFromAppTheme(appTheme({bgColor: "#FFFFFF", textColor: "#333333"})).accent).toBe("#00A4FD");
+    });
+
+    it("should hand the tokens to the stylesheet as custom properties", () => {
+        expect(themeProperties(DARK_THEME)).toMatchObject({
+            "--weather-time-theme-text": DARK_THEME.text,
+            "--weather-time-theme-surface-text": DARK_THEME.surfaceText,
+        });
+    });
+
+    it("should keep the light colors the app's theme doesn't have", () => {
+        const tokens = tokensFromAppTheme({bgColor: "#000000", textColor: ""} as unknown as ColorTheme);
+
+        expect(tokens.background).toBe("#000000");
+        expect(tokens.text).toBe(LIGHT_THEME.text);
+        expect(tokens.surface).toBe(LIGHT_THEME.surface);
+    });
+
+    it("should follow the reader's dark mode in auto", () => {
+        const switchDarkMode = mockDarkMode(false);
+        const {result} = renderHook(() => useThemeTokens("auto", undefined));
+        expect(result.current).toBe(LIGHT_THEME);
+
+        act(() => switchDarkMode(true));
+        expect(result.current).toBe(DARK_THEME);
+    });
+
+    it("should use the fixed schemes and fall back without an app theme", () => {
+        mockDarkMode(true);
+        const widgetApi = {getLegacyAppTheme: jest.fn(() => { throw new Error("not in the app"); })} as unknown as WidgetApi;
+        jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+        expect(renderHook(() => useThemeTokens("light", undefined)).result.current).toBe(LIGHT_THEME);
+        expect(renderHook(() => useThemeTokens("dark", undefined)).result.current).toBe(DARK_THEME);
+        expect(renderHook(() => useThemeTokens("theme", undefined)).result.current).toBe(DARK_THEME);
+        expect(renderHook(() => useThemeTokens("theme", widgetApi)).result.current).toBe(DARK_THEME);
+    });
+
+    it("should keep the light colors without a configured scheme", async () => {
+        mockDarkMode(true);
+        mockWeatherApi({Berlin: BERLIN});
+        const props = widgetProps({city: "Berlin"});
+
+        render(<WeatherTime {...props}/>);
+
+        const container = (await screen.findByText("10°C")).closest(".weather-time") as HTMLElement;
+        expect(container.style.getPropertyValue("--weather-time-theme-text")).toBe(LIGHT_THEME.text);
+        expect(container.style.getPropertyValue("--weather-time-theme-background")).toBe(LIGHT_THEME.background);
+    });
+
+    it("should paint the widget in the app's colors", async () => {
+        mockWeatherApi({Berlin: BERLIN});
+        const widgetApi = {
+            getLegacyAppTheme: () => appTheme(),
+            getUserInformation: () => Promise.resolve({id: "user-1"}),
+        } as unknown as WidgetApi;
+        const props = widgetProps({city: "Berlin", colorscheme: "theme"});
+
+        render(<WidgetHostContext.Provider value={{widgetApi, instanceId: ""}}><WeatherTime {...props}/></WidgetHostContext.Provider>);
+
+        const container = (await screen.findByText("10°C")).closest(".weather-time") as HTMLElement;
+        expect(container.style.getPropertyValue("--weather-time-theme-text")).toBe("#FFFFFF");
+        expect(container.style.getPropertyValue("--weather-time-theme-background")).toBe("#00A4FD");
+    });
+});
@@ -0,0 +1,147 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+
+import React, { createContext, useEffect, useState } from "react";
+import { ColorTheme, WidgetApi } from "widget-sdk";
+
+/**
+ * Colors of the widget
+ * ------------------------------------------------------------------------
+ * Every color the widget paints comes from a set of tokens, so it can follow
+ * the app's theme (`widgetApi.getLegacyAppTheme()`), the reader's dark mode,
+ * or a fixed light/dark scheme picked by the admin. Colors with a meaning of
+ * their own (alert severities, air quality levels) stay as they are.
+ */
+
+export const COLOR_SCHEMES = ["auto", "light", "dark", "theme"] as const;
+
+export interface ThemeTokens {
+  text: string; // text on the widget
+  background: string; // behind the widget
+  surface: string; // popups and the suggestion list
+  surfaceText: string; // text on a surface
+  border: string; // around surfaces
+  highlight: string; // the active suggestion
+  accent: string; // progress bars and other highlights on the widget
+  track: string; // the empty part of a progress bar
+  overlay: string; // dims the widget behind a popup
+}
+
+/**
+ * The widget's original look: it takes the page's text color and has no background of its own
+ */
+export const LIGHT_THEME: ThemeTokens = {
+  text: "inherit",
+  background: "transparent",
+  surface: "#fff",
+  surfaceText: "#333333",
+  border: "#ccc",
+  highlight: "#e8f0fe",
+  accent: "#f3af45",
+  track: "rgba(0,0,0,0.15)",
+  overlay: "rgba(0,0,0,0.3)",
+};
+
+export const DARK_THEME: ThemeTokens = {
+  text: "#f2f2f2",
+  background: "#1e1e1e",
+  surface: "#2b2b2b",
+  surfaceText: "#f2f2f2",
+  border: "#555555",
+  highlight: "#3a4a63",
+  accent: "#f3af45",
+  track: "rgba(255,255,255,0.2)",
+  overlay: "rgba(0,0,0,0.6)",
+};
+
+/**
+ * Map the app's theme to tokens. Missing colors keep the light theme's. The app's primary
+ * color is often the background too (e.g. a branded header), the accent then uses the text color.
+ */
+export function tokensFromAppTheme(theme: ColorTheme): ThemeTokens {
+  const colors: Partial<ColorTheme["colors"]> = theme.colors ?? {};
+  const primary = colors.clientPrimary;
+  const tokens: Partial<ThemeTokens> = {
+    text: theme.textColor,
+    background: theme.bgColor,
+    surface: colors.backgroundPrimary,
+    surfaceText: colors.textPrimary,
+    border: colors.borderSolid,
+    highlight: colors.hoverState,
+    accent: primary && primary.toLowerCase() !== theme.bgColor?.toLowerCase() ? primary : theme.textColor,
+    track: colors.borderTranslucent,
+    overlay: colors.backdrop,
+  };
+  return {
+    ...LIGHT_THEME,
+    ...Object.fromEntries(Object.entries(tokens).filter(([, value]) => typeof value === "string" && value !== "")),
+  };
+}
+
+const DARK_MODE_QUERY = "(prefers-color-scheme: dark)";
+
+/**
+ * Whether the reader's device is in dark mode, updated when it switches
+ */
+const darkModeQuery = (): MediaQueryList | null =>
+  typeof window.matchMedia === "function" ? window.matchMedia(DARK_MODE_QUERY) : null;
+
+export function usePrefersDarkMode(): boolean {
+  const [prefersDark, setPrefersDark] = useState<boolean>(() => darkModeQuery()?.matches ?? false);
+
+  useEffect(() => {
+    const media = darkModeQuery();
+    if (!media) return;
+    const handleChange = (event: MediaQueryListEvent) => setPrefersDark(event.matches);
+    media.addEventListener("change", handleChange);
+    return () => media.removeEventListener("change", handleChange);
+  }, []);
+
+  return prefersDark;
+}
+
+/**
+ * The tokens for the admin's color scheme. "theme" without an app theme (e.g. outside the app)
+ * behaves like "auto".
+ */
+export function useThemeTokens(scheme: string, widgetApi: WidgetApi | undefined): ThemeTokens {
+  const prefersDark = usePrefersDarkMode();
+  if (scheme === "light") return LIGHT_THEME;
+  if (scheme === "dark") return DARK_THEME;
+  if (scheme === "theme" && widgetApi) {
+    try {
+      return tokensFromAppTheme(widgetApi.getLegacyAppTheme());
+    } catch (error) {
+      console.warn("Could not get the app theme:", error);
+    }
+  }
+  return prefersDark ? DARK_THEME : LIGHT_THEME;
+}
+
+const toKebabCase = (name: string): string => name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+/**
+ * The tokens as custom properties (e.g. `--weather-time-theme-surface-text`) for the stylesheet,
+ * set on the widget's root element
+ */
+export const themeProperties = (tokens: ThemeTokens): React.CSSProperties =>
+  Object.fromEntries(
+    Object.entries(tokens).map(([name, value]) => [`--weather-time-theme-${toKebabCase(name)}`, value])
+  );
+
+/**
+ * The tokens reach the nested components (popups, panels) through a context
+ */
+export const ThemeContext = createContext<ThemeTokens>(LIGHT_THEME);
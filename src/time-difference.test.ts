@@ -0,0 +1,42 @@
+import {DateTime} from "luxon";
+
+import {formatTimeDifference, getTimeDifference} from "./time-difference";
+import {getMessages} from "./messages";
+
+const at = (iso: string, zone: string) => DateTime.fromISO(iso, {zone: "UTC"}).setZone(zone);
+
+describe("time difference", () => {
+    const english = getMessages("en");
+
+    it("should compare whole, half-hour and 45-minute offsets", () => {
+        expect(getTimeDifference(at("2024-01-15T12:00:00", "Asia/Tokyo"), "Europe/Berlin")).toEqual({minutes: 480, days: 0});
+        expect(getTimeDifference(at("2024-01-15T12:00:00", "Asia/Kolkata"), "Europe/Berlin")).toEqual({minutes: 270, days: 0});
+        expect(getTimeDifference(at("2024-01-15T12:00:00", "Asia/Kathmandu"), "Europe/London")).toEqual({minutes: 345, days: 0});
+        expect(getTimeDifference(at("2024-01-15T12:00:00", "America/St_Johns"), "America/New_York")).toEqual({minutes: 90, days: 0});
+    });
+
+    it("should follow DST changes on different dates", () => {
+        // The US switches to summer time two weeks before Europe
+        expect(getTimeDifference(at("2024-03-01T12:00:00", "America/New_York"), "Europe/Berlin")?.minutes).toBe(-360);
+        expect(getTimeDifference(at("2024-03-20T12:00:00", "America/New_York"), "Europe/Berlin")?.minutes).toBe(-300);
+        expect(getTimeDifference(at("2024-04-05T12:00:00", "America/New_York"), "Europe/Berlin")?.minutes).toBe(-360);
+    });
+
+    it("should label the day across midnight", () => {
+        // 07:00 in Tokyo is still the day before in Los Angeles
+        expect(getTimeDifference(at("2024-01-15T22:00:00", "Asia/Tokyo"), "America/Los_Angeles")).toEqual({minutes: 1020, days: 1});
+        expect(getTimeDifference(at("2024-01-15T22:00:00", "America/Los_Angeles"), "Asia/Tokyo")).toEqual({minutes: -1020, days: -1});
+    });
+
+    it("should be unknown for an invalid viewer zone", () => {
+        expect(getTimeDifference(at("2024-01-15T12:00:00", "Asia/Tokyo"), "Nowhere/Special")).toBeNull();
+    });
+
+    it("should format the difference in the viewer's language", () => {
+        expect(formatTimeDifference({minutes: 360, days: 1}, "en-US", english)).toBe("6 hours ahead of you · tomorrow");
+        expect(formatTimeDifference({minutes: -345, days: 0}, "en-US", english)).toBe("5 hours 45 minutes behind you");
+        expect(formatTimeDifference({minutes: -30, days: -1}, "en-US", english)).toBe("30 minutes behind you · yesterday");
+        expect(formatTimeDifference({minutes: 0, days: 0}, "en-US", english)).toBe("same time as you");
+        expect(formatTimeDifference({minutes: 60, days: 1}, "de-DE", getMessages("de"))).toBe("1 Stunde später als bei dir · morgen");
+    });
+});
@@ -0,0 +1,78 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+
+import { DateTime } from "luxon";
+import { formatMessage, Messages } from "./messages";
+
+/**
+ * Time difference to the viewer
+ * ------------------------------------------------------------------------
+ * How the city's clock compares to the viewer's own, e.g. "6 hours ahead of
+ * you · tomorrow". Both offsets are taken at the same instant, so DST changes
+ * in either zone (on different dates) are accounted for.
+ */
+
+export interface TimeDifference {
+  minutes: number; // how far the city's clock is ahead of the viewer's, negative when behind
+  days: number; // calendar days between the city's date and the viewer's, e.g. 1 when it's already tomorrow there
+}
+
+/**
+ * The viewer's time zone, as the browser reports it
+ */
+export const viewerTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Compare the city's time with the same instant in the viewer's zone, null for an unknown zone
+ */
+export function getTimeDifference(cityTime: DateTime, viewerZone: string = viewerTimeZone()): TimeDifference | null {
+  const viewerTime = cityTime.setZone(viewerZone);
+  if (!viewerTime.isValid) return null;
+
+  const cityDate = DateTime.fromISO(cityTime.toISODate(), { zone: "UTC" });
+  const viewerDate = DateTime.fromISO(viewerTime.toISODate(), { zone: "UTC" });
+  return {
+    minutes: cityTime.offset - viewerTime.offset,
+    days: Math.round(cityDate.diff(viewerDate, "days").days),
+  };
+}
+
+/**
+ * "5 hours 45 minutes" in the viewer's language, without the parts that are zero
+ */
+const formatHoursAndMinutes = (totalMinutes: number, locale: string): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const format = (value: number, unit: "hour" | "minute") =>
+    new Intl.NumberFormat(locale, { style: "unit", unit, unitDisplay: "long" }).format(value);
+  return [hours > 0 ? format(hours, "hour") : "", minutes > 0 ? format(minutes, "minute") : ""]
+    .filter(Boolean)
+    .join(" ");
+};
+
+/**
+ * Format the difference, e.g. "6 hours ahead of you · tomorrow" or "30 minutes behind you".
+ * The day is only named when it differs from the viewer's.
+ */
+export function formatTimeDifference(difference: TimeDifference, locale: string, messages: Messages): string {
+  const { minutes, days } = difference;
+  const comparison = minutes === 0
+    ? messages.sameTime
+    : formatMessage(minutes > 0 ? messages.timeAhead : messages.timeBehind, {
+        difference: formatHoursAndMinutes(Math.abs(minutes), locale),
+      });
+  if (days === 0) return comparison;
+  return `${comparison} · ${new Intl.RelativeTimeFormat(locale, { numeric: "auto" }).format(days, "day")}`;
+}
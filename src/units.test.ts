@@ -0,0 +1,50 @@
+import {
+    formatPrecipitation,
+    formatPressure,
+    formatSpeed,
+    formatTemperature,
+    IMPERIAL,
+    METRIC,
+    MIXED,
+    resolveUnitSystem,
+    unitSystemForCountry,
+    unitSystemForLocale,
+} from "./units";
+
+describe("units", () => {
+    it("should know the unit system of a country", () => {
+        expect(unitSystemForCountry("United States of America")).toBe(IMPERIAL);
+        expect(unitSystemForCountry("US")).toBe(IMPERIAL);
+        expect(unitSystemForCountry("United Kingdom")).toBe(MIXED);
+        expect(unitSystemForCountry("Peru")).toBe(METRIC);
+        expect(unitSystemForCountry("")).toBeNull();
+    });
+
+    it("should know the unit system of a locale's region", () => {
+        expect(unitSystemForLocale("en-US")).toBe(IMPERIAL);
+        expect(unitSystemForLocale("en-GB")).toBe(MIXED);
+        expect(unitSystemForLocale("zh-Hant-TW")).toBe(METRIC);
+        expect(unitSystemForLocale("de")).toBeNull();
+    });
+
+    it("should resolve automatic units from the first known candidate", () => {
+        expect(resolveUnitSystem("auto", [null, IMPERIAL, MIXED])).toBe(IMPERIAL);
+        expect(resolveUnitSystem("auto", [null])).toBe(METRIC);
+        expect(resolveUnitSystem("mixed", [IMPERIAL])).toBe(MIXED);
+        expect(resolveUnitSystem("unknown", [])).toBe(METRIC);
+        expect(resolveUnitSystem("metric", [], "kn")).toEqual({...METRIC, speed: "kn"});
+        expect(resolveUnitSystem("metric", [], "auto")).toBe(METRIC);
+    });
+
+    it("should convert and format values", () => {
+        expect(formatTemperature(21.4, METRIC)).toBe("21°C");
+        expect(formatTemperature(21.4, IMPERIAL)).toBe("71°F");
+        expect(formatSpeed(36, METRIC)).toBe("36 km/h");
+        expect(formatSpeed(36, IMPERIAL)).toBe("22 mph");
+        expect(formatSpeed(36, {...METRIC, speed: "ms"})).toBe("10 m/s");
+        expect(formatSpeed(37.04, {...METRIC, speed: "kn"})).toBe("20 kn");
+        expect(formatPrecipitation(2.54, IMPERIAL)).toBe("0.10 in");
+        expect(formatPressure(1013.25, IMPERIAL)).toBe("29.92 inHg");
+        expect(formatPressure(1013.25, MIXED)).toBe("1013 hPa");
+    });
+});
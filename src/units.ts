@@ -0,0 +1,122 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+
+import { toCountryCode } from "./city-time-zones";
+
+/**
+ * Unit systems
+ * ------------------------------------------------------------------------
+ * Every value the widget shows goes through a unit system, so temperature,
+ * wind, precipitation, pressure and visibility always agree with each other.
+ * Providers deliver metric values, they're converted here.
+ */
+
+export const UNIT_SYSTEMS = ["auto", "metric", "imperial", "mixed"] as const;
+export type UnitSystemId = (typeof UNIT_SYSTEMS)[number];
+
+export const SPEED_UNITS = ["kmh", "mph", "ms", "kn"] as const;
+export type SpeedUnit = (typeof SPEED_UNITS)[number];
+
+/**
+ * The unit for each kind of value
+ */
+export interface UnitSystem {
+  temperature: "C" | "F";
+  speed: SpeedUnit;
+  precipitation: "mm" | "in";
+  pressure: "hPa" | "inHg";
+  distance: "km" | "mi";
+}
+
+export const METRIC: UnitSystem = { temperature: "C", speed: "kmh", precipitation: "mm", pressure: "hPa", distance: "km" };
+export const IMPERIAL: UnitSystem = { temperature: "F", speed: "mph", precipitation: "in", pressure: "inHg", distance: "mi" };
+// The British mix: Celsius, but miles and miles per hour
+export const MIXED: UnitSystem = { temperature: "C", speed: "mph", precipitation: "mm", pressure: "hPa", distance: "mi" };
+
+const UNIT_SYSTEM_BY_ID: Record<Exclude<UnitSystemId, "auto">, UnitSystem> = {
+  metric: METRIC,
+  imperial: IMPERIAL,
+  mixed: MIXED,
+};
+
+// Countries that don't (fully) use the metric system, by ISO code
+const COUNTRY_UNIT_SYSTEMS: Record<string, UnitSystem> = {
+  US: IMPERIAL,
+  LR: IMPERIAL,
+  MM: IMPERIAL,
+  GB: MIXED,
+};
+
+export const isUnitSystemId = (value: unknown): value is UnitSystemId =>
+  UNIT_SYSTEMS.includes(value as UnitSystemId);
+
+/**
+ * The unit system a country uses (name or ISO code), null without a country.
+ * The few non-metric countries are all known to toCountryCode, so anything else is metric.
+ */
+export function unitSystemForCountry(country: string): UnitSystem | null {
+  if (country.trim() === "") return null;
+  const code = toCountryCode(country);
+  return (code && COUNTRY_UNIT_SYSTEMS[code]) || METRIC;
+}
+
+/**
+ * The unit system of a locale's region, e.g. imperial for "en-US". Null without a region.
+ */
+export function unitSystemForLocale(locale: string): UnitSystem | null {
+  const region = locale.split("-").find((part, index) => index > 0 && /^[A-Z]{2}$/i.test(part));
+  return region ? unitSystemForCountry(region.toUpperCase()) : null;
+}
+
+/**
+ * Pick the unit system: a fixed one, or for "auto" the first country/locale that is known
+ * (in the order given), metric if none is. A wind unit other than "auto" replaces the system's.
+ */
+export function resolveUnitSystem(id: string, autoCandidates: (UnitSystem | null)[], speed: string = "auto"): UnitSystem {
+  const system = isUnitSystemId(id) && id !== "auto"
+    ? UNIT_SYSTEM_BY_ID[id]
+    : autoCandidates.find((candidate): candidate is UnitSystem => candidate !== null) ?? METRIC;
+  return SPEED_UNITS.includes(speed as SpeedUnit) ? { ...system, speed: speed as SpeedUnit } : system;
+}
+
+export const celsiusToFahrenheit = (c: number): number => (c * 9) / 5 + 32;
+
+/**
+ * "21°C" or "70°F"
+ */
+export const formatTemperature = (celsius: number, units: UnitSystem): string =>
+  units.temperature === "F" ? `${Math.round(celsiusToFahrenheit(celsius))}°F` : `${Math.round(celsius)}°C`;
+
+export function formatSpeed(kph: number, units: UnitSystem): string {
+  switch (units.speed) {
+    case "mph":
+      return `${Math.round(kph / 1.609)} mph`;
+    case "ms":
+      return `${Math.round(kph / 3.6)} m/s`;
+    case "kn":
+      return `${Math.round(kph / 1.852)} kn`;
+    default:
+      return `${Math.round(kph)} km/h`;
+  }
+}
+
+export const formatPrecipitation = (mm: number, units: UnitSystem): string =>
+  units.precipitation === "in" ? `${(mm / 25.4).toFixed(2)} in` : `${mm.toFixed(1)} mm`;
+
+export const formatPressure = (mb: number, units: UnitSystem): string =>
+  units.pressure === "inHg" ? `${(mb * 0.02953).toFixed(2)} inHg` : `${Math.round(mb)} hPa`;
+
+export const formatDistance = (km: number, units: UnitSystem): string =>
+  units.distance === "mi" ? `${Math.round(km / 1.609)} mi` : `${Math.round(km)} km`;
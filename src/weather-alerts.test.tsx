@@ -0,0 +1,64 @@
+import React from "react"
+import {screen, render, fireEvent} from "@testing-library/react"
+
+import {AlertsBanner, filterAlerts} from "./weather-alerts";
+import {WeatherAlert} from "./weather-providers";
+import {getMessages} from "./messages";
+
+const alert = (overrides: Partial<WeatherAlert> = {}): WeatherAlert => ({
+    event: "Wind",
+    headline: "Wind warning",
+    severity: "Moderate",
+    effective: Date.UTC(2024, 10, 26, 8),
+    expires: Date.UTC(2024, 10, 26, 20),
+    description: "Gusts up to 90 km/h.",
+    instruction: "Secure loose objects.",
+    ...overrides,
+});
+
+describe("AlertsBanner", () => {
+    it("should filter by minimum severity and expiry, most severe first", () => {
+        const now = Date.UTC(2024, 10, 26, 12);
+        const alerts = [
+            alert({headline: "minor", severity: "Minor"}),
+            alert({headline: "moderate"}),
+            alert({headline: "extreme", severity: "Extreme"}),
+            alert({headline: "expired", severity: "Severe", expires: Date.UTC(2024, 10, 26, 10)}),
+        ];
+
+        expect(filterAlerts(alerts, "Moderate", now).map((a) => a.headline)).toEqual(["extreme", "moderate"]);
+    })
+
+    it("should show alerts without a severity when all are wanted", () => {
+        const now = Date.UTC(2024, 10, 26, 12);
+        const alerts = [alert({headline: "unrated", severity: "Unknown"}), alert({headline: "minor", severity: "Minor"})];
+
+        expect(filterAlerts(alerts, "Minor", now).map((a) => a.headline)).toEqual(["minor"]);
+        expect(filterAlerts(alerts, "Unknown", now).map((a) => a.headline)).toEqual(["minor", "unrated"]);
+    })
+
+    it("should show times in the city's time zone and expand the description", () => {
+        render(<AlertsBanner alerts={[alert()]} timeZone="America/New_York" locale="en-US" messages={getMessages("en")}/>);
+
+        expect(screen.getByText("Moderate")).toBeInTheDocument();
+        expect(screen.getByText("Wind warning")).toBeInTheDocument();
+        expect(screen.getByText(/Nov 26, 2024, 3:00\sAM – Nov 26, 2024, 3:00\sPM/)).toBeInTheDocument();
+        expect(screen.queryByText("Gusts up to 90 km/h.")).not.toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole("button", {name: "Show details"}));
+
+        expect(screen.getByText("Gusts up to 90 km/h.")).toBeInTheDocument();
+        expect(screen.getByRole("button", {name: "Hide details"})).toHaveAttribute("aria-expanded", "true");
+    })
+
+    it("should translate the severity and the details button", () => {
+        render(<AlertsBanner alerts={[alert({severity: "Severe"})]} timeZone="Europe/Berlin" locale="fr-FR" messages={getMessages("fr")}/>);
+
+        expect(screen.getByText("Sévère")).toBeInTheDocument();
+        expect(screen.getByRole("region", {name: "Alertes météo"})).toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole("button", {name: "Afficher les détails"}));
+
+        expect(screen.getByRole("button", {name: "Masquer les détails"})).toBeInTheDocument();
+    })
+})
@@ -0,0 +1,109 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import React, { ReactElement, useState } from "react";
+import { DateTime } from "luxon";
+import { Messages } from "./messages";
+import { ALERT_SEVERITIES, AlertSeverity, WeatherAlert } from "./weather-providers";
+
+const severityRank = (severity: AlertSeverity): number => ALERT_SEVERITIES.indexOf(severity);
+
+/**
+ * Keep the alerts that are at least `minSeverity` and not expired yet, most severe first
+ */
+export function filterAlerts(alerts: WeatherAlert[], minSeverity: AlertSeverity, now: number = Date.now()): WeatherAlert[] {
+  return alerts
+    .filter((alert) => severityRank(alert.severity) >= severityRank(minSeverity))
+    .filter((alert) => alert.expires === null || alert.expires > now)
+    .sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+}
+
+/**
+ * The React component properties
+ */
+export interface AlertsBannerProps {
+  alerts: WeatherAlert[]; // already filtered, see filterAlerts
+  timeZone: string; // The city's tz_id, effective/expiry times are shown in that zone
+  locale: string;
+  messages: Messages;
+}
+
+/**
+ * Format an alert timestamp in the city's time zone
+ */
+const formatAlertTime = (millis: number, timeZone: string, locale: string): string =>
+  DateTime.fromMillis(millis, { zone: timeZone, locale }).toLocaleString(DateTime.DATETIME_MED);
+
+/**
+ * A single alert, with its description folded away until the user asks for it
+ */
+const AlertItem = ({ alert, timeZone, locale, messages }: { alert: WeatherAlert } & Omit<AlertsBannerProps, "alerts">) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+
+  return (
+    // The severity's color comes from the stylesheet, e.g. weather-time__alert--severe
+    <div className={`weather-time__alert weather-time__alert--${alert.severity.toLowerCase()}`}>
+      <p className="weather-time__alert-title">
+        <span className="weather-time__alert-badge">{messages.severities[alert.severity]}</span>
+        <b>{alert.headline}</b>
+      </p>
+      {(alert.effective !== null || alert.expires !== null) && (
+        <p className="weather-time__alert-time">
+          {alert.effective !== null && formatAlertTime(alert.effective, timeZone, locale)}
+          {" – "}
+          {alert.expires !== null && formatAlertTime(alert.expires, timeZone, locale)}
+        </p>
+      )}
+      {(alert.description || alert.instruction) && (
+        <>
+          <button
+            onClick={() => setIsExpanded((prev) => !prev)}
+            aria-expanded={isExpanded}
+            className="weather-time__alert-toggle"
+          >
+            {isExpanded ? messages.hideDetails : messages.showDetails}
+          </button>
+          {isExpanded && (
+            <div className="weather-time__alert-details">
+              {alert.description && <p>{alert.description}</p>}
+              {alert.instruction && <p>{alert.instruction}</p>}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Severe weather alerts banner
+ * ------------------------------------------------------------------------
+ * Lists the government alerts for the city: severity, headline,
+ * effective/expiry times and an expandable description.
+ */
+export const AlertsBanner = ({ alerts, timeZone, locale, messages }: AlertsBannerProps): ReactElement => {
+  return (
+    <div role="region" aria-label={messages.weatherAlerts} className="weather-time__alerts">
+      {alerts.map((alert) => (
+        <AlertItem
+          key={`${alert.event}|${alert.headline}|${alert.effective}`}
+          alert={alert}
+          timeZone={timeZone}
+          locale={locale}
+          messages={messages}
+        />
+      ))}
+    </div>
+  );
+};
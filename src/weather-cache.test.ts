@@ -0,0 +1,71 @@
+import {clearWeatherCache, fetchWeatherCached, isStale, readCachedWeather, weatherCacheKey} from "./weather-cache";
+import {WeatherSnapshot} from "./weather-providers";
+
+const snapshot = (fetchedAt: number = Date.now()): WeatherSnapshot => ({
+    provider: "openmeteo",
+    location: {name: "Berlin", region: "", country: "Germany", tzId: "Europe/Berlin", lat: 52.5, lon: 13.4},
+    current: {
+        tempC: 20, tempF: 68, conditionCode: 1000, conditionText: "Clear", isDay: true,
+        feelsLikeC: null, feelsLikeF: null, humidity: null, windKph: null, windDegree: null, gustKph: null, uvIndex: null, precipMm: null, pressureMb: null, visibilityKm: null,
+    },
+    forecast: [],
+    hourly: [],
+    alerts: [],
+    airQuality: null,
+    astronomy: null,
+    fetchedAt,
+});
+
+describe("weather cache", () => {
+    beforeEach(() => {
+        clearWeatherCache();
+    });
+
+    it("should key by provider and location, but not by API key", () => {
+        expect(weatherCacheKey("weatherapi", {location: " Berlin ", keys: {weatherapi: "secret"}}))
+            .toBe(weatherCacheKey("weatherapi", {location: "berlin", keys: {}}));
+        expect(weatherCacheKey("weatherapi", {location: "Berlin", keys: {}}))
+            .not.toBe(weatherCacheKey("openmeteo", {location: "Berlin", keys: {}}));
+    });
+
+    it("should merge concurrent requests", async () => {
+        const fetcher = jest.fn(() => Promise.resolve(snapshot()));
+
+        const [first, second] = await Promise.all([fetchWeatherCached("key", fetcher), fetchWeatherCached("key", fetcher)]);
+
+        expect(fetcher).toHaveBeenCalledTimes(1);
+        expect(first).toBe(second);
+    });
+
+    it("should persist snapshots to localStorage", async () => {
+        await fetchWeatherCached("key", () => Promise.resolve(snapshot()));
+
+        expect(window.localStorage.getItem("weather-time:cache:key")).toContain("Berlin");
+        expect(readCachedWeather("key")?.location.name).toBe("Berlin");
+    });
+
+    it("should tell stale from fresh data", () => {
+        expect(isStale(snapshot(Date.now() - 5 * 60 * 1000), 10 * 60 * 1000)).toBe(false);
+        expect(isStale(snapshot(Date.now() - 15 * 60 * 1000), 10 * 60 * 1000)).toBe(true);
+    });
+
+    it("should drop entries older than a day", () => {
+        window.localStorage.setItem("weather-time:cache:old", JSON.stringify(snapshot(Date.now() - 25 * 60 * 60 * 1000)));
+
+        expect(readCachedWeather("old")).toBeNull();
+        expect(window.localStorage.getItem("weather-time:cache:old")).toBeNull();
+    });
+
+    it("should ignore persisted entries that don't validate", () => {
+        window.localStorage.setItem("weather-time:cache:broken", JSON.stringify({...snapshot(), hourly: undefined}));
+        jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+        expect(readCachedWeather("broken")).toBeNull();
+    });
+
+    it("should not cache failed requests", async () => {
+        await expect(fetchWeatherCached("key", () => Promise.reject(new Error("down")))).rejects.toThrow("down");
+
+        expect(readCachedWeather("key")).toBeNull();
+    });
+});
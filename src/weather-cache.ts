@@ -0,0 +1,132 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { validateSnapshot, WeatherQuery, WeatherSnapshot } from "./weather-providers";
+
+/**
+ * Shared weather cache
+ * ------------------------------------------------------------------------
+ * Module-level, so every <weather-time> instance on the page shares it.
+ * Entries are mirrored to localStorage so they survive navigation, and
+ * identical requests that are in flight at the same time are merged.
+ */
+
+const STORAGE_PREFIX = "weather-time:cache:";
+
+// Persisted entries older than this are useless even as stale data, so they are dropped
+const MAX_PERSISTED_AGE = 24 * 60 * 60 * 1000;
+
+const memoryCache = new Map<string, WeatherSnapshot>();
+const inFlight = new Map<string, Promise<WeatherSnapshot>>();
+
+/**
+ * Build the cache key for a provider + query. API keys are deliberately not part of it.
+ */
+export function weatherCacheKey(providerId: string, query: WeatherQuery): string {
+  return [
+    providerId,
+    query.location.trim().toLowerCase(),
+    `d${query.days ?? 0}`,
+    `h${query.hours ?? 0}`,
+    `a${query.alerts ? 1 : 0}`,
+    `q${query.airQuality ? 1 : 0}`,
+    `s${query.astronomy ? 1 : 0}`,
+    `l${query.language ?? "en"}`,
+  ].join("|");
+}
+
+/**
+ * localStorage can be unavailable (privacy mode, sandboxed iframes) or full, the cache then is memory only.
+ * Persisted snapshots are validated again, they may have been written by an older version of the widget.
+ */
+function readPersisted(key: string): WeatherSnapshot | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + key);
+    return raw ? validateSnapshot(JSON.parse(raw) as WeatherSnapshot) : null;
+  } catch (error) {
+    console.warn("Could not read the weather cache:", error);
+    return null;
+  }
+}
+
+function writePersisted(key: string, snapshot: WeatherSnapshot | null): void {
+  try {
+    if (snapshot) {
+      window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(snapshot));
+    } else {
+      window.localStorage.removeItem(STORAGE_PREFIX + key);
+    }
+  } catch (error) {
+    console.warn("Could not write the weather cache:", error);
+  }
+}
+
+/**
+ * Get the cached snapshot for a key, fresh or stale, or null if there is none
+ */
+export function readCachedWeather(key: string): WeatherSnapshot | null {
+  const snapshot = memoryCache.get(key) ?? readPersisted(key);
+  if (!snapshot) return null;
+
+  if (Date.now() - snapshot.fetchedAt > MAX_PERSISTED_AGE) {
+    memoryCache.delete(key);
+    writePersisted(key, null);
+    return null;
+  }
+
+  memoryCache.set(key, snapshot);
+  return snapshot;
+}
+
+/**
+ * Whether a cached snapshot is older than the TTL and should be refreshed
+ */
+export function isStale(snapshot: WeatherSnapshot, ttlMillis: number): boolean {
+  return Date.now() - snapshot.fetchedAt > ttlMillis;
+}
+
+/**
+ * Run the fetcher and store its result. Concurrent calls for the same key share one request.
+ */
+export function fetchWeatherCached(key: string, fetcher: () => Promise<WeatherSnapshot>): Promise<WeatherSnapshot> {
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const request = fetcher()
+    .then((snapshot) => {
+      memoryCache.set(key, snapshot);
+      writePersisted(key, snapshot);
+      return snapshot;
+    })
+    .finally(() => {
+      inFlight.delete(key);
+    });
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Forget everything, in memory and in localStorage
+ */
+export function clearWeatherCache(): void {
+  memoryCache.clear();
+  inFlight.clear();
+  try {
+    Object.keys(window.localStorage)
+      .filter((storageKey) => storageKey.startsWith(STORAGE_PREFIX))
+      .forEach((storageKey) => window.localStorage.removeItem(storageKey));
+  } catch (error) {
+    console.warn("Could not clear the weather cache:", error);
+  }
+}
@@ -0,0 +1,75 @@
+import React from "react"
+import {screen, render} from "@testing-library/react"
+
+import {parseDetailFields, toCompassPoint, WeatherDetails} from "./weather-details";
+import {CurrentConditions} from "./weather-providers";
+import {IMPERIAL, METRIC, MIXED} from "./units";
+import {WeatherTime} from "./weather-time";
+import {clearWeatherCache} from "./weather-cache";
+import {getMessages} from "./messages";
+import {mockWeatherApi, weatherApiReply, widgetProps} from "./test-helpers";
+
+const conditions: CurrentConditions = {
+    tempC: 12, tempF: 53.6, conditionCode: 1003, conditionText: "Partly cloudy", isDay: true,
+    feelsLikeC: 10.4, feelsLikeF: 50.7, humidity: 82, windKph: 16.1, windDegree: 230, gustKph: 24,
+    uvIndex: null, precipMm: 1.2, pressureMb: 1012, visibilityKm: 10,
+};
+const messages = getMessages("en");
+
+describe("WeatherDetails", () => {
+    it("should parse the configured fields in order", () => {
+        expect(parseDetailFields("wind, Humidity,unknown,wind")).toEqual(["wind", "humidity"]);
+        expect(parseDetailFields(["uv", "pressure"])).toEqual(["uv", "pressure"]);
+        expect(parseDetailFields("")).toEqual([]);
+    });
+
+    it("should show the fields in the configured order and skip missing ones", () => {
+        render(<WeatherDetails conditions={conditions} fields={["humidity", "uv", "condition", "feelslike"]} units={METRIC} isMobileView={false} messages={messages}/>);
+
+        expect(screen.getAllByRole("term").map((term) => term.textContent)).toEqual(["Humidity", "Condition", "Feels like"]);
+        expect(screen.getByText("82%")).toBeInTheDocument();
+        expect(screen.getByText("10°C")).toBeInTheDocument();
+    });
+
+    it("should use imperial units and show the wind direction", () => {
+        render(<WeatherDetails conditions={conditions} fields={["wind", "precipitation", "pressure", "visibility"]} units={IMPERIAL} isMobileView={false} messages={messages}/>);
+
+        expect(screen.getByText("10 mph")).toBeInTheDocument();
+        expect(screen.getByRole("img", {name: "from SW"})).toHaveStyle({transform: "rotate(410deg)"});
+        expect(screen.getByText("0.05 in")).toBeInTheDocument();
+        expect(screen.getByText("29.88 inHg")).toBeInTheDocument();
+        expect(screen.getByText("6 mi")).toBeInTheDocument();
+    });
+
+    it("should translate the labels and the wind direction", () => {
+        render(<WeatherDetails conditions={conditions} fields={["humidity", "wind"]} units={METRIC} isMobileView={false} messages={getMessages("nl")}/>);
+
+        expect(screen.getAllByRole("term").map((term) => term.textContent)).toEqual(["Luchtvochtigheid", "Wind"]);
+        expect(screen.getByRole("img", {name: "uit ZW"})).toBeInTheDocument();
+    });
+
+    it("should mix units", () => {
+        render(<WeatherDetails conditions={conditions} fields={["feelslike", "wind", "gusts", "visibility"]} units={{...MIXED, speed: "kn"}} isMobileView={false} messages={messages}/>);
+
+        expect(screen.getByText("10°C")).toBeInTheDocument();
+        expect(screen.getByText("9 kn")).toBeInTheDocument();
+        expect(screen.getByText("13 kn")).toBeInTheDocument();
+        expect(screen.getByText("6 mi")).toBeInTheDocument();
+    });
+
+    it("should name compass points", () => {
+        expect(toCompassPoint(0)).toBe("N");
+        expect(toCompassPoint(350)).toBe("N");
+        expect(toCompassPoint(-90)).toBe("W");
+    });
+
+    it("should show the default fields when none are configured", async () => {
+        clearWeatherCache();
+        mockWeatherApi({London: weatherApiReply("London", "United Kingdom", "Europe/London", {humidity: 70, wind_kph: 12})});
+
+        render(<WeatherTime {...widgetProps()}/>);
+
+        await screen.findByText("10°C");
+        expect(screen.getAllByRole("term").map((term) => term.textContent)).toEqual(["Condition", "Humidity", "Wind"]);
+    });
+});
@@ -0,0 +1,136 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import React, { ReactElement } from "react";
+import { formatMessage, getMessages, Messages } from "./messages";
+import { CurrentConditions } from "./weather-providers";
+import { formatDistance, formatPrecipitation, formatPressure, formatSpeed, formatTemperature, UnitSystem } from "./units";
+
+/**
+ * The detail fields an admin can pick, in their default order
+ */
+export const DETAIL_FIELDS = [
+  "condition",
+  "feelslike",
+  "humidity",
+  "wind",
+  "gusts",
+  "uv",
+  "precipitation",
+  "pressure",
+  "visibility",
+] as const;
+export type DetailField = (typeof DETAIL_FIELDS)[number];
+
+/**
+ * The fields shown when none are configured
+ */
+export const DEFAULT_DETAIL_FIELDS: DetailField[] = ["condition", "feelslike", "humidity", "wind"];
+
+/**
+ * Parse the configured fields. The attribute arrives as a comma-separated string
+ * (or an array, which stringifies the same way), unknown and repeated fields are dropped.
+ */
+export function parseDetailFields(value: unknown): DetailField[] {
+  const fields = String(value ?? "")
+    .split(",")
+    .map((field) => field.trim().toLowerCase())
+    .filter((field): field is DetailField => (DETAIL_FIELDS as readonly string[]).includes(field));
+  return Array.from(new Set(fields));
+}
+
+/**
+ * Turn a wind direction in degrees into a compass point, e.g. 230 => "SW"
+ */
+export const toCompassPoint = (degree: number, compassPoints: string[] = getMessages("en").compassPoints): string =>
+  compassPoints[Math.round((((degree % 360) + 360) % 360) / 22.5) % compassPoints.length];
+
+/**
+ * Format a field's value, null if the provider didn't report it
+ */
+function formatField(field: DetailField, conditions: CurrentConditions, units: UnitSystem): string | null {
+  const value = (number: number | null, format: (n: number, units: UnitSystem) => string) =>
+    number === null ? null : format(number, units);
+
+  switch (field) {
+    case "condition":
+      return conditions.conditionText || null;
+    case "feelslike":
+      return value(conditions.feelsLikeC, formatTemperature);
+    case "humidity":
+      return value(conditions.humidity, (h) => `${Math.round(h)}%`);
+    case "wind":
+      return value(conditions.windKph, formatSpeed);
+    case "gusts":
+      return value(conditions.gustKph, formatSpeed);
+    case "uv":
+      return value(conditions.uvIndex, (uv) => `${Math.round(uv)}`);
+    case "precipitation":
+      return value(conditions.precipMm, formatPrecipitation);
+    case "pressure":
+      return value(conditions.pressureMb, formatPressure);
+    case "visibility":
+      return value(conditions.visibilityKm, formatDistance);
+  }
+}
+
+/**
+ * The React component properties
+ */
+export interface WeatherDetailsProps {
+  conditions: CurrentConditions;
+  fields: DetailField[]; // in display order
+  units: UnitSystem;
+  isMobileView: boolean;
+  messages: Messages;
+}
+
+/**
+ * Grid of weather details
+ * ------------------------------------------------------------------------
+ * Shows the admin's selection of detail fields as label/value pairs under
+ * the temperature, fields the provider didn't report are left out.
+ */
+export const WeatherDetails = ({ conditions, fields, units, isMobileView, messages }: WeatherDetailsProps): ReactElement | null => {
+  const rows = fields
+    .map((field) => ({ field, text: formatField(field, conditions, units) }))
+    .filter((row): row is { field: DetailField; text: string } => row.text !== null);
+  if (rows.length === 0) return null;
+
+  return (
+    <dl className={`weather-time__details${isMobileView ? " weather-time__details--compact" : ""}`}>
+      {rows.map(({ field, text }) => (
+        <React.Fragment key={field}>
+          <dt className="weather-time__detail-label">{messages.detailLabels[field]}</dt>
+          <dd className="weather-time__detail-value">
+            {text}
+            {field === "wind" && conditions.windDegree !== null && (
+              <span
+                role="img"
+                aria-label={formatMessage(messages.windFrom, {
+                  direction: toCompassPoint(conditions.windDegree, messages.compassPoints),
+                })}
+                className="weather-time__wind-arrow"
+                // The degree is where the wind comes from, the arrow points where it blows to
+                style={{ transform: `rotate(${conditions.windDegree + 180}deg)` }}
+              >
+                ↑
+              </span>
+            )}
+          </dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+};
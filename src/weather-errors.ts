@@ -0,0 +1,72 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+/**
+ * Everything that can go wrong while getting the weather
+ */
+export type WeatherErrorKind =
+  | "missing-key"
+  | "unknown-location"
+  | "quota-exceeded"
+  | "auth-rejected"
+  | "network"
+  | "malformed-response";
+
+/**
+ * Typed error thrown by the weather providers, and shown by the widget
+ */
+export class WeatherError extends Error {
+  public readonly kind: WeatherErrorKind;
+  public readonly provider: string | null;
+
+  public constructor(kind: WeatherErrorKind, message: string, provider: string | null = null) {
+    super(provider ? `${provider}: ${message}` : message);
+    this.name = "WeatherError";
+    this.kind = kind;
+    this.provider = provider;
+  }
+}
+
+/**
+ * Turn anything thrown into a WeatherError. `fetch` rejects with a TypeError when the
+ * network is down, anything else unexpected is treated as a broken response.
+ */
+export function toWeatherError(error: unknown, provider: string | null = null): WeatherError {
+  if (error instanceof WeatherError) return error;
+  if (error instanceof TypeError) return new WeatherError("network", error.message, provider);
+  return new WeatherError("malformed-response", error instanceof Error ? error.message : String(error), provider);
+}
+
+/**
+ * Map an HTTP status to an error kind, for providers that don't return more specific codes
+ */
+export function errorKindForStatus(status: number): WeatherErrorKind {
+  if (status === 401 || status === 403) return "auth-rejected";
+  if (status === 429) return "quota-exceeded";
+  if (status === 400 || status === 404) return "unknown-location";
+  return "network";
+}
+
+/**
+ * Messages per error kind for editors, with the details needed to fix the configuration.
+ * End users only get a neutral message in their language, see `errors` in messages.ts.
+ */
+export const weatherErrorMessages: Record<WeatherErrorKind, string> = {
+  "missing-key": "No API key is configured for the selected weather provider.",
+  "unknown-location": "The weather provider doesn't know this city. Check the spelling, or add the country (e.g. \"Portland, US\").",
+  "quota-exceeded": "The API key has used up its request quota. Upgrade the plan or configure a fallback provider.",
+  "auth-rejected": "The weather provider rejected the API key. Check that it's correct and active.",
+  network: "The weather provider couldn't be reached. Check the connection and try again.",
+  "malformed-response": "The weather provider returned data that couldn't be used.",
+};
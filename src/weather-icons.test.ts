@@ -0,0 +1,20 @@
+import {getTimeOfDay} from "./weather-icons";
+
+describe("getTimeOfDay", () => {
+    const sunrise = Date.UTC(2024, 10, 26, 7);
+    const sunset = Date.UTC(2024, 10, 26, 16);
+
+    it("should use sunrise and sunset when known", () => {
+        expect(getTimeOfDay(Date.UTC(2024, 10, 26, 12), false, sunrise, sunset)).toBe("day");
+        expect(getTimeOfDay(Date.UTC(2024, 10, 26, 17), true, sunrise, sunset)).toBe("night");
+    });
+
+    it("should handle days without a sunrise or sunset", () => {
+        expect(getTimeOfDay(Date.UTC(2024, 10, 26, 5), false, null, sunset)).toBe("day");
+        expect(getTimeOfDay(Date.UTC(2024, 10, 26, 5), true, sunrise, null)).toBe("night");
+    });
+
+    it("should fall back to the provider's flag", () => {
+        expect(getTimeOfDay(Date.UTC(2024, 10, 26, 12), false)).toBe("night");
+    });
+});
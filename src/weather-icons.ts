@@ -0,0 +1,111 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// For icons - Define both potential paths
+const GITHUB_WEATHER_PATH = "https://eirastaffbase.github.io/weather-time/resources/img";
+const WIDGET_IMAGES_PATH = "https://eirastaffbase.github.io/widget-images/weather-time";
+
+/**
+ * Where the icons are loaded from, the new image set or the original one
+ */
+export const getImageBasePath = (useNewImages: boolean): string =>
+  useNewImages ? WIDGET_IMAGES_PATH : GITHUB_WEATHER_PATH;
+
+/**
+ * Map WeatherAPI `code` + day/night => custom SVG filenames
+ * ------------------------------------------------------------------------
+ * WeatherAPI returns a numeric `code` for the condition (e.g., 1000 for "Clear"),
+ * plus an indication of day or night. This function maps those to the custom
+ * SVG filename that should be displayed in the UI.
+ */
+export function getIconFilename(code: number, timeOfDay: "day" | "night"): string {
+  switch (code) {
+    case 1000:
+      return timeOfDay === "day" ? "sunny.svg" : "clear-moon.svg";
+    case 1003:
+      return timeOfDay === "day" ? "partly-cloudy-sun.svg" : "partly-cloudy-moon.svg";
+    case 1006:
+      return "cloudy.svg";
+    case 1009:
+      return "double-clouds.svg";
+    case 1030:
+    case 1135:
+    case 1147:
+      return "double-clouds.svg";
+    case 1063:
+    case 1072:
+    case 1150:
+    case 1153:
+    case 1168:
+    case 1171:
+      return timeOfDay === "day" ? "drizzle.svg" : "drizzle-moon.svg";
+    case 1180:
+    case 1183:
+    case 1186:
+    case 1189:
+    case 1192:
+    case 1195:
+    case 1198:
+    case 1201:
+    case 1240:
+    case 1243:
+    case 1246:
+      return "rain.svg";
+    case 1066:
+    case 1069:
+    case 1114:
+    case 1117:
+    case 1204:
+    case 1207:
+    case 1210:
+    case 1213:
+    case 1216:
+    case 1219:
+    case 1222:
+    case 1225:
+    case 1237:
+    case 1249:
+    case 1252:
+    case 1255:
+    case 1258:
+    case 1261:
+    case 1264:
+      return "snow.svg";
+    case 1087:
+    case 1273:
+    case 1276:
+    case 1279:
+    case 1282:
+      return "thunderstorm.svg";
+    default:
+      return "default.svg";
+  }
+}
+
+/**
+ * Day or night at `time`. With today's sunrise/sunset known that's used, otherwise the provider's `isDay`.
+ * A missing sunrise or sunset means the sun doesn't rise (polar night) or set (midnight sun) today.
+ */
+export function getTimeOfDay(
+  time: number,
+  isDay: boolean,
+  sunrise: number | null = null,
+  sunset: number | null = null
+): "day" | "night" {
+  if (sunrise === null && sunset === null) {
+    return isDay ? "day" : "night";
+  }
+  const isAfterSunrise = sunrise === null ? sunset !== null : time >= sunrise;
+  const isBeforeSunset = sunset === null ? sunrise !== null : time < sunset;
+  return isAfterSunrise && isBeforeSunset ? "day" : "night";
+}
@@ -0,0 +1,369 @@
+import {
+    aggregateOpenWeatherMapForecast,
+    fetchWeatherSnapshot,
+    mapOpenWeatherMapId,
+    offsetToZone,
+    openMeteoProvider,
+    openWeatherMapProvider,
+    searchLocations,
+    validateSnapshot,
+    weatherApiProvider,
+    WeatherSnapshot,
+} from "./weather-providers";
+import {WeatherError} from "./weather-errors";
+
+const mockResponse = (body: unknown, status: number = 200) =>
+    Promise.resolve({
+        ok: status >= 200 && status < 300,
+        status,
+        json: () => Promise.resolve(body),
+    });
+
+const snapshot = (overrides: Partial<WeatherSnapshot["current"]> = {}): WeatherSnapshot => ({
+    provider: "weatherapi",
+    location: {name: "London", region: "City of London", country: "United Kingdom", tzId: "Europe/London", lat: 51.5, lon: -0.1},
+    current: {
+        tempC: 12, tempF: 53.6, conditionCode: 1000, conditionText: "Sunny", isDay: true,
+        feelsLikeC: null, feelsLikeF: null, humidity: null, windKph: null, windDegree: null, gustKph: null, uvIndex: null, precipMm: null, pressureMb: null, visibilityKm: null,
+        ...overrides,
+    },
+    forecast: [],
+    hourly: [],
+    alerts: [],
+    airQuality: null,
+    astronomy: null,
+    fetchedAt: 0,
+});
+
+describe("weather providers", () => {
+    const fetchMock = jest.fn();
+
+    beforeEach(() => {
+        fetchMock.mockReset();
+        global.fetch = fetchMock;
+        jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    });
+
+    it("should normalize a WeatherAPI response", async () => {
+        fetchMock.mockReturnValueOnce(mockResponse({
+            location: {name: "London", region: "City of London", country: "United Kingdom", tz_id: "Europe/London", lat: 51.5, lon: -0.1},
+            current: {
+                temp_c: 12, temp_f: 53.6, is_day: 0, condition: {code: 1003, text: "Partly cloudy"},
+                feelslike_c: 10.5, feelslike_f: 50.9, humidity: 82, wind_kph: 14.4, wind_degree: 230, gust_kph: 22.3,
+                uv: 1, precip_mm: 0.1, pressure_mb: 1012, vis_km: 10,
+            },
+        }));
+
+        const result = await weatherApiProvider.fetchSnapshot({location: "London", keys: {weatherapi: "key"}});
+
+        expect(fetchMock.mock.calls[0][0]).toContain("key=key&q=London");
+        expect(result.location.tzId).toBe("Europe/London");
+        expect(result.current).toEqual({
+            tempC: 12, tempF: 53.6, conditionCode: 1003, conditionText: "Partly cloudy", isDay: false,
+            feelsLikeC: 10.5, feelsLikeF: 50.9, humidity: 82, windKph: 14.4, windDegree: 230, gustKph: 22.3,
+            uvIndex: 1, precipMm: 0.1, pressureMb: 1012, visibilityKm: 10,
+        });
+    });
+
+    it("should type WeatherAPI errors by their error code", async () => {
+        fetchMock
+            .mockReturnValueOnce(mockResponse({error: {code: 2007, message: "API key has exceeded calls per month quota."}}, 403))
+            .mockReturnValueOnce(mockResponse({error: {code: 2006, message: "API key is invalid."}}, 401))
+            .mockReturnValueOnce(mockResponse({error: {code: 1006, message: "No matching location found."}}, 400));
+        const fetchLondon = () => weatherApiProvider.fetchSnapshot({location: "London", keys: {weatherapi: "key"}});
+
+        await expect(fetchLondon()).rejects.toMatchObject({kind: "quota-exceeded"});
+        await expect(fetchLondon()).rejects.toMatchObject({kind: "auth-rejected"});
+        await expect(fetchLondon()).rejects.toMatchObject({kind: "unknown-location"});
+    });
+
+    it("should type network failures and missing keys", async () => {
+        fetchMock.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+        await expect(weatherApiProvider.fetchSnapshot({location: "London", keys: {weatherapi: "key"}}))
+            .rejects.toMatchObject({kind: "network", provider: "weatherapi"});
+        await expect(weatherApiProvider.fetchSnapshot({location: "London", keys: {}}))
+            .rejects.toMatchObject({kind: "missing-key"});
+    });
+
+    it("should report unknown Open-Meteo locations", async () => {
+        fetchMock.mockReturnValueOnce(mockResponse({}));
+
+        await expect(openMeteoProvider.fetchSnapshot({location: "Atlantis", keys: {}}))
+            .rejects.toMatchObject({kind: "unknown-location"});
+    });
+
+    it("should geocode and map WMO codes for Open-Meteo", async () => {
+        fetchMock
+            .mockReturnValueOnce(mockResponse({results: [{name: "Berlin", admin1: "Land Berlin", country: "Germany", timezone: "Europe/Berlin", latitude: 52.5, longitude: 13.4}]}))
+            .mockReturnValueOnce(mockResponse({current: {temperature_2m: 20, weather_code: 61, is_day: 1}}));
+
+        const result = await openMeteoProvider.fetchSnapshot({location: "Berlin", keys: {}});
+
+        expect(result.location).toMatchObject({name: "Berlin", tzId: "Europe/Berlin"});
+        expect(result.current).toMatchObject({tempC: 20, tempF: 68, conditionCode: 1183, isDay: true});
+    });
+
+    it("should convert Open-Meteo details to the normalized units", async () => {
+        fetchMock.mockReturnValueOnce(mockResponse({
+            timezone: "Europe/Berlin",
+            current: {
+                temperature_2m: 20, weather_code: 0, is_day: 1, apparent_temperature: 25, relative_humidity_2m: 40,
+                wind_speed_10m: 12, wind_direction_10m: 90, visibility: 24140,
+            },
+        }));
+
+        const result = await openMeteoProvider.fetchSnapshot({location: "52.5,13.4", keys: {}});
+
+        expect(fetchMock.mock.calls[0][0]).toContain("apparent_temperature,relative_humidity_2m,wind_speed_10m");
+        expect(result.current).toMatchObject({feelsLikeC: 25, feelsLikeF: 77, humidity: 40, windKph: 12, windDegree: 90, gustKph: null, visibilityKm: 24.14});
+    });
+
+    it("should request and normalize WeatherAPI forecast days", async () => {
+        fetchMock.mockReturnValueOnce(mockResponse({
+            location: {name: "London", country: "United Kingdom", tz_id: "Europe/London"},
+            current: {temp_c: 12, temp_f: 53.6, is_day: 1, condition: {code: 1000, text: "Sunny"}},
+            forecast: {forecastday: [{date: "2024-11-26", day: {maxtemp_c: 14, maxtemp_f: 57.2, mintemp_c: 6, mintemp_f: 42.8, condition: {code: 1063, text: "Patchy rain"}}}]},
+        }));
+
+        const result = await weatherApiProvider.fetchSnapshot({location: "London", keys: {weatherapi: "key"}, days: 3});
+
+        expect(fetchMock.mock.calls[0][0]).toContain("/forecast.json?days=3&alerts=no&aqi=no&key=key");
+        expect(result.forecast).toEqual([
+            {date: "2024-11-26", maxTempC: 14, maxTempF: 57.2, minTempC: 6, minTempF: 42.8, conditionCode: 1063, conditionText: "Patchy rain"},
+        ]);
+    });
+
+    it("should request the condition text in the viewer's language", async () => {
+        fetchMock.mockReturnValue(mockResponse({
+            location: {name: "Berlin", country: "Germany", tz_id: "Europe/Berlin"},
+            current: {temp_c: 12, temp_f: 53.6, is_day: 1, condition: {code: 1000, text: "Sonnig"}},
+        }));
+
+        const result = await weatherApiProvider.fetchSnapshot({location: "Berlin", keys: {weatherapi: "key"}, language: "de"});
+        await weatherApiProvider.fetchSnapshot({location: "Berlin", keys: {weatherapi: "key"}, language: "en"});
+        await openWeatherMapProvider.fetchSnapshot({location: "Berlin", keys: {openweathermap: "key"}, language: "de"}).catch(() => null);
+
+        expect(result.current.conditionText).toBe("Sonnig");
+        expect(fetchMock.mock.calls[0][0]).toContain("q=Berlin&lang=de");
+        expect(fetchMock.mock.calls[1][0]).not.toContain("lang=");
+        expect(fetchMock.mock.calls[2][0]).toContain("appid=key&lang=de");
+    });
+
+    it("should request the OpenWeatherMap forecast in the viewer's language", async () => {
+        fetchMock
+            .mockReturnValueOnce(mockResponse({name: "Berlin", sys: {country: "DE"}, timezone: 3600, coord: {lat: 52.5, lon: 13.4}, main: {temp: 12}, weather: [{id: 800, description: "klarer Himmel"}]}))
+            .mockReturnValueOnce(mockResponse({list: []}));
+
+        await openWeatherMapProvider.fetchSnapshot({location: "Berlin", keys: {openweathermap: "key"}, days: 2, language: "de"});
+
+        expect(fetchMock.mock.calls[1][0]).toContain("/forecast?q=Berlin&units=metric&appid=key&lang=de");
+    });
+
+    it("should request and normalize WeatherAPI alerts", async () => {
+        const warning = {event: "Wind", headline: "Wind warning", severity: "severe", effective: "2024-11-26T08:00:00+00:00", expires: "2024-11-26T20:00:00+00:00", desc: "Gusts", instruction: ""};
+        fetchMock.mockReturnValueOnce(mockResponse({
+            location: {name: "London", country: "United Kingdom", tz_id: "Europe/London"},
+            current: {temp_c: 12, temp_f: 53.6, is_day: 1, condition: {code: 1000, text: "Sunny"}},
+            forecast: {forecastday: []},
+            alerts: {alert: [warning, warning]},
+        }));
+
+        const result = await weatherApiProvider.fetchSnapshot({location: "London", keys: {weatherapi: "key"}, alerts: true});
+
+        expect(fetchMock.mock.calls[0][0]).toContain("/forecast.json?days=1&alerts=yes&");
+        expect(result.alerts).toEqual([
+            {event: "Wind", headline: "Wind warning", severity: "Severe", effective: Date.UTC(2024, 10, 26, 8), expires: Date.UTC(2024, 10, 26, 20), description: "Gusts", instruction: ""},
+        ]);
+    });
+
+    it("should only keep upcoming WeatherAPI hours", async () => {
+        const now = Math.floor(Date.now() / 1000);
+        const hour = (offset: number) => ({time_epoch: now + offset * 3600, temp_c: 10 + offset, temp_f: 50, is_day: 1, chance_of_rain: 30, chance_of_snow: 60, condition: {code: 1000, text: "Sunny"}});
+        fetchMock.mockReturnValueOnce(mockResponse({
+            location: {name: "London", country: "United Kingdom", tz_id: "Europe/London"},
+            current: {temp_c: 12, temp_f: 53.6, is_day: 1, condition: {code: 1000, text: "Sunny"}},
+            forecast: {forecastday: [{date: "2024-11-26", hour: [hour(-2), hour(0)]}, {date: "2024-11-27", hour: [hour(1), hour(2)]}]},
+        }));
+
+        const result = await weatherApiProvider.fetchSnapshot({location: "London", keys: {weatherapi: "key"}, hours: 2});
+
+        expect(fetchMock.mock.calls[0][0]).toContain("/forecast.json?days=2&alerts=no&");
+        expect(result.forecast).toEqual([]);
+        expect(result.hourly.map((h) => h.tempC)).toEqual([10, 11]);
+        expect(result.hourly[0].chanceOfPrecipitation).toBe(60);
+    });
+
+    it("should request and normalize WeatherAPI air quality", async () => {
+        fetchMock.mockReturnValueOnce(mockResponse({
+            location: {name: "London", country: "United Kingdom", tz_id: "Europe/London"},
+            current: {
+                temp_c: 12, temp_f: 53.6, is_day: 1, condition: {code: 1000, text: "Sunny"},
+                air_quality: {"us-epa-index": 2, "gb-defra-index": 3, pm2_5: 20.1, pm10: 30, o3: 50, no2: 12.5},
+            },
+        }));
+
+        const result = await weatherApiProvider.fetchSnapshot({location: "London", keys: {weatherapi: "key"}, airQuality: true});
+
+        expect(fetchMock.mock.calls[0][0]).toContain("/current.json?aqi=yes&");
+        expect(result.airQuality).toEqual({usEpaIndex: 2, gbDefraIndex: 3, pm2_5: 20.1, pm10: 30, o3: 50, no2: 12.5});
+    });
+
+    it("should derive the indices from Open-Meteo pollutants and survive air quality failures", async () => {
+        fetchMock
+            .mockReturnValueOnce(mockResponse({current: {temperature_2m: 20, weather_code: 0, is_day: 1}}))
+            .mockReturnValueOnce(mockResponse({current: {us_aqi: 120, pm2_5: 40, pm10: 20, ozone: 80, nitrogen_dioxide: 10}}))
+            .mockReturnValueOnce(mockResponse({current: {temperature_2m: 20, weather_code: 0, is_day: 1}}))
+            .mockReturnValueOnce(mockResponse({}, 500));
+        const fetchBerlin = () => openMeteoProvider.fetchSnapshot({location: "52.5,13.4", keys: {}, airQuality: true});
+
+        expect((await fetchBerlin()).airQuality).toEqual({usEpaIndex: 3, gbDefraIndex: 4, pm2_5: 40, pm10: 20, o3: 80, no2: 10});
+        expect(fetchMock.mock.calls[1][0]).toContain("air-quality-api.open-meteo.com/v1/air-quality?latitude=52.5&longitude=13.4");
+        expect((await fetchBerlin()).airQuality).toBeNull();
+    });
+
+    it("should parse WeatherAPI astronomy in the city's time zone", async () => {
+        fetchMock.mockReturnValueOnce(mockResponse({
+            location: {name: "New York", country: "United States of America", tz_id: "America/New_York"},
+            current: {temp_c: 12, temp_f: 53.6, is_day: 1, condition: {code: 1000, text: "Sunny"}},
+            forecast: {forecastday: [{date: "2024-11-26", astro: {sunrise: "06:56 AM", sunset: "04:31 PM", moon_phase: "Third Quarter", moon_illumination: "42"}}]},
+        }));
+
+        const result = await weatherApiProvider.fetchSnapshot({location: "New York", keys: {weatherapi: "key"}, astronomy: true});
+
+        expect(fetchMock.mock.calls[0][0]).toContain("/forecast.json?days=1&");
+        expect(result.astronomy).toEqual({
+            sunrise: Date.UTC(2024, 10, 26, 11, 56),
+            sunset: Date.UTC(2024, 10, 26, 21, 31),
+            moonPhase: "Last Quarter",
+            moonIllumination: 42,
+        });
+        expect(result.forecast).toEqual([]);
+    });
+
+    it("should request Open-Meteo sunrise/sunset without a forecast", async () => {
+        fetchMock.mockReturnValueOnce(mockResponse({
+            timezone: "Europe/Berlin",
+            current: {temperature_2m: 20, weather_code: 0, is_day: 1},
+            daily: {time: ["2024-11-26"], sunrise: ["2024-11-26T07:45"], sunset: ["2024-11-26T15:58"]},
+        }));
+
+        const result = await openMeteoProvider.fetchSnapshot({location: "52.5,13.4", keys: {}, astronomy: true});
+
+        expect(fetchMock.mock.calls[0][0]).toContain("&daily=sunrise,sunset&forecast_days=1");
+        expect(result.forecast).toEqual([]);
+        expect(result.astronomy).toEqual({sunrise: Date.UTC(2024, 10, 26, 6, 45), sunset: Date.UTC(2024, 10, 26, 14, 58), moonPhase: null, moonIllumination: null});
+    });
+
+    it("should normalize Open-Meteo daily values", async () => {
+        fetchMock.mockReturnValueOnce(mockResponse({
+            current: {temperature_2m: 20, weather_code: 0, is_day: 1},
+            daily: {time: ["2024-11-26", "2024-11-27"], weather_code: [3, 71], temperature_2m_max: [10, 0], temperature_2m_min: [5, -5]},
+        }));
+
+        const result = await openMeteoProvider.fetchSnapshot({location: "52.5,13.4", keys: {}, days: 2});
+
+        expect(fetchMock.mock.calls[0][0]).toContain("forecast_days=2");
+        expect(result.forecast[1]).toEqual({date: "2024-11-27", maxTempC: 0, maxTempF: 32, minTempC: -5, minTempF: 23, conditionCode: 1213, conditionText: "Light snow"});
+    });
+
+    it("should describe Open-Meteo conditions in the query's language", async () => {
+        fetchMock.mockReturnValueOnce(mockResponse({
+            current: {temperature_2m: 20, weather_code: 61, is_day: 1},
+            daily: {time: ["2024-11-26"], weather_code: [95], temperature_2m_max: [10], temperature_2m_min: [5]},
+        }));
+
+        const result = await openMeteoProvider.fetchSnapshot({location: "52.5,13.4", keys: {}, days: 1, language: "de"});
+
+        expect(result.current.conditionText).toBe("Leichter Regen");
+        expect(result.forecast[0].conditionText).toBe("Gewitter");
+    });
+
+    it("should group OpenWeatherMap steps into local days", () => {
+        // 2024-11-26 00:00 UTC, in a UTC+2 zone
+        const start = 1732579200;
+        const steps = [0, 3, 6, 9, 12, 21, 24].map((hours, i) => ({
+            dt: start + hours * 3600,
+            main: {temp_max: 10 + i, temp_min: i},
+            weather: [{id: hours === 9 ? 500 : 800, description: "weather"}],
+        }));
+
+        const days = aggregateOpenWeatherMapForecast(steps, 7200, 5);
+
+        expect(days.map((day) => day.date)).toEqual(["2024-11-26", "2024-11-27"]);
+        expect(days[0]).toMatchObject({maxTempC: 15, minTempC: 0, conditionCode: 1183});
+    });
+
+    it("should map OpenWeatherMap ids and offsets", () => {
+        expect(mapOpenWeatherMapId(800)).toBe(1000);
+        expect(mapOpenWeatherMapId(501)).toBe(1189);
+        expect(offsetToZone(19800)).toBe("UTC+5:30");
+        expect(offsetToZone(-18000)).toBe("UTC-5");
+    });
+
+    it("should reject implausible snapshots", () => {
+        expect(() => validateSnapshot(snapshot())).not.toThrow();
+        expect(() => validateSnapshot(snapshot({tempC: 400}))).toThrow(WeatherError);
+        expect(() => validateSnapshot({...snapshot(), location: {...snapshot().location, tzId: "Not/AZone"}}))
+            .toThrow(/invalid time zone/);
+    });
+
+    it("should fail over to the secondary provider", async () => {
+        fetchMock
+            .mockReturnValueOnce(mockResponse({error: {code: 2007, message: "quota"}}, 403))
+            .mockReturnValueOnce(mockResponse({results: [{name: "Berlin", country: "Germany", timezone: "Europe/Berlin", latitude: 52.5, longitude: 13.4}]}))
+            .mockReturnValueOnce(mockResponse({current: {temperature_2m: 20, weather_code: 0, is_day: 1}}));
+
+        const result = await fetchWeatherSnapshot({location: "Berlin", keys: {weatherapi: "key"}}, weatherApiProvider, openMeteoProvider);
+
+        expect(result.provider).toBe("openmeteo");
+    });
+
+    it("should rethrow when there is no secondary provider", async () => {
+        await expect(fetchWeatherSnapshot({location: "Berlin", keys: {}}, weatherApiProvider))
+            .rejects.toThrow("API key is required");
+    });
+
+    it("should throw the primary provider's error when both fail", async () => {
+        fetchMock.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+        await expect(fetchWeatherSnapshot({location: "Berlin", keys: {}}, weatherApiProvider, openMeteoProvider))
+            .rejects.toMatchObject({kind: "missing-key", provider: "weatherapi"});
+    });
+
+    it("should suggest locations with coordinates", async () => {
+        fetchMock.mockReturnValueOnce(mockResponse([
+            {id: 1, name: "Portland", region: "Oregon", country: "United States of America", lat: 45.52, lon: -122.68},
+            {id: 2, name: "Portland", region: "Maine", country: "United States of America", lat: 43.66, lon: -70.25},
+            {id: 3, region: "Broken"},
+        ]));
+
+        const suggestions = await weatherApiProvider.searchLocations("Portl", {weatherapi: "key"});
+
+        expect(fetchMock.mock.calls[0][0]).toBe("https://api.weatherapi.com/v1/search.json?key=key&q=Portl");
+        expect(suggestions).toEqual([
+            {name: "Portland", region: "Oregon", country: "United States of America", lat: 45.52, lon: -122.68},
+            {name: "Portland", region: "Maine", country: "United States of America", lat: 43.66, lon: -70.25},
+        ]);
+    });
+
+    it("should map Open-Meteo and OpenWeatherMap search results", async () => {
+        fetchMock
+            .mockReturnValueOnce(mockResponse({results: [{name: "Berlin", admin1: "Land Berlin", country: "Germany", latitude: 52.52, longitude: 13.41}]}))
+            .mockReturnValueOnce(mockResponse([{name: "Berlin", state: "Land Berlin", country: "DE", lat: 52.52, lon: 13.4}]));
+
+        expect(await openMeteoProvider.searchLocations("Berl", {})).toEqual([
+            {name: "Berlin", region: "Land Berlin", country: "Germany", lat: 52.52, lon: 13.41},
+        ]);
+        expect(await openWeatherMapProvider.searchLocations("Berl", {openweathermap: "key"})).toEqual([
+            {name: "Berlin", region: "Land Berlin", country: "DE", lat: 52.52, lon: 13.4},
+        ]);
+    });
+
+    it("should search with the secondary provider and never throw", async () => {
+        fetchMock.mockReturnValueOnce(mockResponse({results: [{name: "Berlin", country: "Germany", latitude: 52.52, longitude: 13.41}]}));
+
+        expect(await searchLocations("Berl", {}, weatherApiProvider, openMeteoProvider)).toHaveLength(1);
+        expect(await searchLocations("Berl", {}, weatherApiProvider)).toEqual([]);
+    });
+});
@@ -0,0 +1,1139 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DateTime } from "luxon";
+import {
+  defraIndexFromPollutants,
+  epaIndexFromAqi,
+  epaIndexFromPollutants,
+  Pollutants,
+} from "./air-quality-index";
+import { getMessages, Messages } from "./messages";
+import { errorKindForStatus, toWeatherError, WeatherError, WeatherErrorKind } from "./weather-errors";
+
+/**
+ * The weather backends the widget can talk to
+ */
+export type WeatherProviderId = "weatherapi" | "openmeteo" | "openweathermap";
+
+/**
+ * Where the weather was measured, normalized across providers
+ */
+export interface WeatherLocation {
+  name: string;
+  region: string;
+  country: string;
+  tzId: string; // IANA zone (or a Luxon fixed offset zone like "UTC+5:30")
+  lat: number;
+  lon: number;
+}
+
+/**
+ * The current conditions, normalized across providers.
+ * `conditionCode` always uses the WeatherAPI condition codes, so the icon mapping
+ * in the component works the same no matter which provider delivered the data.
+ * The details are metric and null when the provider doesn't report them.
+ */
+export interface CurrentConditions {
+  tempC: number;
+  tempF: number;
+  conditionCode: number;
+  conditionText: string;
+  isDay: boolean;
+  feelsLikeC: number | null;
+  feelsLikeF: number | null;
+  humidity: number | null; // relative humidity, 0-100
+  windKph: number | null;
+  windDegree: number | null; // direction the wind comes from, 0 = north
+  gustKph: number | null;
+  uvIndex: number | null;
+  precipMm: number | null; // precipitation in the last hour
+  pressureMb: number | null; // sea level pressure, hPa
+  visibilityKm: number | null;
+}
+
+/**
+ * One day of the multi-day forecast, normalized across providers
+ */
+export interface ForecastDay {
+  date: string; // ISO date in the location's time zone, e.g. "2024-11-26"
+  maxTempC: number;
+  maxTempF: number;
+  minTempC: number;
+  minTempF: number;
+  conditionCode: number;
+  conditionText: string;
+}
+
+/**
+ * One hour of the hourly forecast, normalized across providers
+ */
+export interface ForecastHour {
+  time: number; // epoch millis of the start of the hour
+  tempC: number;
+  tempF: number;
+  conditionCode: number;
+  conditionText: string;
+  isDay: boolean;
+  chanceOfPrecipitation: number; // 0-100
+}
+
+/**
+ * Severity levels of government alerts (CAP), from least to most severe
+ */
+export const ALERT_SEVERITIES = ["Unknown", "Minor", "Moderate", "Severe", "Extreme"] as const;
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+
+/**
+ * A government weather alert, normalized across providers
+ */
+export interface WeatherAlert {
+  event: string;
+  headline: string;
+  severity: AlertSeverity;
+  effective: number | null; // epoch millis
+  expires: number | null; // epoch millis
+  description: string;
+  instruction: string;
+}
+
+/**
+ * Current air quality, normalized across providers. Pollutants are in µg/m³.
+ */
+export interface AirQuality extends Pollutants {
+  usEpaIndex: number | null; // 1-6
+  gbDefraIndex: number | null; // 1-10
+}
+
+/**
+ * Moon phases, in order of the lunar cycle
+ */
+export const MOON_PHASES = [
+  "New Moon",
+  "Waxing Crescent",
+  "First Quarter",
+  "Waxing Gibbous",
+  "Full Moon",
+  "Waning Gibbous",
+  "Last Quarter",
+  "Waning Crescent",
+] as const;
+export type MoonPhase = (typeof MOON_PHASES)[number];
+
+/**
+ * Today's sun and moon data for the location, normalized across providers
+ */
+export interface Astronomy {
+  sunrise: number | null; // epoch millis, null if the sun doesn't rise today (polar night)
+  sunset: number | null; // epoch millis, null if the sun doesn't set today (midnight sun)
+  moonPhase: MoonPhase | null;
+  moonIllumination: number | null; // 0-100
+}
+
+/**
+ * A validated snapshot of the weather for one location
+ */
+export interface WeatherSnapshot {
+  provider: WeatherProviderId;
+  location: WeatherLocation;
+  current: CurrentConditions;
+  forecast: ForecastDay[]; // empty unless days were requested
+  hourly: ForecastHour[]; // empty unless hours were requested, starts with the current hour
+  alerts: WeatherAlert[]; // empty unless alerts were requested (or the provider has none)
+  airQuality: AirQuality | null; // null unless air quality was requested (or the provider couldn't deliver it)
+  astronomy: Astronomy | null; // null unless astronomy was requested
+  fetchedAt: number; // epoch millis
+}
+
+/**
+ * What the widget asks a provider for
+ */
+export interface WeatherQuery {
+  location: string; // city name or "lat,lon"
+  keys: Partial<Record<WeatherProviderId, string>>;
+  days?: number; // number of forecast days to include, 0 or undefined for current conditions only
+  hours?: number; // number of forecast hours to include, 0 or undefined for none
+  alerts?: boolean; // whether to include government alerts
+  airQuality?: boolean; // whether to include the current air quality
+  astronomy?: boolean; // whether to include today's sunrise/sunset and moon phase
+  language?: string; // language of the condition text (e.g. "de"), English if undefined
+}
+
+/**
+ * A place suggested for a search text. It's picked by its coordinates, which are
+ * unambiguous and understood by every provider (unlike a provider's location id).
+ */
+export interface LocationSuggestion {
+  name: string;
+  region: string;
+  country: string;
+  lat: number;
+  lon: number;
+}
+
+/**
+ * Every weather backend implements this interface
+ */
+export interface WeatherProvider {
+  id: WeatherProviderId;
+  label: string;
+  requiresKey: boolean;
+  fetchSnapshot: (query: WeatherQuery) => Promise<WeatherSnapshot>;
+  searchLocations: (text: string, keys: WeatherQuery["keys"]) => Promise<LocationSuggestion[]>;
+}
+
+const celsiusToFahrenheit = (c: number): number => (c * 9) / 5 + 32;
+
+const toFahrenheit = (c: unknown) => (typeof c === "number" ? celsiusToFahrenheit(c) : c) as number;
+
+const HOUR_MILLIS = 60 * 60 * 1000;
+
+// How many places a location search suggests at most
+const MAX_SUGGESTIONS = 5;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Map a severity string to one of the CAP severities
+ */
+export function normalizeSeverity(value: unknown): AlertSeverity {
+  const match = ALERT_SEVERITIES.find((severity) => severity.toLowerCase() === String(value).trim().toLowerCase());
+  return match ?? "Unknown";
+}
+
+/**
+ * Map a moon phase name to one of the known phases, null for anything unknown
+ */
+export function normalizeMoonPhase(value: unknown): MoonPhase | null {
+  // Some sources call the last quarter "third quarter"
+  const name = String(value).trim().toLowerCase().replace("third quarter", "last quarter");
+  return MOON_PHASES.find((phase) => phase.toLowerCase() === name) ?? null;
+}
+
+/**
+ * Parse a local ISO timestamp without offset (e.g. "2024-11-26T07:42") in a zone into epoch millis
+ */
+function parseLocalTimestamp(value: unknown, zone: string): number | null {
+  if (typeof value !== "string") return null;
+  const dateTime = DateTime.fromISO(value, { zone });
+  return dateTime.isValid ? dateTime.toMillis() : null;
+}
+
+/**
+ * Parse an ISO timestamp into epoch millis, null if missing or invalid
+ */
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+  const dateTime = DateTime.fromISO(value, { setZone: true });
+  return dateTime.isValid ? dateTime.toMillis() : null;
+}
+
+/**
+ * Keep the hours from the current one onwards, up to the requested count
+ */
+function upcomingHours(hours: ForecastHour[], count: number): ForecastHour[] {
+  const currentHourStart = Date.now() - HOUR_MILLIS;
+  return hours.filter((hour) => hour.time > currentHourStart).slice(0, count);
+}
+
+/**
+ * Parse a "lat,lon" string, returns null for anything else (e.g. a city name)
+ */
+export function parseCoordinates(location: string): { lat: number; lon: number } | null {
+  const match = location.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  return { lat: parseFloat(match[1]), lon: parseFloat(match[2]) };
+}
+
+/**
+ * The `lang` parameter for the condition text, which WeatherAPI and OpenWeatherMap translate.
+ * Left out for English, their default.
+ */
+function languageParam(query: WeatherQuery): string {
+  return query.language && query.language !== "en" ? `&lang=${encodeURIComponent(query.language)}` : "";
+}
+
+/**
+ * Get the key for a provider from the query, throws if the provider needs one and none is configured
+ */
+function requireKey(provider: WeatherProviderId, query: WeatherQuery): string {
+  const key = query.keys[provider];
+  if (!key || key.trim() === "") {
+    throw new WeatherError("missing-key", "API key is required", provider);
+  }
+  return key.trim();
+}
+
+/**
+ * `fetch`, with network failures turned into WeatherErrors
+ */
+async function request(provider: WeatherProviderId, url: string): Promise<Response> {
+  try {
+    return await fetch(url);
+  } catch (error) {
+    throw toWeatherError(error, provider);
+  }
+}
+
+/**
+ * Parse a JSON body, a body that isn't JSON is a malformed response
+ */
+async function readJson(provider: WeatherProviderId, response: Response) {
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new WeatherError("malformed-response", `Response is not JSON: ${error}`, provider);
+  }
+}
+
+/**
+ * Fetch JSON and turn HTTP failures into WeatherErrors
+ */
+async function fetchJson(provider: WeatherProviderId, url: string) {
+  const response = await request(provider, url);
+  if (!response.ok) {
+    throw new WeatherError(errorKindForStatus(response.status), `Request failed with status ${response.status}`, provider);
+  }
+  return readJson(provider, response);
+}
+
+const numberOrNull = (value: unknown): number | null => (isFiniteNumber(value) ? value : null);
+
+const fahrenheitOrNull = (c: number | null): number | null => (c === null ? null : celsiusToFahrenheit(c));
+
+/**
+ * Drop search results without a name or coordinates, and limit them to MAX_SUGGESTIONS
+ */
+const validSuggestions = (suggestions: LocationSuggestion[]): LocationSuggestion[] =>
+  suggestions
+    .filter((suggestion) => suggestion.name && isFiniteNumber(suggestion.lat) && isFiniteNumber(suggestion.lon))
+    .slice(0, MAX_SUGGESTIONS);
+
+/**
+ * Fill in the indices a provider doesn't report from its pollutant concentrations
+ */
+function toAirQuality(pollutants: Pollutants, usEpaIndex: number | null = null, gbDefraIndex: number | null = null): AirQuality {
+  return {
+    ...pollutants,
+    usEpaIndex: usEpaIndex ?? epaIndexFromPollutants(pollutants),
+    gbDefraIndex: gbDefraIndex ?? defraIndexFromPollutants(pollutants),
+  };
+}
+
+/**
+ * Air quality comes from a separate endpoint for some providers. The weather is still
+ * worth showing when that request fails, so failures end up as "no air quality".
+ */
+async function optionalAirQuality(provider: WeatherProviderId, fetchAirQuality: () => Promise<AirQuality>): Promise<AirQuality | null> {
+  try {
+    return await fetchAirQuality();
+  } catch (error) {
+    console.warn(`Air quality from ${provider} couldn't be loaded:`, error);
+    return null;
+  }
+}
+
+/* ------------------------------------------------------------------------
+ * WeatherAPI (https://www.weatherapi.com/)
+ * ------------------------------------------------------------------------ */
+
+/**
+ * The parts of a WeatherAPI `forecastday` entry we use
+ */
+interface WeatherApiForecastDay {
+  date: string;
+  astro?: {
+    sunrise?: string; // e.g. "07:42 AM", or "No sunrise"
+    sunset?: string;
+    moon_phase?: string;
+    moon_illumination?: number | string;
+  };
+  day?: {
+    maxtemp_c?: number;
+    maxtemp_f?: number;
+    mintemp_c?: number;
+    mintemp_f?: number;
+    condition?: { code?: number; text?: string };
+  };
+  hour?: {
+    time_epoch: number;
+    temp_c?: number;
+    temp_f?: number;
+    is_day?: number;
+    chance_of_rain?: number;
+    chance_of_snow?: number;
+    condition?: { code?: number; text?: string };
+  }[];
+}
+
+/**
+ * The parts of a WeatherAPI alert we use
+ */
+interface WeatherApiAlert {
+  event?: string;
+  headline?: string;
+  severity?: string;
+  effective?: string;
+  expires?: string;
+  desc?: string;
+  instruction?: string;
+}
+
+/**
+ * The parts of WeatherAPI's `air_quality` we use
+ */
+interface WeatherApiAirQuality {
+  "us-epa-index"?: number;
+  "gb-defra-index"?: number;
+  pm2_5?: number;
+  pm10?: number;
+  o3?: number;
+  no2?: number;
+}
+
+/**
+ * WeatherAPI reports sunrise/sunset as a local clock time like "07:42 AM", turn it into epoch millis
+ */
+function parseWeatherApiClockTime(date: string, time: string | undefined, zone: string): number | null {
+  if (!time) return null;
+  const dateTime = DateTime.fromFormat(`${date} ${time}`, "yyyy-MM-dd hh:mm a", { zone, locale: "en-US" });
+  return dateTime.isValid ? dateTime.toMillis() : null;
+}
+
+/**
+ * WeatherAPI sends the same alert several times (e.g. once per language or area), keep the first of each
+ */
+function uniqueAlerts(alerts: WeatherAlert[]): WeatherAlert[] {
+  const seen = new Set<string>();
+  return alerts.filter((alert) => {
+    const key = `${alert.event}|${alert.headline}|${alert.effective}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * WeatherAPI error codes => error kinds, see https://www.weatherapi.com/docs/#intro-error-codes
+ */
+const WEATHERAPI_ERROR_KINDS: Record<number, WeatherErrorKind> = {
+  1002: "missing-key",
+  1003: "unknown-location",
+  1006: "unknown-location",
+  2006: "auth-rejected",
+  2007: "quota-exceeded",
+  2008: "auth-rejected",
+  2009: "auth-rejected",
+};
+
+export const weatherApiProvider: WeatherProvider = {
+  id: "weatherapi",
+  label: "WeatherAPI",
+  requiresKey: true,
+  fetchSnapshot: async (query) => {
+    const key = requireKey("weatherapi", query);
+    const days = query.days ?? 0;
+    const hours = query.hours ?? 0;
+    // Hours are grouped by day, so 24 upcoming hours can span into the second day
+    const requestedDays = Math.max(days, hours > 0 ? 2 : 0, query.alerts || query.astronomy ? 1 : 0);
+    // The forecast endpoint includes the current conditions (and alerts) as well
+    const endpoint = requestedDays > 0
+      ? `forecast.json?days=${requestedDays}&alerts=${query.alerts ? "yes" : "no"}&`
+      : "current.json?";
+    const aqi = query.airQuality ? "yes" : "no";
+    const response = await request(
+      "weatherapi",
+      `https://api.weatherapi.com/v1/${endpoint}aqi=${aqi}&key=${encodeURIComponent(key)}&q=${encodeURIComponent(
+        query.location
+      )}${languageParam(query)}`
+    );
+    if (!response.ok) {
+      // WeatherAPI reports what went wrong (e.g. quota, unknown city) as an error code in the body
+      const body = await response.json().catch(() => null);
+      throw new WeatherError(
+        WEATHERAPI_ERROR_KINDS[body?.error?.code] ?? errorKindForStatus(response.status),
+        body?.error?.message ?? `Request failed with status ${response.status}`,
+        "weatherapi"
+      );
+    }
+
+    const data = await readJson("weatherapi", response);
+    const forecastDays: WeatherApiForecastDay[] = data?.forecast?.forecastday ?? [];
+    const airQuality: WeatherApiAirQuality | undefined = data?.current?.air_quality;
+    const today = forecastDays[0];
+    return {
+      provider: "weatherapi",
+      location: {
+        name: data?.location?.name,
+        region: data?.location?.region ?? "",
+        country: data?.location?.country ?? "",
+        tzId: data?.location?.tz_id,
+        lat: data?.location?.lat,
+        lon: data?.location?.lon,
+      },
+      current: {
+        tempC: data?.current?.temp_c,
+        tempF: data?.current?.temp_f,
+        conditionCode: data?.current?.condition?.code,
+        conditionText: data?.current?.condition?.text ?? "",
+        isDay: data?.current?.is_day === 1,
+        feelsLikeC: numberOrNull(data?.current?.feelslike_c),
+        feelsLikeF: numberOrNull(data?.current?.feelslike_f),
+        humidity: numberOrNull(data?.current?.humidity),
+        windKph: numberOrNull(data?.current?.wind_kph),
+        windDegree: numberOrNull(data?.current?.wind_degree),
+        gustKph: numberOrNull(data?.current?.gust_kph),
+        uvIndex: numberOrNull(data?.current?.uv),
+        precipMm: numberOrNull(data?.current?.precip_mm),
+        pressureMb: numberOrNull(data?.current?.pressure_mb),
+        visibilityKm: numberOrNull(data?.current?.vis_km),
+      },
+      // Values are checked by validateSnapshot, not here
+      forecast: forecastDays.slice(0, days).map((forecastDay) => ({
+        date: forecastDay.date,
+        maxTempC: forecastDay.day?.maxtemp_c as number,
+        maxTempF: forecastDay.day?.maxtemp_f as number,
+        minTempC: forecastDay.day?.mintemp_c as number,
+        minTempF: forecastDay.day?.mintemp_f as number,
+        conditionCode: forecastDay.day?.condition?.code as number,
+        conditionText: forecastDay.day?.condition?.text ?? "",
+      })),
+      hourly: upcomingHours(
+        forecastDays.flatMap((forecastDay) => forecastDay.hour ?? []).map((hour) => ({
+          time: hour.time_epoch * 1000,
+          tempC: hour.temp_c as number,
+          tempF: hour.temp_f as number,
+          conditionCode: hour.condition?.code as number,
+          conditionText: hour.condition?.text ?? "",
+          isDay: hour.is_day === 1,
+          chanceOfPrecipitation: Math.max(hour.chance_of_rain ?? 0, hour.chance_of_snow ?? 0),
+        })),
+        hours
+      ),
+      alerts: uniqueAlerts(
+        (data?.alerts?.alert ?? []).map((alert: WeatherApiAlert) => ({
+          event: alert.event ?? "",
+          headline: alert.headline || alert.event || "",
+          severity: normalizeSeverity(alert.severity),
+          effective: parseTimestamp(alert.effective),
+          expires: parseTimestamp(alert.expires),
+          description: alert.desc ?? "",
+          instruction: alert.instruction ?? "",
+        }))
+      ),
+      airQuality: query.airQuality && airQuality
+        ? toAirQuality(
+            {
+              pm2_5: numberOrNull(airQuality.pm2_5),
+              pm10: numberOrNull(airQuality.pm10),
+              o3: numberOrNull(airQuality.o3),
+              no2: numberOrNull(airQuality.no2),
+            },
+            numberOrNull(airQuality["us-epa-index"]),
+            numberOrNull(airQuality["gb-defra-index"])
+          )
+        : null,
+      astronomy: query.astronomy && today?.astro
+        ? {
+            sunrise: parseWeatherApiClockTime(today.date, today.astro.sunrise, data?.location?.tz_id),
+            sunset: parseWeatherApiClockTime(today.date, today.astro.sunset, data?.location?.tz_id),
+            moonPhase: normalizeMoonPhase(today.astro.moon_phase),
+            moonIllumination: numberOrNull(Number(today.astro.moon_illumination)),
+          }
+        : null,
+      fetchedAt: Date.now(),
+    };
+  },
+  searchLocations: async (text, keys) => {
+    const key = requireKey("weatherapi", { location: text, keys });
+    const data = await fetchJson(
+      "weatherapi",
+      `https://api.weatherapi.com/v1/search.json?key=${encodeURIComponent(key)}&q=${encodeURIComponent(text)}`
+    );
+    return validSuggestions(
+      (Array.isArray(data) ? data : []).map((result) => ({
+        name: result?.name,
+        region: result?.region ?? "",
+        country: result?.country ?? "",
+        lat: result?.lat,
+        lon: result?.lon,
+      }))
+    );
+  },
+};
+
+/* ------------------------------------------------------------------------
+ * Open-Meteo (https://open-meteo.com/), no key required
+ * ------------------------------------------------------------------------ */
+
+/**
+ * Map WMO weather interpretation codes (used by Open-Meteo) => WeatherAPI code, the texts are in Messages.conditions
+ */
+const WMO_CODES: Record<number, number> = {
+  0: 1000,
+  1: 1003,
+  2: 1006,
+  3: 1009,
+  45: 1135,
+  48: 1147,
+  51: 1150,
+  53: 1153,
+  55: 1153,
+  56: 1168,
+  57: 1171,
+  61: 1183,
+  63: 1189,
+  65: 1195,
+  66: 1198,
+  67: 1201,
+  71: 1213,
+  73: 1219,
+  75: 1225,
+  77: 1237,
+  80: 1240,
+  81: 1243,
+  82: 1246,
+  85: 1255,
+  86: 1258,
+  95: 1087,
+  96: 1273,
+  99: 1276,
+};
+
+export function mapWmoCode(code: number, messages: Messages): [number, string] {
+  return [WMO_CODES[code] ?? 0, messages.conditions[code] ?? ""];
+}
+
+/**
+ * The parts of an Open-Meteo geocoding result we use
+ */
+interface OpenMeteoGeocodingResult {
+  name: string;
+  admin1?: string;
+  country?: string;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Resolve a city name to coordinates/time zone with the Open-Meteo geocoding API
+ */
+async function geocodeOpenMeteo(name: string): Promise<WeatherLocation> {
+  const data = await fetchJson(
+    "openmeteo",
+    `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(name)}&count=1&format=json`,
+  );
+  const result = data?.results?.[0];
+  if (!result) {
+    throw new WeatherError("unknown-location", `No location found for "${name}"`, "openmeteo");
+  }
+  return {
+    name: result.name,
+    region: result.admin1 ?? "",
+    country: result.country ?? "",
+    tzId: result.timezone,
+    lat: result.latitude,
+    lon: result.longitude,
+  };
+}
+
+/**
+ * Current air quality from the Open-Meteo air quality API
+ */
+async function fetchOpenMeteoAirQuality(lat: number, lon: number): Promise<AirQuality> {
+  const data = await fetchJson(
+    "openmeteo",
+    `https://air-quality-api.open-meteo.com/v1/air-quality?latitude=${lat}&longitude=${lon}` +
+      "&current=us_aqi,pm10,pm2_5,nitrogen_dioxide,ozone"
+  );
+  const usAqi = numberOrNull(data?.current?.us_aqi);
+  return toAirQuality(
+    {
+      pm2_5: numberOrNull(data?.current?.pm2_5),
+      pm10: numberOrNull(data?.current?.pm10),
+      o3: numberOrNull(data?.current?.ozone),
+      no2: numberOrNull(data?.current?.nitrogen_dioxide),
+    },
+    usAqi === null ? null : epaIndexFromAqi(usAqi)
+  );
+}
+
+export const openMeteoProvider: WeatherProvider = {
+  id: "openmeteo",
+  label: "Open-Meteo",
+  requiresKey: false,
+  fetchSnapshot: async (query) => {
+    const coordinates = parseCoordinates(query.location);
+    const location = coordinates
+      ? { name: query.location, region: "", country: "", tzId: "", ...coordinates }
+      : await geocodeOpenMeteo(query.location);
+
+    const days = query.days ?? 0;
+    const hours = query.hours ?? 0;
+    const dailyFields = [
+      ...(days > 0 ? ["weather_code", "temperature_2m_max", "temperature_2m_min"] : []),
+      ...(query.astronomy ? ["sunrise", "sunset"] : []),
+    ];
+    const dailyParams = dailyFields.length > 0
+      ? `&daily=${dailyFields.join(",")}&forecast_days=${Math.max(days, 1)}`
+      : "";
+    const hourlyParams = hours > 0
+      ? `&hourly=temperature_2m,weather_code,is_day,precipitation_probability&forecast_hours=${hours + 1}`
+      : "";
+    const data = await fetchJson(
+      "openmeteo",
+      `https://api.open-meteo.com/v1/forecast?latitude=${location.lat}&longitude=${location.lon}` +
+        "&current=temperature_2m,weather_code,is_day,apparent_temperature,relative_humidity_2m,wind_speed_10m," +
+        "wind_direction_10m,wind_gusts_10m,uv_index,precipitation,pressure_msl,visibility" +
+        `${dailyParams}${hourlyParams}&timezone=auto`
+    );
+    const tempC = data?.current?.temperature_2m;
+    const feelsLikeC = numberOrNull(data?.current?.apparent_temperature);
+    const visibilityMeters = numberOrNull(data?.current?.visibility);
+    // Open-Meteo has no condition texts, they come from our catalog in the query's language
+    const messages = getMessages(query.language ?? "en");
+    const [conditionCode, conditionText] = mapWmoCode(data?.current?.weather_code, messages);
+    // Open-Meteo returns the daily and hourly values as parallel arrays
+    const daily = data?.daily;
+    const hourly = data?.hourly;
+    const tzId = location.tzId || data?.timezone;
+    const airQuality = query.airQuality
+      ? await optionalAirQuality("openmeteo", () => fetchOpenMeteoAirQuality(location.lat, location.lon))
+      : null;
+
+    return {
+      provider: "openmeteo",
+      location: { ...location, tzId },
+      current: {
+        tempC,
+        tempF: toFahrenheit(tempC),
+        conditionCode,
+        conditionText,
+        isDay: data?.current?.is_day === 1,
+        feelsLikeC,
+        feelsLikeF: fahrenheitOrNull(feelsLikeC),
+        humidity: numberOrNull(data?.current?.relative_humidity_2m),
+        windKph: numberOrNull(data?.current?.wind_speed_10m),
+        windDegree: numberOrNull(data?.current?.wind_direction_10m),
+        gustKph: numberOrNull(data?.current?.wind_gusts_10m),
+        uvIndex: numberOrNull(data?.current?.uv_index),
+        precipMm: numberOrNull(data?.current?.precipitation),
+        pressureMb: numberOrNull(data?.current?.pressure_msl),
+        visibilityKm: visibilityMeters === null ? null : visibilityMeters / 1000,
+      },
+      forecast: (days > 0 ? daily?.time ?? [] : []).map((date: string, i: number) => {
+        const [dayCode, dayText] = mapWmoCode(daily?.weather_code?.[i], messages);
+        return {
+          date,
+          maxTempC: daily?.temperature_2m_max?.[i],
+          maxTempF: toFahrenheit(daily?.temperature_2m_max?.[i]),
+          minTempC: daily?.temperature_2m_min?.[i],
+          minTempF: toFahrenheit(daily?.temperature_2m_min?.[i]),
+          conditionCode: dayCode,
+          conditionText: dayText,
+        };
+      }),
+      hourly: upcomingHours(
+        (hourly?.time ?? []).map((time: string, i: number) => {
+          const [hourCode, hourText] = mapWmoCode(hourly?.weather_code?.[i], messages);
+          return {
+            // Times are local to the location, without an offset
+            time: DateTime.fromISO(time, { zone: tzId }).toMillis(),
+            tempC: hourly?.temperature_2m?.[i],
+            tempF: toFahrenheit(hourly?.temperature_2m?.[i]),
+            conditionCode: hourCode,
+            conditionText: hourText,
+            isDay: hourly?.is_day?.[i] === 1,
+            chanceOfPrecipitation: hourly?.precipitation_probability?.[i] ?? 0,
+          };
+        }),
+        hours
+      ),
+      // Open-Meteo has no government alerts
+      alerts: [],
+      airQuality,
+      // No moon data on the free API
+      astronomy: query.astronomy
+        ? {
+            sunrise: parseLocalTimestamp(daily?.sunrise?.[0], tzId),
+            sunset: parseLocalTimestamp(daily?.sunset?.[0], tzId),
+            moonPhase: null,
+            moonIllumination: null,
+          }
+        : null,
+      fetchedAt: Date.now(),
+    };
+  },
+  searchLocations: async (text) => {
+    const data = await fetchJson(
+      "openmeteo",
+      `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(text)}&count=${MAX_SUGGESTIONS}&format=json`
+    );
+    return validSuggestions(
+      (Array.isArray(data?.results) ? (data.results as OpenMeteoGeocodingResult[]) : []).map((result) => ({
+        name: result?.name,
+        region: result?.admin1 ?? "",
+        country: result?.country ?? "",
+        lat: result?.latitude,
+        lon: result?.longitude,
+      }))
+    );
+  },
+};
+
+/* ------------------------------------------------------------------------
+ * OpenWeatherMap (https://openweathermap.org/)
+ * ------------------------------------------------------------------------ */
+
+/**
+ * Map OpenWeatherMap condition ids => WeatherAPI code
+ */
+export function mapOpenWeatherMapId(id: number): number {
+  if (id >= 200 && id <= 202) return 1276;
+  if (id >= 210 && id <= 221) return 1087;
+  if (id >= 230 && id <= 232) return 1273;
+  if (id >= 300 && id < 400) return 1153;
+  if (id === 500) return 1183;
+  if (id === 501) return 1189;
+  if (id >= 502 && id <= 504) return 1195;
+  if (id === 511) return 1201;
+  if (id === 520) return 1240;
+  if (id === 521) return 1243;
+  if (id === 522 || id === 531) return 1246;
+  if (id === 600) return 1213;
+  if (id === 601) return 1219;
+  if (id === 602) return 1225;
+  if (id >= 611 && id <= 616) return 1069;
+  if (id === 620) return 1255;
+  if (id === 621 || id === 622) return 1258;
+  if (id === 701) return 1030;
+  if (id === 741) return 1135;
+  if (id > 700 && id < 800) return 1030;
+  if (id === 800) return 1000;
+  if (id === 801) return 1003;
+  if (id === 802) return 1006;
+  if (id === 803 || id === 804) return 1009;
+  return 0;
+}
+
+/**
+ * OpenWeatherMap only returns a UTC offset in seconds, turn it into a Luxon fixed offset zone
+ */
+export function offsetToZone(offsetSeconds: number): string {
+  const sign = offsetSeconds < 0 ? "-" : "+";
+  const totalMinutes = Math.abs(Math.round(offsetSeconds / 60));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return minutes ? `UTC${sign}${hours}:${minutes.toString().padStart(2, "0")}` : `UTC${sign}${hours}`;
+}
+
+/**
+ * The parts of an OpenWeatherMap forecast step we use
+ */
+interface OpenWeatherMapStep {
+  dt: number;
+  main?: { temp?: number; temp_max?: number; temp_min?: number };
+  weather?: { id?: number; description?: string }[];
+  pop?: number; // probability of precipitation, 0-1
+  sys?: { pod?: string }; // part of day, "d" or "n"
+}
+
+/**
+ * OpenWeatherMap's free forecast is a list of 3-hour steps, group them into days
+ * (in the location's time zone) and keep the extremes and the condition around noon.
+ */
+export function aggregateOpenWeatherMapForecast(list: OpenWeatherMapStep[], offsetSeconds: number, days: number): ForecastDay[] {
+  const byDate = new Map<string, OpenWeatherMapStep[]>();
+  for (const step of list) {
+    const date = DateTime.fromSeconds(step.dt + offsetSeconds, { zone: "UTC" }).toISODate();
+    byDate.set(date, [...(byDate.get(date) ?? []), step]);
+  }
+
+  return Array.from(byDate.entries())
+    .slice(0, days)
+    .map(([date, steps]) => {
+      const maxTempC = Math.max(...steps.map((step) => step.main?.temp_max ?? NaN));
+      const minTempC = Math.min(...steps.map((step) => step.main?.temp_min ?? NaN));
+      const noon = steps.reduce((best, step) => {
+        const hour = DateTime.fromSeconds(step.dt + offsetSeconds, { zone: "UTC" }).hour;
+        const bestHour = DateTime.fromSeconds(best.dt + offsetSeconds, { zone: "UTC" }).hour;
+        return Math.abs(hour - 12) < Math.abs(bestHour - 12) ? step : best;
+      });
+      return {
+        date,
+        maxTempC,
+        maxTempF: celsiusToFahrenheit(maxTempC),
+        minTempC,
+        minTempF: celsiusToFahrenheit(minTempC),
+        conditionCode: mapOpenWeatherMapId(noon.weather?.[0]?.id ?? 0),
+        conditionText: noon.weather?.[0]?.description ?? "",
+      };
+    });
+}
+
+/**
+ * OpenWeatherMap's free plan has no hourly forecast, so every 3-hour step stands in for an hour slot
+ */
+export function openWeatherMapStepsToHours(list: OpenWeatherMapStep[], hours: number): ForecastHour[] {
+  return upcomingHours(
+    list.map((step) => ({
+      time: step.dt * 1000,
+      tempC: step.main?.temp as number,
+      tempF: toFahrenheit(step.main?.temp),
+      conditionCode: mapOpenWeatherMapId(step.weather?.[0]?.id ?? 0),
+      conditionText: step.weather?.[0]?.description ?? "",
+      isDay: step.sys?.pod !== "n",
+      chanceOfPrecipitation: Math.round((step.pop ?? 0) * 100),
+    })),
+    Math.ceil(hours / 3)
+  );
+}
+
+/**
+ * Current air quality from OpenWeatherMap's air pollution API, which only reports its own 1-5 index
+ */
+async function fetchOpenWeatherMapAirQuality(lat: number, lon: number, key: string): Promise<AirQuality> {
+  const data = await fetchJson(
+    "openweathermap",
+    `https://api.openweathermap.org/data/2.5/air_pollution?lat=${lat}&lon=${lon}&appid=${encodeURIComponent(key)}`
+  );
+  const components = data?.list?.[0]?.components;
+  return toAirQuality({
+    pm2_5: numberOrNull(components?.pm2_5),
+    pm10: numberOrNull(components?.pm10),
+    o3: numberOrNull(components?.o3),
+    no2: numberOrNull(components?.no2),
+  });
+}
+
+export const openWeatherMapProvider: WeatherProvider = {
+  id: "openweathermap",
+  label: "OpenWeatherMap",
+  requiresKey: true,
+  fetchSnapshot: async (query) => {
+    const key = requireKey("openweathermap", query);
+    const coordinates = parseCoordinates(query.location);
+    const locationParams = coordinates
+      ? `lat=${coordinates.lat}&lon=${coordinates.lon}`
+      : `q=${encodeURIComponent(query.location)}`;
+
+    const data = await fetchJson(
+      "openweathermap",
+      `https://api.openweathermap.org/data/2.5/weather?${locationParams}&units=metric&appid=${encodeURIComponent(key)}${languageParam(query)}`
+    );
+    const tempC = data?.main?.temp;
+    const feelsLikeC = numberOrNull(data?.main?.feels_like);
+    const weather = data?.weather?.[0];
+    // Wind is in m/s with metric units, visibility in meters
+    const toKph = (metersPerSecond: unknown) => (isFiniteNumber(metersPerSecond) ? metersPerSecond * 3.6 : null);
+    const visibilityMeters = numberOrNull(data?.visibility);
+
+    // The free plan has no daily endpoint, so the forecast is a second request (max. 5 days)
+    const days = Math.min(query.days ?? 0, 5);
+    const hours = query.hours ?? 0;
+    const forecast = days > 0 || hours > 0
+      ? await fetchJson(
+          "openweathermap",
+          `https://api.openweathermap.org/data/2.5/forecast?${locationParams}&units=metric&appid=${encodeURIComponent(key)}${languageParam(query)}`
+        )
+      : null;
+    // Air pollution is only available by coordinates, which the weather response includes
+    const airQuality = query.airQuality && isFiniteNumber(data?.coord?.lat) && isFiniteNumber(data?.coord?.lon)
+      ? await optionalAirQuality("openweathermap", () =>
+          fetchOpenWeatherMapAirQuality(data.coord.lat, data.coord.lon, key)
+        )
+      : null;
+
+    return {
+      provider: "openweathermap",
+      location: {
+        name: data?.name,
+        region: "",
+        country: data?.sys?.country ?? "",
+        tzId: typeof data?.timezone === "number" ? offsetToZone(data.timezone) : "",
+        lat: data?.coord?.lat,
+        lon: data?.coord?.lon,
+      },
+      current: {
+        tempC,
+        tempF: toFahrenheit(tempC),
+        conditionCode: mapOpenWeatherMapId(weather?.id),
+        conditionText: weather?.description ?? "",
+        isDay: typeof weather?.icon === "string" ? weather.icon.endsWith("d") : true,
+        feelsLikeC,
+        feelsLikeF: fahrenheitOrNull(feelsLikeC),
+        humidity: numberOrNull(data?.main?.humidity),
+        windKph: toKph(data?.wind?.speed),
+        windDegree: numberOrNull(data?.wind?.deg),
+        gustKph: toKph(data?.wind?.gust),
+        // UV is only part of the paid One Call API
+        uvIndex: null,
+        // Rain/snow are left out entirely when it's dry
+        precipMm: data?.main ? (data?.rain?.["1h"] ?? 0) + (data?.snow?.["1h"] ?? 0) : null,
+        pressureMb: numberOrNull(data?.main?.pressure),
+        visibilityKm: visibilityMeters === null ? null : visibilityMeters / 1000,
+      },
+      forecast: forecast
+        ? aggregateOpenWeatherMapForecast(forecast?.list ?? [], forecast?.city?.timezone ?? 0, days)
+        : [],
+      hourly: forecast ? openWeatherMapStepsToHours(forecast?.list ?? [], hours) : [],
+      // Alerts are only part of the paid One Call API
+      alerts: [],
+      airQuality,
+      // Sunrise/sunset are part of every weather response, the moon isn't
+      astronomy: query.astronomy
+        ? {
+            sunrise: isFiniteNumber(data?.sys?.sunrise) ? data.sys.sunrise * 1000 : null,
+            sunset: isFiniteNumber(data?.sys?.sunset) ? data.sys.sunset * 1000 : null,
+            moonPhase: null,
+            moonIllumination: null,
+          }
+        : null,
+      fetchedAt: Date.now(),
+    };
+  },
+  searchLocations: async (text, keys) => {
+    const key = requireKey("openweathermap", { location: text, keys });
+    const data = await fetchJson(
+      "openweathermap",
+      `https://api.openweathermap.org/geo/1.0/direct?q=${encodeURIComponent(text)}&limit=${MAX_SUGGESTIONS}&appid=${encodeURIComponent(key)}`
+    );
+    // The country is an ISO code here, e.g. "US"
+    return validSuggestions(
+      (Array.isArray(data) ? data : []).map((result) => ({
+        name: result?.name,
+        region: result?.state ?? "",
+        country: result?.country ?? "",
+        lat: result?.lat,
+        lon: result?.lon,
+      }))
+    );
+  },
+};
+
+/**
+ * All known providers, keyed by id
+ */
+export const weatherProviders: Record<WeatherProviderId, WeatherProvider> = {
+  weatherapi: weatherApiProvider,
+  openmeteo: openMeteoProvider,
+  openweathermap: openWeatherMapProvider,
+};
+
+/**
+ * Look up a provider by its configured id, falls back to WeatherAPI for unknown values
+ */
+export function getWeatherProvider(id: string | undefined): WeatherProvider {
+  return weatherProviders[id as WeatherProviderId] ?? weatherApiProvider;
+}
+
+/**
+ * Make sure a snapshot is plausible before it's shown to anybody.
+ * Throws a malformed-response WeatherError describing the first problem found.
+ */
+export function validateSnapshot(snapshot: WeatherSnapshot): WeatherSnapshot {
+  const { provider, location, current } = snapshot;
+  const fail = (reason: string): never => {
+    throw new WeatherError("malformed-response", `Invalid data received: ${reason}`, provider);
+  };
+
+  if (!location || typeof location.name !== "string" || location.name.trim() === "") fail("missing location name");
+  if (!location.tzId || !DateTime.now().setZone(location.tzId).isValid) fail(`invalid time zone "${location.tzId}"`);
+  if (!current) fail("missing current conditions");
+  // Coldest and hottest temperatures ever recorded, with some margin
+  if (!isFiniteNumber(current.tempC) || current.tempC < -95 || current.tempC > 60) {
+    fail(`implausible temperature ${current.tempC}`);
+  }
+  if (!isFiniteNumber(current.tempF)) fail(`implausible temperature ${current.tempF}`);
+  if (!isFiniteNumber(current.conditionCode)) fail("missing condition code");
+  if (current.feelsLikeC === undefined) fail("missing current details");
+  if (!Array.isArray(snapshot.forecast)) fail("missing forecast");
+  for (const day of snapshot.forecast) {
+    if (!DateTime.fromISO(day.date).isValid) fail(`invalid forecast date "${day.date}"`);
+    if (![day.maxTempC, day.maxTempF, day.minTempC, day.minTempF].every(isFiniteNumber)) {
+      fail(`implausible forecast temperature for ${day.date}`);
+    }
+  }
+  if (!Array.isArray(snapshot.hourly)) fail("missing hourly forecast");
+  for (const hour of snapshot.hourly) {
+    if (!isFiniteNumber(hour.time)) fail("invalid hourly forecast time");
+    if (!isFiniteNumber(hour.tempC) || !isFiniteNumber(hour.tempF)) fail("implausible hourly forecast temperature");
+  }
+  if (!Array.isArray(snapshot.alerts)) fail("missing alerts");
+  for (const alert of snapshot.alerts) {
+    if (typeof alert.headline !== "string" || alert.headline.trim() === "") fail("alert without headline");
+  }
+  if (snapshot.airQuality === undefined) fail("missing air quality");
+  if (snapshot.astronomy === undefined) fail("missing astronomy");
+
+  return snapshot;
+}
+
+/**
+ * Fetch a validated snapshot from the provider, anything thrown is a WeatherError
+ */
+async function fetchValidSnapshot(provider: WeatherProvider, query: WeatherQuery): Promise<WeatherSnapshot> {
+  try {
+    return validateSnapshot(await provider.fetchSnapshot(query));
+  } catch (error) {
+    throw toWeatherError(error, provider.id);
+  }
+}
+
+/**
+ * Fetch a validated snapshot from the primary provider, and retry with the secondary one
+ * if the primary errors, runs out of quota, or returns data that doesn't validate.
+ * If both fail, the primary provider's error is thrown, since that's the one to fix.
+ */
+export async function fetchWeatherSnapshot(
+  query: WeatherQuery,
+  primary: WeatherProvider,
+  secondary?: WeatherProvider
+): Promise<WeatherSnapshot> {
+  try {
+    return await fetchValidSnapshot(primary, query);
+  } catch (primaryError) {
+    if (!secondary || secondary.id === primary.id) {
+      throw primaryError;
+    }
+    console.warn(`Weather provider ${primary.id} failed, falling back to ${secondary.id}:`, primaryError);
+    try {
+      return await fetchValidSnapshot(secondary, query);
+    } catch (secondaryError) {
+      console.warn(`Fallback weather provider ${secondary.id} failed as well:`, secondaryError);
+      throw primaryError;
+    }
+  }
+}
+
+/**
+ * Suggest places for a search text from the primary provider, or the secondary one if the
+ * primary fails. Suggestions are a convenience, so this resolves to no suggestions instead of throwing.
+ */
+export async function searchLocations(
+  text: string,
+  keys: WeatherQuery["keys"],
+  primary: WeatherProvider,
+  secondary?: WeatherProvider
+): Promise<LocationSuggestion[]> {
+  const providers = secondary && secondary.id !== primary.id ? [primary, secondary] : [primary];
+  for (const provider of providers) {
+    try {
+      return await provider.searchLocations(text, keys);
+    } catch (error) {
+      console.warn(`Location search with ${provider.id} failed:`, error);
+    }
+  }
+  return [];
+}
@@ -0,0 +1,582 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+
+/**
+ * Stylesheet of the widget
+ * ------------------------------------------------------------------------
+ * The layout of the widget in all its modes (single city, forecast, hourly, clock
+ * and world clock), as classes instead of inline styles, so it can be adjusted
+ * without forking. Customers can set these custom properties on the
+ * `weather-time` element (they inherit into the Shadow DOM as well):
+ *
+ *   --weather-time-font-family      font of the widget (default: the page's)
+ *   --weather-time-padding          space around the widget (10px)
+ *   --weather-time-temp-size        temperature (32px in the banner, 26px in the card; 1.25 times as large when wide),
+ *                                   and the time in clock mode (32px, 26px compact, 40px wide)
+ *   --weather-time-date-size        date and time, messages (16px); the text of forecast days, hourly slots
+ *                                   and world clock rows (14px, 13px and 14px)
+ *   --weather-time-note-size        secondary lines, e.g. the time difference (12px)
+ *   --weather-time-icon-size        weather icon width (165px, 230px with the new icons; 105/130px in the card;
+ *                                   1.25 times as wide when wide); the icons of forecast days, hourly slots
+ *                                   and world clock rows (48px, 40px and 32px)
+ *   --weather-time-text, --weather-time-background, --weather-time-accent, --weather-time-track,
+ *   --weather-time-surface, --weather-time-surface-text, --weather-time-border,
+ *   --weather-time-highlight, --weather-time-overlay
+ *                                   colors, default to the color scheme's (see theme.ts)
+ *
+ * The container has a class for its layout (weather-time--banner, --card, --chip, --hero, see layouts.tsx)
+ * and one for its size (weather-time--compact, --standard, --wide, see container-layout.ts).
+ *
+ * With the Shadow DOM render root, the parts can be styled with `weather-time::part(<name>)`:
+ * container, temperature, time (clock mode), date-time, time-difference, icon, error, retry, menu-button, popup.
+ */
+
+export const WEATHER_TIME_STYLES = `
+.weather-time {
+  /* How much larger the temperature and icon are (and the icon's margins, which offset the images' padding) */
+  --weather-time-scale: 1;
+  display: flex;
+  flex-direction: row;
+  flex-wrap: nowrap;
+  justify-content: space-between;
+  align-items: flex-start;
+  position: relative;
+  padding: var(--weather-time-padding, 10px);
+  font-family: var(--weather-time-font-family, inherit);
+  text-align: start;
+  color: var(--weather-time-text, var(--weather-time-theme-text));
+  background-color: var(--weather-time-background, var(--weather-time-theme-background));
+}
+.weather-time--wide {
+  --weather-time-scale: 1.25;
+}
+/* Let full-width rows (alerts, forecast, hourly timeline) wrap onto their own lines */
+.weather-time--wrap {
+  flex-wrap: wrap;
+}
+/* The card stacks the icon on top of the temperature, at the end of the line */
+.weather-time--card {
+  flex-direction: column;
+  justify-content: flex-end;
+  align-items: flex-end;
+  text-align: end;
+}
+
+.weather-time__temperature {
+  cursor: pointer;
+  font-size: var(--weather-time-temp-size, calc(32px * var(--weather-time-scale)));
+  font-weight: bold;
+  margin: 0 0 10px 0;
+}
+.weather-time--card .weather-time__temperature {
+  font-size: var(--weather-time-temp-size, calc(26px * var(--weather-time-scale)));
+  font-weight: 500;
+  margin: 0;
+  margin-inline-end: 15px;
+}
+.weather-time--card.weather-time--new-images .weather-time__temperature {
+  margin-inline-end: 33px;
+}
+
+.weather-time__main--new-images {
+  margin-bottom: calc(-15px * var(--weather-time-scale));
+}
+.weather-time__date-time,
+.weather-time__message {
+  font-size: var(--weather-time-date-size, 16px);
+  margin: 0 0 10px 0;
+}
+.weather-time__note {
+  font-size: var(--weather-time-note-size, 12px);
+  opacity: 0.7;
+  margin: 0 0 10px 0;
+}
+.weather-time__time-difference {
+  margin-top: -6px;
+}
+.weather-time__error {
+  flex-basis: 100%;
+}
+
+.weather-time__icon-box {
+  cursor: pointer;
+  margin-bottom: 10px;
+}
+.weather-time--new-images .weather-time__icon-box {
+  margin-bottom: 0;
+}
+.weather-time__icon {
+  width: var(--weather-time-icon-size, calc(105px * var(--weather-time-scale)));
+}
+.weather-time--new-images .weather-time__icon {
+  width: var(--weather-time-icon-size, calc(130px * var(--weather-time-scale)));
+}
+.weather-time__icon-side {
+  display: flex;
+  align-items: center;
+  margin-top: calc(-20px * var(--weather-time-scale));
+  margin-inline-start: calc(20px * var(--weather-time-scale));
+}
+.weather-time__icon-side .weather-time__icon {
+  width: var(--weather-time-icon-size, calc(165px * var(--weather-time-scale)));
+  margin-top: calc(-60px * var(--weather-time-scale));
+  margin-inline-start: calc(-5px * var(--weather-time-scale));
+}
+.weather-time--new-images .weather-time__icon-side .weather-time__icon {
+  width: var(--weather-time-icon-size, calc(230px * var(--weather-time-scale)));
+  margin-top: calc(-65px * var(--weather-time-scale));
+  margin-inline-start: calc(-10px * var(--weather-time-scale));
+}
+
+.weather-time__chip {
+  display: inline-flex;
+  align-items: center;
+  gap: 6px;
+  padding-block: 2px;
+  padding-inline: 4px 12px;
+  border: 1px solid var(--weather-time-border, var(--weather-time-theme-border));
+  border-radius: 999px;
+}
+.weather-time .weather-time__chip .weather-time__icon {
+  width: var(--weather-time-icon-size, calc(40px * var(--weather-time-scale)));
+}
+.weather-time__chip .weather-time__temperature {
+  font-size: var(--weather-time-temp-size, calc(20px * var(--weather-time-scale)));
+  margin: 0;
+}
+
+.weather-time__hero {
+  display: flex;
+  flex-direction: column;
+  flex-basis: 100%;
+}
+.weather-time__hero .weather-time__date-time {
+  font-size: var(--weather-time-date-size, calc(18px * var(--weather-time-scale)));
+  font-weight: 500;
+}
+.weather-time__hero-main {
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 16px;
+}
+.weather-time__hero .weather-time__temperature {
+  font-size: var(--weather-time-temp-size, calc(56px * var(--weather-time-scale)));
+  margin: 0;
+}
+.weather-time .weather-time__hero .weather-time__icon {
+  width: var(--weather-time-icon-size, calc(150px * var(--weather-time-scale)));
+  margin-block: calc(-20px * var(--weather-time-scale));
+}
+.weather-time__hero-city {
+  font-size: var(--weather-time-date-size, 16px);
+  opacity: 0.8;
+  margin: 0 0 10px 0;
+}
+
+.weather-time__forecast {
+  display: flex;
+  flex-basis: 100%;
+  justify-content: space-between;
+  gap: 12px;
+  margin-top: 10px;
+}
+/* On narrow layouts the row scrolls instead of squeezing the days */
+.weather-time__forecast--compact {
+  overflow-x: auto;
+  gap: 8px;
+}
+.weather-time__forecast-day {
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  min-width: 60px;
+}
+.weather-time__forecast--compact .weather-time__forecast-day {
+  min-width: 48px;
+}
+.weather-time__forecast-name,
+.weather-time__forecast-temperature {
+  font-size: var(--weather-time-date-size, 14px);
+  margin: 0;
+}
+.weather-time__forecast-name {
+  font-weight: bold;
+}
+.weather-time__forecast--compact .weather-time__forecast-name {
+  font-size: var(--weather-time-date-size, 13px);
+}
+.weather-time__forecast--compact .weather-time__forecast-temperature {
+  font-size: var(--weather-time-date-size, 12px);
+}
+.weather-time__forecast-icon {
+  width: var(--weather-time-icon-size, 48px);
+}
+.weather-time__forecast--compact .weather-time__forecast-icon {
+  width: var(--weather-time-icon-size, 36px);
+}
+
+.weather-time__hourly {
+  flex-basis: 100%;
+  overflow-x: auto;
+  margin-top: 10px;
+}
+.weather-time__sparkline {
+  display: block;
+}
+.weather-time__hourly-slots {
+  display: flex;
+}
+.weather-time__hourly-slot {
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  flex: 0 0 var(--weather-time-slot-width);
+  font-size: var(--weather-time-date-size, 13px);
+}
+.weather-time__hourly--compact .weather-time__hourly-slot {
+  font-size: var(--weather-time-date-size, 12px);
+}
+.weather-time__hourly-slot p {
+  margin: 0;
+}
+.weather-time__hourly-icon {
+  width: var(--weather-time-icon-size, 40px);
+}
+.weather-time__hourly--compact .weather-time__hourly-icon {
+  width: var(--weather-time-icon-size, 32px);
+}
+.weather-time__hourly-temperature {
+  font-weight: bold;
+}
+.weather-time__hourly-precipitation {
+  opacity: 0.7;
+}
+
+.weather-time__details {
+  display: grid;
+  grid-template-columns: auto auto;
+  justify-content: start;
+  column-gap: 8px;
+  row-gap: 2px;
+  font-size: var(--weather-time-note-size, 12px);
+  margin: 0 0 10px 0;
+}
+.weather-time__details--compact {
+  justify-content: end;
+}
+.weather-time__detail-label {
+  opacity: 0.7;
+}
+.weather-time__detail-value {
+  margin: 0;
+}
+.weather-time__wind-arrow {
+  display: inline-block;
+  margin-inline-start: 4px;
+}
+
+.weather-time__alerts {
+  flex-basis: 100%;
+  margin-bottom: 10px;
+  text-align: start;
+}
+.weather-time__alert {
+  --weather-time-severity-color: #767676;
+  border-inline-start: 4px solid var(--weather-time-severity-color);
+  padding: 6px 10px;
+  margin-bottom: 6px;
+}
+.weather-time__alert--minor {
+  --weather-time-severity-color: #f5bd66;
+}
+.weather-time__alert--moderate {
+  --weather-time-severity-color: #f3af45;
+}
+.weather-time__alert--severe {
+  --weather-time-severity-color: #f1493d;
+}
+.weather-time__alert--extreme {
+  --weather-time-severity-color: #b0170d;
+}
+.weather-time__alert-title {
+  margin: 0;
+  font-size: 14px;
+}
+.weather-time__alert-badge {
+  background-color: var(--weather-time-severity-color);
+  color: #fff;
+  border-radius: 3px;
+  padding: 1px 6px;
+  margin-inline-end: 6px;
+  font-size: 12px;
+  font-weight: bold;
+}
+.weather-time__alert-time {
+  margin: 4px 0 0 0;
+  font-size: 12px;
+  opacity: 0.8;
+}
+.weather-time__alert-toggle {
+  margin-top: 4px;
+  font-size: 12px;
+}
+.weather-time__alert-details {
+  font-size: 12px;
+  white-space: pre-line;
+  margin-top: 4px;
+}
+.weather-time__alert-details p {
+  margin: 0 0 4px 0;
+}
+.weather-time__alert-details p:last-child {
+  margin: 0;
+}
+
+.weather-time__air-quality {
+  font-size: var(--weather-time-note-size, 12px);
+  margin: 4px 0;
+  text-align: start;
+}
+.weather-time__air-quality-index {
+  margin-inline-end: 6px;
+}
+.weather-time__air-quality-badge {
+  border-radius: 3px;
+  padding: 1px 6px;
+  font-weight: bold;
+}
+.weather-time__air-quality-toggle {
+  margin-inline-start: 6px;
+  font-size: 12px;
+}
+.weather-time__pollutants {
+  list-style: none;
+  padding: 0;
+  margin: 4px 0 0 0;
+}
+
+.weather-time__astronomy {
+  flex-basis: 100%;
+  font-size: var(--weather-time-note-size, 12px);
+  margin-top: 10px;
+  text-align: start;
+}
+.weather-time__astronomy-times {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 12px;
+}
+.weather-time__moon {
+  display: flex;
+  align-items: center;
+  gap: 4px;
+}
+.weather-time__daylight {
+  height: 4px;
+  border-radius: 2px;
+  margin: 6px 0 4px 0;
+  background-color: var(--weather-time-track, var(--weather-time-theme-track));
+}
+.weather-time__daylight-bar {
+  height: 100%;
+  border-radius: 2px;
+  background-color: var(--weather-time-accent, var(--weather-time-theme-accent));
+}
+.weather-time__daylight-label {
+  opacity: 0.8;
+}
+
+/* Clock mode: the time above the date */
+.weather-time--clock {
+  flex-direction: column;
+}
+.weather-time--clock.weather-time--compact {
+  align-items: flex-end;
+  text-align: end;
+}
+.weather-time__clock-time {
+  font-size: var(--weather-time-temp-size, calc(32px * var(--weather-time-scale)));
+  font-weight: bold;
+  margin: 0 0 10px 0;
+}
+.weather-time--compact .weather-time__clock-time {
+  font-size: var(--weather-time-temp-size, 26px);
+}
+.weather-time__clock-date {
+  font-size: var(--weather-time-date-size, 16px);
+  margin: 0;
+}
+.weather-time .weather-time__clock-note {
+  margin: 5px 0 0 0;
+}
+
+/* World clock mode: one row per city */
+.weather-time--world-clock {
+  display: block;
+}
+.weather-time__world-clock {
+  list-style: none;
+  margin: 0;
+  padding: 0;
+}
+.weather-time__world-clock-row {
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  padding: 4px 0;
+  font-size: var(--weather-time-date-size, calc(14px * var(--weather-time-scale)));
+}
+.weather-time__world-clock-icon {
+  flex-shrink: 0;
+  width: var(--weather-time-icon-size, calc(32px * var(--weather-time-scale)));
+}
+.weather-time--compact .weather-time__world-clock-icon {
+  display: none;
+}
+.weather-time__world-clock-city {
+  flex: 1;
+  font-weight: bold;
+}
+.weather-time__world-clock-offset {
+  font-size: var(--weather-time-note-size, 12px);
+  opacity: 0.7;
+  margin-inline-start: 4px;
+}
+.weather-time__world-clock-temperature {
+  cursor: pointer;
+  min-width: 48px;
+  padding: 0;
+  border: none;
+  background: none;
+  color: inherit;
+  font: inherit;
+  text-align: end;
+}
+
+.weather-time__menu-button {
+  position: absolute;
+  bottom: 5px;
+  inset-inline-end: 5px;
+  cursor: pointer;
+  opacity: 0.5;
+}
+.weather-time__menu-button p,
+.weather-time__popup p {
+  margin: 1em 0;
+}
+.weather-time__overlay {
+  position: absolute;
+  inset-inline-start: 0;
+  width: 100%;
+  height: 100%;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  z-index: 9999;
+  background-color: var(--weather-time-overlay, var(--weather-time-theme-overlay));
+}
+.weather-time__popup {
+  padding: 20px;
+  border-radius: 6px;
+  min-width: 250px;
+  color: var(--weather-time-surface-text, var(--weather-time-theme-surface-text));
+  background-color: var(--weather-time-surface, var(--weather-time-theme-surface));
+}
+.weather-time__popup .weather-time__popup-note {
+  font-size: 12px;
+}
+.weather-time__popup-ok {
+  margin-bottom: 10px;
+}
+.weather-time__units {
+  display: block;
+  font-size: 12px;
+  margin-bottom: 10px;
+}
+.weather-time__reset {
+  font-size: 12px;
+}
+
+.weather-time__search {
+  position: relative;
+}
+.weather-time__search-input {
+  width: 100%;
+  margin: 10px 0;
+}
+.weather-time__suggestions {
+  position: absolute;
+  top: 100%;
+  left: 0;
+  right: 0;
+  margin: -10px 0 0 0;
+  padding: 0;
+  list-style: none;
+  z-index: 1;
+  text-align: start;
+  color: var(--weather-time-surface-text, var(--weather-time-theme-surface-text));
+  background-color: var(--weather-time-surface, var(--weather-time-theme-surface));
+  border: 1px solid var(--weather-time-border, var(--weather-time-theme-border));
+}
+.weather-time__suggestion {
+  padding: 4px 6px;
+  cursor: pointer;
+}
+.weather-time__suggestion--active {
+  background-color: var(--weather-time-highlight, var(--weather-time-theme-highlight));
+}
+.weather-time__suggestion-detail {
+  font-size: 12px;
+  opacity: 0.7;
+}
+
+/* Editor only: where the city came from, and the layouts to pick from */
+.weather-time__source-note {
+  font-size: 11px;
+  opacity: 0.7;
+  margin: 4px 0 0 0;
+}
+.weather-time__layout-previews {
+  display: flex;
+  gap: 8px;
+  list-style: none;
+  margin: 4px 0 0 0;
+  padding: 0;
+  font-size: 11px;
+}
+.weather-time__layout-preview {
+  text-align: center;
+  opacity: 0.5;
+}
+.weather-time__layout-preview[aria-current="true"] {
+  opacity: 1;
+}
+`;
+
+const STYLE_ELEMENT_ID = "weather-time-styles";
+
+/**
+ * Add the stylesheet to the page, or to a widget's shadow root. Only once per root.
+ */
+export function installStyles(root: Document | ShadowRoot): void {
+  const parent = root instanceof Document ? root.head : root;
+  if (parent.querySelector(`#${STYLE_ELEMENT_ID}`)) return;
+  const style = (root instanceof Document ? root : root.ownerDocument).createElement("style");
+  style.id = STYLE_ELEMENT_ID;
+  style.textContent = WEATHER_TIME_STYLES;
+  parent.appendChild(style);
+}
@@ -2,6 +2,8 @@ import React from "react"
 import {screen, render} from "@testing-library/react"
 
 import {WeatherTime} from "./weather-time";
+import {clearWeatherCache} from "./weather-cache";
+import {widgetProps} from "./test-helpers";
 
 describe("WeatherTime", () => {
     it("should render the component", () => {
@@ -9,4 +11,39 @@ describe("WeatherTime", () => {
 
         expect(screen.getByText(/Hello World/)).toBeInTheDocument();
     })
+
+    describe("when the weather can't be loaded", () => {
+        const props = widgetProps();
+
+        beforeEach(() => {
+            clearWeatherCache();
+            global.fetch = jest.fn(() => Promise.reject(new TypeError("Failed to fetch")));
+            jest.spyOn(console, "error").mockImplementation(() => undefined);
+        });
+
+        it("should show a neutral message and no made-up weather", async () => {
+            render(<WeatherTime {...props}/>);
+
+            expect(await screen.findByRole("alert")).toHaveTextContent("Weather couldn't be loaded. Check your connection and try again.");
+            expect(screen.getByRole("button", {name: "Retry"})).toBeInTheDocument();
+            expect(screen.queryByText(/°[CF]/)).not.toBeInTheDocument();
+        })
+
+        it("should keep the clock running from the offline time zone", async () => {
+            jest.useFakeTimers({now: Date.UTC(2024, 10, 26, 14, 5), doNotFake: ["setTimeout", "queueMicrotask"]});
+            render(<WeatherTime {...props} city="Tokyo"/>);
+
+            // Before the weather request finished, and after it failed
+            expect(screen.getByText("Nov 26th, 11:05pm")).toBeInTheDocument();
+            expect(await screen.findByRole("alert")).toHaveTextContent("Nov 26th, 11:05pm");
+            jest.useRealTimers();
+        })
+
+        it("should show the details to editors", async () => {
+            render(<WeatherTime {...props} isEditor={true}/>);
+
+            expect(await screen.findByText(/couldn't be reached/)).toBeInTheDocument();
+            expect(screen.getByText("weatherapi: Failed to fetch")).toBeInTheDocument();
+        })
+    })
 })
@@ -11,165 +11,187 @@
  * limitations under the License.
  */
 
-import React, { ReactElement, useState, useEffect, useRef } from "react";
+import React, { ReactElement, SyntheticEvent, useState, useEffect, useRef, useContext } from "react";
 import { BlockAttributes } from "widget-sdk";
 import { DateTime } from "luxon";
+import {
+  AirQuality,
+  Astronomy,
+  CurrentConditions,
+  fetchWeatherSnapshot,
+  ForecastDay,
+  ForecastHour,
+  getWeatherProvider,
+  LocationSuggestion,
+  normalizeSeverity,
+  searchLocations,
+  WeatherAlert,
+  WeatherSnapshot,
+} from "./weather-providers";
+import { fetchWeatherCached, isStale, readCachedWeather, weatherCacheKey } from "./weather-cache";
+import { useRefreshScheduler } from "./refresh-scheduler";
+import { toWeatherError, WeatherError, weatherErrorMessages } from "./weather-errors";
+import { getIconFilename, getImageBasePath, getTimeOfDay } from "./weather-icons";
+import { ForecastRow } from "./forecast";
+import { HourlyTimeline } from "./hourly-forecast";
+import { AlertsBanner, filterAlerts } from "./weather-alerts";
+import { AirQualityBadge } from "./air-quality";
+import { AstronomyPanel } from "./astronomy";
+import { DEFAULT_DETAIL_FIELDS, parseDetailFields, WeatherDetails } from "./weather-details";
+import { parseWorldClockLocations, WorldClock } from "./world-clock";
+import { Clock } from "./clock";
+import { confirmTimeZone, findCity, resolveTimeZone } from "./city-time-zones";
+import { formatCoordinates, useGeolocation } from "./geolocation";
+import { CitySearch, formatSuggestion } from "./city-search";
+import { clearPreferences, preferencesKey, readPreferences, updatePreferences, useCurrentUserId } from "./preferences";
+import { WidgetHostContext } from "./widget-host";
+import { hasProfilePlaceholder, parseDepartmentLocations, ResolvedCity, resolveCity, useUserProfile } from "./profile-location";
+import { toLocale } from "./locale";
+import { ThemeContext, themeProperties, useThemeTokens } from "./theme";
+import { formatTimeDifference, getTimeDifference } from "./time-difference";
+import { formatMessage, getMessages, isRightToLeft, toLanguage } from "./messages";
+import { useCurrentTime } from "./current-time";
+import { formatDateTime, showsSeconds } from "./date-time-format";
+import { DEFAULT_BREAKPOINTS, LayoutSize, parseBreakpoints, useContainerLayout } from "./container-layout";
+import { LayoutPreviews, LayoutViewModel, resolveLayout } from "./layouts";
+import {
+  isUnitSystemId,
+  resolveUnitSystem,
+  UnitSystem,
+  UnitSystemId,
+  unitSystemForCountry,
+  unitSystemForLocale,
+} from "./units";
 
 /**
- * Map WeatherAPI `code` + day/night => custom SVG filenames
- * ------------------------------------------------------------------------
- * WeatherAPI returns a numeric `code` for the condition (e.g., 1000 for "Clear"),
- * plus an indication of day or night. This function maps those to the custom
- * SVG filename that should be displayed in the UI.
+ * The React component properties
  */
-function getIconFilename(code: number, timeOfDay: "day" | "night"): string {
-  switch (code) {
-    case 1000:
-      return timeOfDay === "day" ? "sunny.svg" : "clear-moon.svg";
-    case 1003:
-      return timeOfDay === "day" ? "partly-cloudy-sun.svg" : "partly-cloudy-moon.svg";
-    case 1006:
-      return "cloudy.svg";
-    case 1009:
-      return "double-clouds.svg";
-    case 1030:
-    case 1135:
-    case 1147:
-      return "double-clouds.svg";
-    case 1063:
-    case 1072:
-    case 1150:
-    case 1153:
-    case 1168:
-    case 1171:
-      return timeOfDay === "day" ? "drizzle.svg" : "drizzle-moon.svg";
-    case 1180:
-    case 1183:
-    case 1186:
-    case 1189:
-    case 1192:
-    case 1195:
-    case 1198:
-    case 1201:
-    case 1240:
-    case 1243:
-    case 1246:
-      return "rain.svg";
-    case 1066:
-    case 1069:
-    case 1114:
-    case 1117:
-    case 1204:
-    case 1207:
-    case 1210:
-    case 1213:
-    case 1216:
-    case 1219:
-    case 1222:
-    case 1225:
-    case 1237:
-    case 1249:
-    case 1252:
-    case 1255:
-    case 1258:
-    case 1261:
-    case 1264:
-      return "snow.svg";
-    case 1087:
-    case 1273:
-    case 1276:
-    case 1279:
-    case 1282:
-      return "thunderstorm.svg";
-    default:
-      return "default.svg";
-  }
+export interface WeatherTimeProps extends BlockAttributes {
+  city: string; // The city for which to display weather/time
+  apikey: string; // WeatherAPI key
+  allowcityoverride: boolean;
+  persistpreferences: boolean | string; // Whether the user's city override and C/F choice are remembered
+  mobileview: boolean; // Forces the compact layout, otherwise it goes by the container's width
+  compactbreakpoint: number | string; // Container width (px) below which the layout is compact
+  widebreakpoint: number | string; // Container width (px) from which the layout is wide
+  usenewimages: boolean;
+  showordinalsuffix: boolean; // Whether to show ordinal days in the date, in languages that use them
+  datetimeformat: string; // Custom Luxon format for the date and time, empty for the locale's default
+  showtimedifference: boolean | string; // Whether to show how far the city's time is from the viewer's
+  colorscheme: string; // "light" (the default), "dark", "auto" (the reader's light/dark mode) or "theme" (the app's colors)
+  shadowdom: boolean | string; // Whether to render into a shadow root, away from the page's CSS (see index.tsx)
+  layout: string; // "auto" (card or banner by the container's width), "banner", "card", "chip" or "hero"
+  provider: string; // Primary weather provider id, see weather-providers.ts
+  fallbackprovider: string; // Provider to fail over to, or "none"
+  openweathermapkey: string; // OpenWeatherMap key
+  mode: string; // "current", "forecast" or "hourly"
+  forecastdays: number | string; // Number of forecast days (3-7) in forecast mode
+  forecasthours: number | string; // Number of forecast hours (12-24) in hourly mode
+  cachettl: number | string; // Minutes before cached weather is refreshed
+  refreshinterval: number | string; // Minutes between automatic refreshes, 0 disables them
+  showalerts: boolean | string; // Whether to show government weather alerts
+  alertminseverity: string; // Minimum alert severity to show ("Unknown" for all, "Minor", "Moderate", "Severe", "Extreme")
+  showairquality: boolean | string; // Whether to show the air quality index
+  airqualityindex: string; // "us-epa" or "gb-defra"
+  showastronomy: boolean | string; // Whether to show sunrise/sunset, daylight left and the moon phase
+  detailfields: string; // Comma-separated detail fields to show under the temperature, in order (a configured array arrives joined)
+  unitsystem: string; // "auto", "metric", "imperial" or "mixed"
+  unitsbasis: string; // What "auto" units go by: "city" (the city's country), "viewer" (contentLanguage) or "profile"
+  windunit: string; // "auto" (by the unit system), "kmh", "mph", "ms" or "kn"
+  locationsource: string; // "city" (fixed city), "profile" (user profile placeholder) or "geolocation"
+  departmentlocations: string; // One "department | city" per line, for users whose profile has no location
+  defaultcity: string; // City when neither the profile nor the department mapping gives one
+  timezone: string; // Clock mode: IANA time zone, falls back to looking up `city` in the bundled table
+  worldclocklocations: string; // World clock mode: one "location | label" per line
+  worldclocksort: string; // World clock mode: "offset" or "custom"
+  isEditor: boolean; // Set when rendered in the editor, shows detailed error messages
 }
 
-/**
- * Format a Luxon DateTime object into a short string, e.g.:
- * "Nov 26th, 9:05am" or "Nov 26, 9:05am" (depending on showSuffix)
- */
-function formatDateTime(dt: DateTime, showSuffix: boolean = true): string {
-  // Example: dt.toFormat("LLL") => short month name like "Nov"
-  const monthShort = dt.toFormat("LLL");
-  // The numeric day of the month, e.g. 26
-  const day = dt.day;
-  // 24-hour value; we'll convert to 12-hour below.
-  const hours24 = dt.hour;
-  // Convert to 12-hour format (1-12)
-  const hours12 = hours24 % 12 || 12;
-  // Get the minutes
-  const minutes = dt.minute;
-  // AM/PM check
-  const ampm = hours24 >= 12 ? "pm" : "am";
-
-  // For ordinal suffix (st, nd, rd, th),
-  // e.g. 1 -> 1st, 2 -> 2nd, 3 -> 3rd, 4 -> 4th, etc.
-  function getOrdinalSuffix(n: number): string {
-    if (n % 10 === 1 && n % 100 !== 11) return "st";
-    if (n % 10 === 2 && n % 100 !== 12) return "nd";
-    if (n % 10 === 3 && n % 100 !== 13) return "rd";
-    return "th";
-  }
-  const suffix = showSuffix ? getOrdinalSuffix(day) : "";
 
-  // Pad minutes to 2 digits (e.g., "05" if it's 5 minutes after the hour)
-  const minStr = minutes.toString().padStart(2, "0");
+// Range of forecast days/hours the widget supports
+const MIN_FORECAST_DAYS = 3;
+const MAX_FORECAST_DAYS = 7;
+const MIN_FORECAST_HOURS = 12;
+const MAX_FORECAST_HOURS = 24;
 
-  // Build up the final string, e.g. "Nov 26th, 9:05am"
-  return `${monthShort} ${day}${suffix}, ${hours12}:${minStr}${ampm}`;
+// Default cache TTL and refresh interval in minutes
+const DEFAULT_CACHE_TTL = 10;
+const DEFAULT_REFRESH_INTERVAL = 15;
+
+/**
+ * Parse a "minutes" attribute into millis, negative values are treated as 0
+ */
+function minutesAttributeToMillis(value: number | string, fallback: number): number {
+  const minutes = parseInt(String(value), 10);
+  return (Number.isNaN(minutes) ? fallback : Math.max(0, minutes)) * 60 * 1000;
 }
 
 /**
- * The React component properties
+ * Parse a numeric attribute and clamp it to a range
  */
-export interface WeatherTimeProps extends BlockAttributes {
-  city: string; // The city for which to display weather/time
-  apikey: string; // WeatherAPI key
-  allowcityoverride: boolean;
-  mobileview: boolean;
-  usenewimages: boolean;
-  showordinalsuffix: boolean; // Whether to show ordinal suffixes in the date
+function clampAttribute(value: number | string, min: number, max: number): number {
+  return Math.min(max, Math.max(min, parseInt(String(value), 10) || min));
 }
 
 /**
- * Main WeatherTime component
+ * Single city WeatherTime component
  * ------------------------------------------------------------------------
- * 1) Fetch weather data from WeatherAPI (including the `tz_id` for local time).
+ * 1) Fetch weather data from the configured provider (including the `tz_id` for local time).
  * 2) Use Luxon to get the current time in that tz_id.
  * 3) Render the temperature, condition, and time.
  * 4) (Optional) allow user to override city if allowcityoverride is true.
  */
-export const WeatherTime = (props: WeatherTimeProps): ReactElement => {
-  console.log("WeatherTime props received:", props);
-  console.log("WeatherTime props keys:", Object.keys(props));
-  // A ref to the container div, if needed for future usage
+const CityWeatherTime = (props: WeatherTimeProps): ReactElement => {
+  // A ref to the container div, used to pause refreshes while the widget is off-screen
   const containerRef = useRef<HTMLDivElement>(null);
   // Destructure the relevant props
   const { 
     city = '', 
+    locationsource = 'city',
     apikey = '', 
     allowcityoverride = true, 
+    persistpreferences = true,
     mobileview = false, 
+    compactbreakpoint = DEFAULT_BREAKPOINTS.compact,
+    widebreakpoint = DEFAULT_BREAKPOINTS.wide,
+    layout = 'auto',
     usenewimages = false,
-    showordinalsuffix = true
+    showordinalsuffix = true,
+    datetimeformat = '',
+    showtimedifference = false,
+    provider = 'weatherapi',
+    fallbackprovider = 'openmeteo',
+    openweathermapkey = '',
+    mode = 'current',
+    forecastdays = MIN_FORECAST_DAYS,
+    forecasthours = MIN_FORECAST_HOURS,
+    cachettl = DEFAULT_CACHE_TTL,
+    refreshinterval = DEFAULT_REFRESH_INTERVAL,
+    showalerts = false,
+    alertminseverity = 'Moderate',
+    showairquality = false,
+    airqualityindex = 'us-epa',
+    showastronomy = false,
+    detailfields = DEFAULT_DETAIL_FIELDS.join(","),
+    unitsystem = 'auto',
+    unitsbasis = 'city',
+    windunit = 'auto',
+    isEditor = false,
   } = props;
-  console.log("After destructuring:", {
-    city,
-    apikey: apikey ? 'PROVIDED' : 'MISSING',
-    allowcityoverride,
-    mobileview,
-    usenewimages,
-    showordinalsuffix
-  });
-  /**
-   * Decide if we're in "mobile" mode based on prop.
+  /**
+   * Decide if the compact layout is forced based on prop.
    * The prop can be "true" (string), "false" (string), or a boolean.
    */
-  const isMobileView =
+  const isCompactForced =
     mobileview === "true" ? true : mobileview === "false" ? false : Boolean(mobileview);
 
+  /**
+   * Otherwise the layout goes by the container's width (see container-layout.ts)
+   */
+  const containerLayout = useContainerLayout(containerRef, parseBreakpoints(compactbreakpoint, widebreakpoint));
+  const layoutSize: LayoutSize = isCompactForced ? "compact" : containerLayout;
+  const isCompact = layoutSize === "compact";
+
   /**
    * Decide if city override is allowed similarly.
    */
@@ -190,126 +212,267 @@ export const WeatherTime = (props: WeatherTimeProps): ReactElement => {
       ? false
       : Boolean(showordinalsuffix);
 
+  /**
+   * Decide if the time difference to the viewer should be shown similarly.
+   */
+  const shouldShowTimeDifference =
+    showtimedifference === "true" ? true : showtimedifference === "false" ? false : Boolean(showtimedifference);
+
+  /**
+   * Decide if the user's choices should be remembered similarly.
+   */
+  const shouldPersistPreferences =
+    persistpreferences === "true" ? true : persistpreferences === "false" ? false : Boolean(persistpreferences);
+
+  /**
+   * Decide if weather alerts should be shown similarly.
+   */
+  const shouldShowAlerts =
+    showalerts === "true" ? true : showalerts === "false" ? false : Boolean(showalerts);
+
+  /**
+   * Decide if the air quality should be shown similarly.
+   */
+  const shouldShowAirQuality =
+    showairquality === "true" ? true : showairquality === "false" ? false : Boolean(showairquality);
+
+  /**
+   * Decide if the astronomy panel should be shown similarly.
+   */
+  const shouldShowAstronomy =
+    showastronomy === "true" ? true : showastronomy === "false" ? false : Boolean(showastronomy);
+
+  /**
+   * In forecast/hourly mode, clamp the number of days/hours to the supported range
+   */
+  const isForecastMode = mode === "forecast";
+  const isHourlyMode = mode === "hourly";
+  const forecastDayCount = clampAttribute(forecastdays, MIN_FORECAST_DAYS, MAX_FORECAST_DAYS);
+  const forecastHourCount = clampAttribute(forecasthours, MIN_FORECAST_HOURS, MAX_FORECAST_HOURS);
+
+  /**
+   * Cache TTL in millis, 0 is allowed and means "always refresh in the background"
+   */
+  const cacheTtlMillis = minutesAttributeToMillis(cachettl, DEFAULT_CACHE_TTL);
+  const refreshIntervalMillis = minutesAttributeToMillis(refreshinterval, DEFAULT_REFRESH_INTERVAL);
+
+  /**
+   * The viewer's locale, for the widget's texts and the provider's condition text
+   */
+  const locale = toLocale(props.contentLanguage);
+  const language = toLanguage(locale);
+  const messages = getMessages(locale);
+
   // Various pieces of state for weather info
-  const [condition, setCondition] = useState<string>("Loading...");
-  const [iconUrl, setIconUrl] = useState<string>("");
+  // The current conditions, for the weather icon and the detail fields
+  const [currentConditions, setCurrentConditions] = useState<CurrentConditions | null>(null);
   const [temperatureC, setTemperatureC] = useState<number | null>(null);
   const [temperatureF, setTemperatureF] = useState<number | null>(null);
-  const [isFahrenheit, setIsFahrenheit] = useState<boolean>(false);
-
-  // The "tz_id" from WeatherAPI (e.g., "America/New_York")
-  const [timeZone, setTimeZone] = useState<string>("");
-
-  // We'll store the current time (in that time zone) as a Luxon DateTime
-  const [localTime, setLocalTime] = useState<DateTime | null>(null);
+  // The unit system and the C/F toggle the user picked, they beat the configured units for every location
+  const [unitChoice, setUnitChoice] = useState<UnitSystemId | null>(null);
+  const [temperatureChoice, setTemperatureChoice] = useState<UnitSystem["temperature"] | null>(null);
+  const [forecast, setForecast] = useState<ForecastDay[]>([]);
+  const [hourly, setHourly] = useState<ForecastHour[]>([]);
+  const [alerts, setAlerts] = useState<WeatherAlert[]>([]);
+  const [airQuality, setAirQuality] = useState<AirQuality | null>(null);
+  const [astronomy, setAstronomy] = useState<Astronomy | null>(null);
 
   // Loading state for the spinner overlay
   const [isLoading, setIsLoading] = useState<boolean>(false);
 
+  // What went wrong with the last fetch, if anything
+  const [weatherError, setWeatherError] = useState<WeatherError | null>(null);
+
+  // When the shown weather was fetched, and whether the browser is online
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+
   // State for city override popup
   const [overrideCity, setOverrideCity] = useState<string | null>(null);
   const [showPopup, setShowPopup] = useState<boolean>(false);
   const [overrideInput, setOverrideInput] = useState<string>("");
+  // The suggestion the override was picked from, its name beats whatever the provider calls the coordinates
+  const [pickedLocation, setPickedLocation] = useState<LocationSuggestion | null>(null);
 
-  // Default fallback values, in case we can't fetch data
-  const defaultCity = "New York City";
-  const defaultCondition = "Patchy light snow";
-  const defaultTemperatureC = 27;
-  const defaultTemperatureF = (27 * 9) / 5 + 32;
+  // Overrides and the unit are remembered per user, so nothing is stored until the user is known
+  const { widgetApi, instanceId } = useContext(WidgetHostContext);
+  const theme = useContext(ThemeContext);
+  const { userId, isLoading: isUserLoading } = useCurrentUserId(shouldPersistPreferences ? widgetApi : undefined);
+  // Only needed when the units go by the user's profile
+  const { profile: userProfile } = useUserProfile(widgetApi, unitsbasis === "profile");
+  const preferenceKey = shouldPersistPreferences && userId ? preferencesKey(userId, instanceId) : null;
+
+  /**
+   * Remember the user's choices, if the admin allows it
+   */
+  const savePreferences = (changes: Parameters<typeof updatePreferences>[1]) => {
+    if (preferenceKey) updatePreferences(preferenceKey, changes);
+  };
+
+  // Whether the stored choices (if any) are restored, the weather isn't fetched before
+  const [arePreferencesRestored, setArePreferencesRestored] = useState<boolean>(false);
+
+  // Restore the stored choices once the user is known
+  useEffect(() => {
+    if (isUserLoading) return;
+    const stored = preferenceKey ? readPreferences(preferenceKey) : null;
+    if (stored) {
+      setOverrideCity(stored.overrideCity);
+      setPickedLocation(stored.pickedLocation);
+      setOverrideInput(stored.pickedLocation ? formatSuggestion(stored.pickedLocation) : stored.overrideCity ?? "");
+      setUnitChoice(stored.unitSystem);
+      if (stored.isFahrenheit !== null) {
+        setTemperatureChoice(stored.isFahrenheit ? "F" : "C");
+      }
+    }
+    setArePreferencesRestored(true);
+  }, [preferenceKey, isUserLoading]);
 
-  // For icons - Define both potential paths
-  const GITHUB_WEATHER_PATH =
-    "https://eirastaffbase.github.io/weather-time/resources/img";
-  const WIDGET_IMAGES_PATH =
-    "https://eirastaffbase.github.io/widget-images/weather-time";
+  // Default city, in case none is configured
+  const defaultCity = "New York City";
 
   const useNewImagesParsed = usenewimages === true || usenewimages === "true";
 
-  const imageBasePath = useNewImagesParsed ? WIDGET_IMAGES_PATH : GITHUB_WEATHER_PATH;
+  const imageBasePath = getImageBasePath(useNewImagesParsed);
 
   // Set the default fallback icon using the selected base path
   const fallbackGHDefault = `${imageBasePath}/default.svg`;
-  // Decide which city name to actually use (override or prop)
-  const displayCity = overrideCity || city || defaultCity;
+  // With "detect my location", the user's coordinates (once known) replace the configured city.
+  // The browser is asked once the user is known, a remembered denial then isn't asked again.
+  const geolocation = useGeolocation(locationsource === "geolocation" && !isUserLoading, preferenceKey);
+  // Without a known position, wait until the browser answers (or gives up)
+  const isPositionSettled =
+    locationsource !== "geolocation" ||
+    geolocation.coordinates !== null ||
+    (geolocation.status !== "off" && geolocation.status !== "pending");
+
+  // Decide which city name to actually use (override, position, or prop).
+  // Profile placeholders in the city are already resolved, see WeatherTime.
+  const displayCity = overrideCity || geolocation.coordinates || city || defaultCity;
+
+  // The city's zone (e.g., "America/New_York"), resolved offline first so the clock shows
+  // on the first paint. The provider's tz_id confirms or corrects it, see applySnapshot.
+  const [timeZone, setTimeZone] = useState<string>(() => resolveTimeZone(displayCity)?.zone ?? "");
+
+  // The current time in that time zone, ticking every second only when the format shows seconds
+  const now = useCurrentTime(showsSeconds(String(datetimeformat)));
+  const localTime = timeZone ? now.setZone(timeZone) : null;
+
+  /**
+   * Go back to the offline zone of the city, e.g. when the weather can't be loaded
+   */
+  const resetTimeZone = () => {
+    const zone = resolveTimeZone(displayCity)?.zone ?? "";
+    setTimeZone(zone);
+  };
 
-  // Additional metadata from WeatherAPI (e.g., region/country)
+  // Additional location metadata from the provider (e.g., region/country)
   const [cityName, setCity] = useState<string>(displayCity);
   const [region, setRegion] = useState<string>("");
   const [country, setCountry] = useState<string>("");
 
+  // Counts the fetches, so the result of an outdated one (e.g. for the city before the
+  // stored override was restored) doesn't overwrite the current city's
+  const fetchIdRef = useRef<number>(0);
+
   /**
-   * Fetch weather from WeatherAPI, store temperature, condition, tz_id, etc.
-   * We rely on tz_id so that we can let Luxon handle the actual time in that zone.
+   * Store temperature, condition, tz_id, etc. of a snapshot in the component state
    */
-  const fetchWeatherData = async () => {
-    try {
-      // Use the provided apikey prop instead of hardcoding
-      if (!apikey || apikey.trim() === '') {
-      console.error("Weather API key is not provided in configuration.", apikey);
-      throw new Error("API key is required");
-    }
+  const applySnapshot = (snapshot: WeatherSnapshot) => {
+    const { current, location } = snapshot;
 
-      // Build the URL
-      const response = await fetch(
-        `https://api.weatherapi.com/v1/current.json?key=${apikey}&q=${encodeURIComponent(
-          displayCity
-        )}`
-      );
-      if (!response.ok) {
-        throw new Error("Network response was not ok");
-      }
+    // Temperatures (C and F)
+    setTemperatureC(current.tempC);
+    setTemperatureF(current.tempF);
+    setForecast(snapshot.forecast);
+    setHourly(snapshot.hourly);
+    setAlerts(snapshot.alerts);
+    setAirQuality(snapshot.airQuality);
+    setAstronomy(snapshot.astronomy);
+    setUpdatedAt(snapshot.fetchedAt);
+    setWeatherError(null);
 
-      // Parse JSON
-      const data = await response.json();
-
-      // Check if the response includes the necessary fields
-      if (data && data.current && data.current.condition) {
-        // Temperatures (C and F)
-        setTemperatureC(data.current.temp_c);
-        setTemperatureF(data.current.temp_f);
-
-        // By default, set Fahrenheit if the country is "United States of America"
-        setIsFahrenheit(data.location?.country === "United States of America");
-
-        // Figure out the correct weather icon to show
-        const weatherCode = data.current.condition.code || 1000;
-        const timeOfDay = data.current.is_day === 1 ? "day" : "night";
-        const filename = getIconFilename(weatherCode, timeOfDay);
-        // Use the dynamically selected imageBasePath
-        setIconUrl(`${imageBasePath}/${filename}`);
-
-        // WeatherAPI also returns a tz_id, e.g. "America/New_York" or "Europe/London"
-        if (data.location?.tz_id) {
-          setTimeZone(data.location.tz_id);
-        } else {
-          // fallback if missing
-          setTimeZone("UTC");
-        }
+    // The weather icon is picked when rendering, see iconUrl below
+    setCurrentConditions(current);
 
-        // Store city/region/country for UI
-        if (data.location) {
-          setCity(data.location.name);
-          setRegion(data.location.region);
-          setCountry(data.location.country);
-        }
+    // The snapshot is validated, so the tz_id is always a zone Luxon understands
+    setTimeZone(confirmTimeZone(resolveTimeZone(displayCity)?.zone, location.tzId));
+
+    // Store city/region/country for UI
+    const shownLocation =
+      pickedLocation && overrideCity === formatCoordinates(pickedLocation.lat, pickedLocation.lon)
+        ? pickedLocation
+        : location;
+    // Providers that can't name coordinates (Open-Meteo) echo them back, don't show them for the user's position
+    const isUnnamedPosition = geolocation.coordinates !== null && shownLocation.name === geolocation.coordinates;
+    setCity(isUnnamedPosition ? messages.yourLocation : shownLocation.name);
+    setRegion(shownLocation.region);
+    setCountry(shownLocation.country);
+  };
+
+  /**
+   * Fetch weather from the configured provider (failing over to the fallback provider).
+   * Cached data is shown right away, and only refreshed when it's stale (or on `forceRefresh`).
+   * We rely on tz_id so that we can let Luxon handle the actual time in that zone.
+   */
+  const fetchWeatherData = async (forceRefresh: boolean = false) => {
+    const query = {
+      location: displayCity,
+      keys: { weatherapi: apikey, openweathermap: openweathermapkey },
+      days: isForecastMode ? forecastDayCount : 0,
+      hours: isHourlyMode ? forecastHourCount : 0,
+      alerts: shouldShowAlerts,
+      airQuality: shouldShowAirQuality,
+      astronomy: shouldShowAstronomy,
+      language,
+    };
+    const cacheKey = weatherCacheKey(provider, query);
+    const cached = readCachedWeather(cacheKey);
+    const fetchId = ++fetchIdRef.current;
+    const isOutdated = () => fetchId !== fetchIdRef.current;
 
-        return data.location;
-      } else {
-        // If invalid data, throw an Error
-        throw new Error("Invalid data received from weather API");
+    try {
+      if (cached) {
+        applySnapshot(cached);
+        // Nothing to refresh, or no way to refresh it while offline
+        if ((!forceRefresh && !isStale(cached, cacheTtlMillis)) || !navigator.onLine) {
+          return cached.location;
+        }
       }
+
+      const snapshot = await fetchWeatherCached(cacheKey, () =>
+        fetchWeatherSnapshot(
+          query,
+          getWeatherProvider(provider),
+          fallbackprovider === "none" ? undefined : getWeatherProvider(fallbackprovider)
+        )
+      );
+      if (isOutdated()) return snapshot.location;
+      applySnapshot(snapshot);
+
+      return snapshot.location;
     } catch (error) {
       console.error("Error fetching weather data:", error);
+      if (isOutdated()) return null;
+      setWeatherError(toWeatherError(error));
 
-      // Fallback to default weather if something goes wrong
-      setCondition(defaultCondition.toLowerCase());
-      setTemperatureC(defaultTemperatureC);
-      setTemperatureF(defaultTemperatureF);
-      setIsFahrenheit(false);
-      setIconUrl(`${imageBasePath}/default.svg`);
+      // Stale data is better than no data, but the refresh still failed
+      if (cached) {
+        return null;
+      }
 
-      // We'll just use UTC time as a fallback
-      setTimeZone("UTC");
+      // Never show made-up weather: clear everything, the error state is shown instead
+      setTemperatureC(null);
+      setTemperatureF(null);
+      setForecast([]);
+      setHourly([]);
+      setAlerts([]);
+      setAirQuality(null);
+      setAstronomy(null);
+      setCurrentConditions(null);
+      setUpdatedAt(null);
+      // The clock doesn't need the weather
+      resetTimeZone();
 
       return null;
     }
@@ -318,51 +481,89 @@ export const WeatherTime = (props: WeatherTimeProps): ReactElement => {
   /**
    * Helper function that calls `fetchWeatherData` and manages loading state
    */
-  const fetchWeatherAndTime = async () => {
+  const fetchWeatherAndTime = async (forceRefresh: boolean = false) => {
     setIsLoading(true);
-    await fetchWeatherData();
+    await fetchWeatherData(forceRefresh);
     setIsLoading(false);
   };
 
   /**
-   * When the component first mounts (and whenever `displayCity` changes),
-   * fetch the weather info for that city.
+   * When the component first mounts (and whenever `displayCity` or the forecast
+   * settings change), fetch the weather info for that city.
    */
   useEffect(() => {
+    resetTimeZone();
+    // Not for the configured city while the user's own is still being restored or located
+    if (!arePreferencesRestored || !isPositionSettled) return;
     fetchWeatherAndTime();
-    console.log(usenewimages);
-    console.log(imageBasePath);
-  }, [displayCity]);
+  }, [displayCity, mode, forecastDayCount, forecastHourCount, shouldShowAlerts, shouldShowAirQuality, shouldShowAstronomy, language, arePreferencesRestored, isPositionSettled]);
 
   /**
-   * Once we know the time zone, we can set the localTime using Luxon.
+   * Refresh automatically while the widget is visible, backing off after failures.
+   * Refreshes go through the cache, so widgets sharing a city don't refresh twice.
    */
-  useEffect(() => {
-    if (!timeZone) return; // if no tz yet, do nothing
+  useRefreshScheduler(containerRef, refreshIntervalMillis, async () => (await fetchWeatherData()) !== null);
 
-    // Set the time right away
-    setLocalTime(DateTime.now().setZone(timeZone));
-
-    // Then, update once per minute
-    const interval = setInterval(() => {
-      setLocalTime(DateTime.now().setZone(timeZone));
-    }, 6000);
+  /**
+   * Track the connection, and refresh stale data as soon as we're back online
+   */
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      fetchWeatherAndTime();
+    };
+    const handleOffline = () => setIsOnline(false);
 
-    return () => clearInterval(interval);
-  }, [timeZone]);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [displayCity, mode, forecastDayCount, forecastHourCount, shouldShowAlerts, shouldShowAirQuality, shouldShowAstronomy, language]);
 
   /**
    * Toggle between Celsius and Fahrenheit on click
    */
   const toggleTemperatureUnit = () => {
-    setIsFahrenheit((prev) => !prev);
+    setTemperatureChoice(isFahrenheit ? "C" : "F");
+    savePreferences({ isFahrenheit: !isFahrenheit });
+  };
+
+  /**
+   * The user picked a unit system in the popup, empty for the configured one
+   */
+  const handleSelectUnitSystem = (value: string) => {
+    const choice = isUnitSystemId(value) ? value : null;
+    setUnitChoice(choice);
+    // The system decides the temperature unit again
+    setTemperatureChoice(null);
+    savePreferences({ unitSystem: choice, isFahrenheit: null });
+  };
+
+  /**
+   * If the icon fails to load from the standard path,
+   * attempt a fallback from GitHub, then a default icon
+   */
+  const handleIconError = (e: SyntheticEvent<HTMLImageElement>) => {
+    const imgEl = e.currentTarget;
+    if (!imgEl.dataset.fallback) {
+      imgEl.dataset.fallback = "true";
+      const filenameFromLocalPath = iconUrl.split("/").pop();
+      imgEl.src = `${imageBasePath}/${filenameFromLocalPath}`;
+    } else if (!imgEl.dataset.fallback2) {
+      imgEl.dataset.fallback2 = "true";
+      imgEl.src = fallbackGHDefault;
+    } else {
+      console.warn("All icon fallbacks failed. Stopping.");
+    }
   };
 
   /**
    * Manually refresh all weather/time data when user clicks something
    */
   const handleRefresh = () => {
-    fetchWeatherAndTime();
+    fetchWeatherAndTime(true);
   };
 
   /**
@@ -370,39 +571,184 @@ export const WeatherTime = (props: WeatherTimeProps): ReactElement => {
    * then we store that city in state, and the effect above will re-fetch
    */
   const handleSetCityOverride = () => {
-    setOverrideCity(overrideInput.trim() || null);
+    const city = overrideInput.trim() || null;
+    setPickedLocation(null);
+    setOverrideCity(city);
+    setShowPopup(false);
+    savePreferences({ overrideCity: city, pickedLocation: null });
+  };
+
+  /**
+   * A picked suggestion is stored by its coordinates, so "Portland" stays the Portland the user meant
+   */
+  const handleSelectSuggestion = (suggestion: LocationSuggestion) => {
+    const coordinates = formatCoordinates(suggestion.lat, suggestion.lon);
+    setPickedLocation(suggestion);
+    setOverrideCity(coordinates);
+    setOverrideInput(formatSuggestion(suggestion));
     setShowPopup(false);
+    savePreferences({ overrideCity: coordinates, pickedLocation: suggestion });
   };
 
+  /**
+   * Forget the user's city and unit, and go back to what the admin configured
+   */
+  const handleResetPreferences = () => {
+    if (preferenceKey) clearPreferences(preferenceKey);
+    setUnitChoice(null);
+    setTemperatureChoice(null);
+    setPickedLocation(null);
+    setOverrideCity(null);
+    setOverrideInput("");
+    setShowPopup(false);
+  };
+
+  /**
+   * Suggestions come from the configured provider (or the fallback provider)
+   */
+  const searchCities = (text: string) =>
+    searchLocations(
+      text,
+      { weatherapi: apikey, openweathermap: openweathermapkey },
+      getWeatherProvider(provider),
+      fallbackprovider === "none" ? undefined : getWeatherProvider(fallbackprovider)
+    );
+
+  /**
+   * The units every value is shown in: the user's choice or the configured system, where "auto"
+   * goes by the city's country, the viewer's locale or the user's profile (see unitsbasis)
+   */
+  const autoUnitCandidates = {
+    city: [unitSystemForCountry(country), unitSystemForLocale(locale)],
+    viewer: [unitSystemForLocale(locale), unitSystemForCountry(country)],
+    profile: [
+      unitSystemForCountry(findCity(userProfile?.location ?? "")?.country ?? ""),
+      unitSystemForLocale(locale),
+      unitSystemForCountry(country),
+    ],
+  }[unitsbasis === "viewer" || unitsbasis === "profile" ? unitsbasis : "city"];
+  const configuredUnits = resolveUnitSystem(unitChoice ?? unitsystem, autoUnitCandidates, windunit);
+  const units: UnitSystem = temperatureChoice ? { ...configuredUnits, temperature: temperatureChoice } : configuredUnits;
+  const isFahrenheit = units.temperature === "F";
+
   /**
    * Decide which temperature to display (C or F)
    */
   const temperature = isFahrenheit ? temperatureF : temperatureC;
 
+  /**
+   * Figure out the correct weather icon to show. With today's sunrise/sunset known, the icon
+   * switches between day and night on time instead of waiting for the next refresh.
+   */
+  const iconUrl = currentConditions
+    ? `${imageBasePath}/${getIconFilename(
+        currentConditions.conditionCode || 1000,
+        getTimeOfDay(localTime?.toMillis() ?? Date.now(), currentConditions.isDay, astronomy?.sunrise, astronomy?.sunset)
+      )}`
+    : "";
+
   /**
    * Format the localTime if available, or show a loading string
    */
-  const dateTimeString = localTime ? formatDateTime(localTime, shouldShowOrdinalSuffix) : "Loading time...";
+  const dateTimeString = localTime
+    ? formatDateTime(localTime, locale, shouldShowOrdinalSuffix, datetimeformat)
+    : messages.loadingTime;
+
+  /**
+   * How the city's time compares to the viewer's, e.g. "6 hours ahead of you · tomorrow"
+   */
+  const timeDifference = shouldShowTimeDifference && localTime ? getTimeDifference(localTime) : null;
+  const timeDifferenceString = timeDifference ? formatTimeDifference(timeDifference, locale, messages) : "";
+
+  /**
+   * Without any weather to show, show what went wrong instead (with the details for editors only)
+   */
+  const showErrorState = weatherError !== null && temperature === null;
+
+  /**
+   * The alerts that are severe enough to show
+   */
+  const visibleAlerts = shouldShowAlerts ? filterAlerts(alerts, normalizeSeverity(alertminseverity)) : [];
+
+  /**
+   * The air quality index, if enabled and the provider delivered it
+   */
+  const airQualityBadge = shouldShowAirQuality && airQuality && (
+    <AirQualityBadge
+      airQuality={airQuality}
+      index={airqualityindex === "gb-defra" ? "gb-defra" : "us-epa"}
+      messages={messages}
+    />
+  );
+
+  /**
+   * The configured detail fields, under the temperature
+   */
+  const detailFields = parseDetailFields(detailfields);
+  const weatherDetails = currentConditions && detailFields.length > 0 && (
+    <WeatherDetails
+      conditions={currentConditions}
+      fields={detailFields}
+      units={units}
+      isMobileView={isCompact}
+      messages={messages}
+    />
+  );
+
+  /**
+   * While offline, tell the user how old the shown weather is, e.g. "offline · updated 14 min. ago"
+   */
+  const offlineNotice = !isOnline && updatedAt !== null && (
+    <p className="weather-time__note">
+      {formatMessage(messages.offlineUpdated, {
+        time: DateTime.fromMillis(updatedAt).toRelative({ style: "short", locale }) ?? "",
+      })}
+    </p>
+  );
 
   /**
-   * Container style - different if in mobile vs. desktop layout
+   * What the layout shows, and which layout (see layouts.tsx)
    */
-  const containerStyle: React.CSSProperties = {
-    display: "flex",
-    flexDirection: isMobileView ? "column" : "row",
-    justifyContent: isMobileView ? "flex-end" : "space-between",
-    alignItems: isMobileView ? "flex-end" : "flex-start",
-    padding: "10px",
-    position: "relative",
-    textAlign: isMobileView ? "right" : "left",
+  const layoutView: LayoutViewModel = {
+    temperature: temperature === null ? null : Math.round(temperature),
+    unit: isFahrenheit ? "F" : "C",
+    iconUrl,
+    iconAlt: currentConditions?.conditionText || messages.weatherIcon,
+    dateTime: dateTimeString,
+    timeDifference: timeDifferenceString,
+    cityLabel: [cityName, country].filter(Boolean).join(", "),
+    details: (
+      <>
+        {weatherDetails}
+        {airQualityBadge}
+      </>
+    ),
+    notice: offlineNotice,
   };
+  const { id: layoutId, Component: LayoutComponent } = resolveLayout(layout, layoutSize);
 
-  // Determine the image width based on useNewImagesParsed
-  const imageWidthMobile = useNewImagesParsed ? "130px" : "105px";
-  const imageWidthDesktop = useNewImagesParsed ? "230px" : "165px";
+  /**
+   * Container classes - different if in mobile vs. desktop layout (see weather-time-styles.ts)
+   */
+  const containerClassName = [
+    "weather-time",
+    `weather-time--${layoutSize}`,
+    `weather-time--${layoutId}`,
+    useNewImagesParsed && "weather-time--new-images",
+    // Let full-width rows (alerts, forecast, hourly timeline) wrap onto their own lines
+    (isForecastMode || isHourlyMode || shouldShowAstronomy || visibleAlerts.length > 0) && "weather-time--wrap",
+  ]
+    .filter(Boolean)
+    .join(" ");
 
   return (
-    <div ref={containerRef} style={containerStyle}>
+    <div
+      ref={containerRef}
+      className={containerClassName}
+      part="container"
+      dir={isRightToLeft(locale) ? "rtl" : "ltr"}
+      style={themeProperties(theme)}
+    >
       {/* Loading overlay (optional):
         If you'd like to show a spinner while fetching, uncomment this block.
       */}
@@ -414,7 +760,7 @@ export const WeatherTime = (props: WeatherTimeProps): ReactElement => {
             left: 0,
             right: 0,
             bottom: 0,
-            backgroundColor: isMobileView
+            backgroundColor: isCompact
               ? "rgba(255,255,255,0)"
               : "rgba(255,255,255,0.7)",
             display: "flex",
@@ -431,148 +777,93 @@ export const WeatherTime = (props: WeatherTimeProps): ReactElement => {
         </div>
       )} */}
 
-      {/* MOBILE LAYOUT
+      {/* ALERTS BANNER
         ------------------------------------------------------------------
-        If isMobileView is true, we show icon first, then temperature,
-        and skip showing the time. (Though you could easily adjust if you want.)
+        Government weather alerts go first, they're the most important thing to see.
       */}
-      {isMobileView && (
-        <>
-          {/* Weather Icon */}
-          {iconUrl && (
-            <div
-              style={{ 
-                marginBottom: useNewImagesParsed ? "0px" : "10px", 
-                cursor: "pointer",
-              }}
-              onClick={handleRefresh}
-            >
-              <img
-                src={iconUrl}
-                alt="Weather Icon"
-                style={{
-                  width: imageWidthMobile,
-                }}
-                              onError={(e) => {
-                  const imgEl = e.currentTarget as HTMLImageElement;
-                  // If the icon fails to load from the standard path,
-                  // attempt a fallback from GitHub, then a default icon
-                  if (!imgEl.dataset.fallback) {
-                    imgEl.dataset.fallback = "true";
-                    const filenameFromLocalPath = iconUrl.split("/").pop();
-                    imgEl.src = `${imageBasePath}/${filenameFromLocalPath}`;
-                  } else if (!imgEl.dataset.fallback2) {
-                    imgEl.dataset.fallback2 = "true";
-                    imgEl.src = fallbackGHDefault;
-                  } else {
-                    console.warn("All icon fallbacks failed. Stopping.");
-                  }
-                }}
-              />
-            </div>
-          )}
+      {visibleAlerts.length > 0 && (
+        <AlertsBanner alerts={visibleAlerts} timeZone={timeZone} locale={locale} messages={messages} />
+      )}
 
-          {/* Temperature (C or F) */}
-          {temperature !== null && (
-            <p
-              onClick={toggleTemperatureUnit}
-              style={{
-                cursor: "pointer",
-                fontSize: "26px",
-                fontWeight: "500",
-                margin: useNewImagesParsed ? "0px 33px 0px 0px" : "0px 15px 0px 0px",
-              }}
-            >
-              {Math.round(temperature)}°{isFahrenheit ? "F" : "C"}
-            </p>
+      {/* ERROR STATE
+        ------------------------------------------------------------------
+        Shown instead of the weather when it couldn't be loaded, with a retry action.
+      */}
+      {showErrorState && (
+        <div role="alert" className="weather-time__error" part="error">
+          {/* The clock keeps working with the offline time zone */}
+          {localTime && !isCompact && (
+            <p className="weather-time__date-time" part="date-time">{dateTimeString}</p>
+          )}
+          <p className="weather-time__message">
+            {isEditor ? weatherErrorMessages[weatherError.kind] : messages.errors[weatherError.kind]}
+          </p>
+          {isEditor && (
+            <p className="weather-time__note">{weatherError.message}</p>
           )}
-        </>
+          <button onClick={handleRefresh} disabled={isLoading} part="retry">
+            {messages.retry}
+          </button>
+        </div>
       )}
 
-      {/* DESKTOP LAYOUT
+      {/* LAYOUT
         ------------------------------------------------------------------
-        If NOT mobileView, we show time and temperature side by side,
-        with the weather icon on the right.
+        The configured arrangement of the current conditions, see layouts.tsx
       */}
-      {!isMobileView && (
-        <>
-          {/* Left side: Temperature & date/time */}
-          <div style={{ marginBottom: useNewImagesParsed ? "-15px" : "0px" }}>
-            {/* Temperature */}
-            {temperature !== null && (
-              <p
-                onClick={toggleTemperatureUnit}
-                style={{
-                  cursor: "pointer",
-                  fontSize: "32px",
-                  fontWeight: "bold",
-                  margin: "0 0 10px 0",
-                }}
-              >
-                {Math.round(temperature)}°{isFahrenheit ? "F" : "C"}
-              </p>
-            )}
+      {!showErrorState && (
+        <LayoutComponent
+          view={layoutView}
+          size={layoutSize}
+          hasNewImages={useNewImagesParsed}
+          onToggleUnit={toggleTemperatureUnit}
+          onRefresh={handleRefresh}
+          onIconError={handleIconError}
+        />
+      )}
 
-            {/* Show date/time (no seconds in the format) */}
-            <p
-              onClick={handleRefresh}
-              style={{ fontSize: "16px", margin: "0 0 10px 0" }}
-            >
-              {dateTimeString}
-            </p>
-          </div>
+      {/* FORECAST ROW
+        ------------------------------------------------------------------
+        In forecast mode, show the upcoming days below the current conditions.
+      */}
+      {isForecastMode && forecast.length > 0 && (
+        <ForecastRow
+          days={forecast}
+          isFahrenheit={isFahrenheit}
+          imageBasePath={imageBasePath}
+          locale={locale}
+          isMobileView={isCompact}
+        />
+      )}
 
-          {/* Right side: Weather icon */}
-          {iconUrl && (
-            <div
-              style={{
-                marginTop: "-20px",
-                marginLeft: "20px",
-                display: "flex",
-                alignItems: "center",
-              }}
-            >
-              <img
-                src={iconUrl}
-                onClick={handleRefresh}
-                alt="Weather Icon"
-                style={{ width: imageWidthDesktop, 
-                  marginTop: useNewImagesParsed ? "-65px" : "-60px",
-                  marginLeft: useNewImagesParsed ? "-10px" : "-5px",
-                              }}
-                onError={(e) => {
-                  const imgEl = e.currentTarget as HTMLImageElement;
-                  // fallback icon logic, just like above
-                  if (!imgEl.dataset.fallback) {
-                    imgEl.dataset.fallback = "true";
-                    const filenameFromLocalPath = iconUrl.split("/").pop();
-                    imgEl.src = `${imageBasePath}/${filenameFromLocalPath}`;
-                  } else if (!imgEl.dataset.fallback2) {
-                    imgEl.dataset.fallback2 = "true";
-                    imgEl.src = fallbackGHDefault;
-                  } else {
-                    console.warn("All icon fallbacks failed. Stopping.");
-                  }
-                }}
-              />
-            </div>
-          )}
-        </>
+      {/* HOURLY TIMELINE
+        ------------------------------------------------------------------
+        In hourly mode, show the next hours (in the city's time zone) below the current conditions.
+      */}
+      {isHourlyMode && hourly.length > 0 && (
+        <HourlyTimeline
+          hours={hourly}
+          isFahrenheit={isFahrenheit}
+          imageBasePath={imageBasePath}
+          locale={locale}
+          timeZone={timeZone}
+          isMobileView={isCompact}
+          messages={messages}
+        />
+      )}
+
+      {/* ASTRONOMY
+        ------------------------------------------------------------------
+        Sunrise/sunset in the city's local time, daylight left and the moon phase.
+      */}
+      {!showErrorState && shouldShowAstronomy && astronomy && (
+        <AstronomyPanel astronomy={astronomy} timeZone={timeZone} locale={locale} now={localTime} messages={messages} />
       )}
 
       {/* OPTIONAL "..." button to open a city override popup if allowed
       */}
       {isCityOverrideAllowed && (
-        <div
-          onClick={() => setShowPopup(true)}
-          style={{
-            position: "absolute",
-            bottom: "5px",
-            right: "5px",
-            cursor: "pointer",
-            opacity: 0.5,
-          }}
-        >
+        <div onClick={() => setShowPopup(true)} className="weather-time__menu-button" part="menu-button">
           <p>...</p>
         </div>
       )}
@@ -581,48 +872,199 @@ export const WeatherTime = (props: WeatherTimeProps): ReactElement => {
         Lets user type in a different city name, e.g. "London", "Paris", etc.
       */}
       {showPopup && (
-        <div
-          style={{
-            position: "absolute",
-            left: 0,
-            width: "100%",
-            height: "100%",
-            backgroundColor: "rgba(0,0,0,0.3)",
-            display: "flex",
-            alignItems: "center",
-            justifyContent: "center",
-            zIndex: 9999,
-          }}
-        >
-          <div
-            style={{
-              backgroundColor: "#fff",
-              padding: "20px",
-              borderRadius: "6px",
-              minWidth: "250px",
-            }}
-          >
+        <div className="weather-time__overlay">
+          <div className="weather-time__popup" part="popup">
             <p>
-              <b>Current City:</b> {cityName}
+              <b>{messages.currentCity}</b> {cityName}
               {region ? `, ${region}` : ""}
               {country ? `, ${country}` : ""}
             </p>
-            <input
-              type="text"
-              placeholder="Type a city..."
+            {locationsource === "geolocation" && (
+              <p className="weather-time__popup-note">
+                {geolocation.status === "denied" && `${messages.locationAccessOff} `}
+                <button
+                  onClick={() => {
+                    setPickedLocation(null);
+                    setOverrideCity(null);
+                    setShowPopup(false);
+                    savePreferences({ overrideCity: null, pickedLocation: null });
+                    geolocation.request();
+                  }}
+                  disabled={geolocation.status === "pending"}
+                >
+                  {messages.useMyLocation}
+                </button>
+              </p>
+            )}
+            <CitySearch
               value={overrideInput}
-              onChange={(e) => setOverrideInput(e.target.value)}
-              style={{ width: "100%", marginBottom: "10px", marginTop: "10px" }}
+              onChange={setOverrideInput}
+              onSelect={handleSelectSuggestion}
+              onSubmit={handleSetCityOverride}
+              search={searchCities}
+              placeholder={messages.typeCity}
             />
             <div>
-              <button onClick={handleSetCityOverride} style={{ marginBottom: "10px" }}>
-                OK
+              <button onClick={handleSetCityOverride} className="weather-time__popup-ok">
+                {messages.ok}
               </button>
-              <button onClick={() => setShowPopup(false)}>Cancel</button>
+              <button onClick={() => setShowPopup(false)}>{messages.cancel}</button>
             </div>
+            <label className="weather-time__units">
+              {messages.units}{" "}
+              <select value={unitChoice ?? ""} onChange={(e) => handleSelectUnitSystem(e.target.value)}>
+                <option value="">{messages.unitsAsConfigured}</option>
+                <option value="auto">{messages.unitsAuto}</option>
+                <option value="metric">{messages.unitsMetric} (°C, km/h, mm, hPa)</option>
+                <option value="imperial">{messages.unitsImperial} (°F, mph, in, inHg)</option>
+                <option value="mixed">{messages.unitsMixed} (°C, mph, mm, hPa)</option>
+              </select>
+            </label>
+            <button onClick={handleResetPreferences} className="weather-time__reset">
+              {messages.resetToDefault}
+            </button>
           </div>
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+/**
+ * Tells editors which city is shown and why, e.g. when the profile placeholder fell back to the default
+ */
+const CitySourceNote = ({ resolved }: { resolved: ResolvedCity }): ReactElement => {
+  const source = {
+    configured: "as configured",
+    profile: `from the user profile (${resolved.detail})`,
+    department: `from the department mapping (${resolved.detail})`,
+    default: "default, the user profile has no location",
+  }[resolved.source];
+  return (
+    <p className="weather-time__source-note">
+      Location: {resolved.city || "none"} – {source}
+    </p>
+  );
+};
+
+/**
+ * Main WeatherTime component
+ * ------------------------------------------------------------------------
+ * Shows a single city with all its details, in world clock mode one row per configured city,
+ * and in clock mode only the date and time (no weather, no network, no API key).
+ * Profile placeholders the host left in the city are resolved here first.
+ */
+export const WeatherTime = (props: WeatherTimeProps): ReactElement => {
+  const { widgetApi } = useContext(WidgetHostContext);
+  const {
+    city = '',
+    locationsource = 'city',
+    departmentlocations = '',
+    defaultcity = '',
+    colorscheme = 'light',
+    isEditor = false,
+  } = props;
+  // "User profile placeholder" without a placeholder in the city uses the profile's location
+  const configuredCity = locationsource === "profile" && city.trim() === "" ? "{{user.profile.location}}" : city;
+  const needsProfile = props.mode !== "worldclock" && hasProfilePlaceholder(configuredCity);
+  const { profile, isLoading } = useUserProfile(widgetApi, needsProfile);
+  const theme = useThemeTokens(colorscheme, widgetApi);
+
+  if (props.mode === "worldclock") {
+    return (
+      <ThemeContext.Provider value={theme}>
+        <WorldClockWeatherTime {...props} />
+      </ThemeContext.Provider>
+    );
+  }
+  // Nothing to show until the city is known, a wrong city would only flash
+  if (needsProfile && isLoading) {
+    return <></>;
+  }
+
+  const resolved = resolveCity(configuredCity, profile, parseDepartmentLocations(departmentlocations), defaultcity);
+  return (
+    <ThemeContext.Provider value={theme}>
+      {props.mode === "clock" ? (
+        <ClockOnly {...props} city={resolved.city} />
+      ) : (
+        <CityWeatherTime {...props} city={resolved.city} />
+      )}
+      {isEditor && <CitySourceNote resolved={resolved} />}
+      {isEditor && props.mode !== "clock" && (
+        <LayoutPreviews selected={props.layout || "auto"} messages={getMessages(toLocale(props.contentLanguage))} />
+      )}
+    </ThemeContext.Provider>
+  );
+};
+
+/**
+ * Clock mode: only the date and time
+ */
+const ClockOnly = (props: WeatherTimeProps): ReactElement => {
+  const {
+    city = '',
+    timezone = '',
+    mobileview = false,
+    showordinalsuffix = true,
+    datetimeformat = '',
+    showtimedifference = false,
+    compactbreakpoint = DEFAULT_BREAKPOINTS.compact,
+    widebreakpoint = DEFAULT_BREAKPOINTS.wide,
+    isEditor = false,
+  } = props;
+  return (
+    <Clock
+      timeZone={timezone || city}
+      // With an explicit zone, the city is just the label
+      label={timezone ? city : ""}
+      locale={toLocale(props.contentLanguage)}
+      showOrdinal={String(showordinalsuffix) === "true"}
+      pattern={String(datetimeformat)}
+      showTimeDifference={String(showtimedifference) === "true"}
+      isCompactForced={String(mobileview) === "true"}
+      breakpoints={parseBreakpoints(compactbreakpoint, widebreakpoint)}
+      isEditor={isEditor}
+    />
+  );
+};
+
+/**
+ * World clock mode: one row per configured city
+ */
+const WorldClockWeatherTime = (props: WeatherTimeProps): ReactElement => {
+  const {
+    apikey = '',
+    openweathermapkey = '',
+    provider = 'weatherapi',
+    fallbackprovider = 'openmeteo',
+    usenewimages = false,
+    cachettl = DEFAULT_CACHE_TTL,
+    refreshinterval = DEFAULT_REFRESH_INTERVAL,
+    worldclocklocations = '',
+    worldclocksort = 'offset',
+    unitsystem = 'auto',
+    mobileview = false,
+    compactbreakpoint = DEFAULT_BREAKPOINTS.compact,
+    widebreakpoint = DEFAULT_BREAKPOINTS.wide,
+    isEditor = false,
+  } = props;
+
+  return (
+    <WorldClock
+      entries={parseWorldClockLocations(worldclocklocations)}
+      sort={worldclocksort === "custom" ? "custom" : "offset"}
+      primary={getWeatherProvider(provider)}
+      secondary={fallbackprovider === "none" ? undefined : getWeatherProvider(fallbackprovider)}
+      keys={{ weatherapi: apikey, openweathermap: openweathermapkey }}
+      cacheTtlMillis={minutesAttributeToMillis(cachettl, DEFAULT_CACHE_TTL)}
+      refreshIntervalMillis={minutesAttributeToMillis(refreshinterval, DEFAULT_REFRESH_INTERVAL)}
+      imageBasePath={getImageBasePath(String(usenewimages) === "true")}
+      locale={toLocale(props.contentLanguage)}
+      unitSystem={unitsystem}
+      isCompactForced={String(mobileview) === "true"}
+      breakpoints={parseBreakpoints(compactbreakpoint, widebreakpoint)}
+      isEditor={isEditor}
+    />
+  );
+};
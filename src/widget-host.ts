@@ -0,0 +1,30 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+
+import { createContext } from "react";
+import { WidgetApi } from "widget-sdk";
+
+/**
+ * What the block gets from the host besides the attributes
+ */
+export interface WidgetHost {
+  widgetApi?: WidgetApi; // Missing outside the Staffbase app, e.g. in tests
+  instanceId: string; // Identifies this widget on the page
+}
+
+/**
+ * Attributes can only be strings, so the host's API reaches the components through a context
+ */
+export const WidgetHostContext = createContext<WidgetHost>({ instanceId: "" });
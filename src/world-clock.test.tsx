@@ -0,0 +1,129 @@
+import React from "react"
+import {screen, render, within, act, fireEvent} from "@testing-library/react"
+import {DateTime} from "luxon";
+
+import {formatDayOffset, parseWorldClockLocations} from "./world-clock";
+import {WeatherTime} from "./weather-time";
+import {clearWeatherCache} from "./weather-cache";
+import {getMessages} from "./messages";
+import {mockWeatherApi, weatherApiReply, weatherApiResponse, widgetProps} from "./test-helpers";
+
+const CITIES = {
+    Tokyo: weatherApiReply("Tokyo", "Japan", "Asia/Tokyo", {temp_c: 18, temp_f: 64.4}),
+    Berlin: weatherApiReply("Berlin", "Germany", "Europe/Berlin", {temp_c: 9, temp_f: 48.2}),
+    Denver: weatherApiReply("Denver", "United States of America", "America/Denver", {temp_c: 2, temp_f: 35.6}),
+};
+
+describe("WorldClock", () => {
+    const props = widgetProps({mode: "worldclock", worldclocklocations: "Tokyo | Tokyo office\nBerlin | Berlin HQ\nDenver"});
+
+    beforeEach(() => {
+        clearWeatherCache();
+        mockWeatherApi(CITIES);
+    });
+
+    it("should parse locations with optional labels", () => {
+        expect(parseWorldClockLocations("Berlin | Berlin HQ\n\n 52.5,13.4 \nA | B | C")).toEqual([
+            {location: "Berlin", label: "Berlin HQ"},
+            {location: "52.5,13.4", label: ""},
+            {location: "A", label: "B | C"},
+        ]);
+    });
+
+    it("should label the day offset to the viewer", () => {
+        const viewer = DateTime.fromISO("2024-11-26T20:00", {zone: "America/Denver"});
+        const messages = getMessages("en");
+
+        expect(formatDayOffset(viewer.setZone("Asia/Tokyo"), viewer, "en", messages)).toBe("+1 day");
+        expect(formatDayOffset(viewer.setZone("Europe/Berlin"), viewer, "en", messages)).toBe("+1 day");
+        expect(formatDayOffset(viewer.setZone("Pacific/Pago_Pago"), viewer, "en", messages)).toBe("");
+        expect(formatDayOffset(viewer.setZone("Asia/Tokyo"), viewer.setZone("Pacific/Kiritimati").plus({days: 1}), "en", messages)).toBe("-1 day");
+    });
+
+    it("should label the day offset in the viewer's language", () => {
+        const viewer = DateTime.fromISO("2024-11-26T20:00", {zone: "America/Denver"});
+
+        expect(formatDayOffset(viewer.setZone("Asia/Tokyo").plus({days: 1}), viewer, "de", getMessages("de"))).toBe("+2 Tage");
+        expect(formatDayOffset(viewer.setZone("Asia/Tokyo"), viewer, "ar", getMessages("ar"))).toBe("بعد يوم");
+    });
+
+    it("should fetch every city once and sort the rows by UTC offset", async () => {
+        render(<WeatherTime {...props}/>);
+
+        // All rows are updated at once, after the whole cycle
+        expect(await screen.findByText("18°C")).toBeInTheDocument();
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+        const rows = within(screen.getByRole("list", {name: "World clock"})).getAllByRole("listitem");
+        expect(rows.map((row) => row.textContent)).toEqual([
+            expect.stringContaining("Denver"),
+            expect.stringContaining("Berlin HQ"),
+            expect.stringContaining("Tokyo office"),
+        ]);
+        expect(rows[1]).toHaveTextContent("9°C");
+    });
+
+    it("should keep the configured order on request", async () => {
+        render(<WeatherTime {...props} worldclocksort="custom"/>);
+
+        await screen.findByText("18°C");
+        const rows = within(screen.getByRole("list", {name: "World clock"})).getAllByRole("listitem");
+        expect(rows[0]).toHaveTextContent("Tokyo office");
+    });
+
+    it("should list the same city twice under different labels", async () => {
+        const consoleError = jest.spyOn(console, "error");
+        render(<WeatherTime {...props} worldclocklocations={"Berlin | Berlin HQ\nBerlin | Berlin plant"}/>);
+
+        await screen.findAllByText("9°C");
+        const rows = within(screen.getByRole("list", {name: "World clock"})).getAllByRole("listitem");
+        expect(rows.map((row) => row.textContent)).toEqual([
+            expect.stringContaining("Berlin HQ"),
+            expect.stringContaining("Berlin plant"),
+        ]);
+        expect(consoleError).not.toHaveBeenCalledWith(expect.stringContaining("same key"), expect.anything(), expect.anything());
+        consoleError.mockRestore();
+    });
+
+    it("should show a changed label without fetching again", async () => {
+        const {rerender} = render(<WeatherTime {...props}/>);
+        await screen.findByText("18°C");
+
+        rerender(<WeatherTime {...props} worldclocklocations={"Tokyo | Tokyo branch\nBerlin | Berlin HQ\nDenver"}/>);
+
+        expect(screen.getByText("Tokyo branch")).toBeInTheDocument();
+        expect(screen.queryByText("Tokyo office")).not.toBeInTheDocument();
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should ignore an outdated fetch of the previous locations", async () => {
+        let resolveTokyo: () => void = () => undefined;
+        global.fetch = jest.fn((url: string) => url.includes("q=Tokyo")
+            ? new Promise((resolve) => {
+                resolveTokyo = () => resolve(weatherApiResponse(url, CITIES));
+            })
+            : weatherApiResponse(url, CITIES)) as jest.Mock;
+        const {rerender} = render(<WeatherTime {...props} worldclocklocations="Tokyo"/>);
+
+        rerender(<WeatherTime {...props} worldclocklocations="Berlin"/>);
+        await screen.findByText("9°C");
+        await act(async () => resolveTokyo());
+
+        const rows = within(screen.getByRole("list", {name: "World clock"})).getAllByRole("listitem");
+        expect(rows).toHaveLength(1);
+        expect(rows[0]).toHaveTextContent("Berlin");
+    });
+
+    it("should name the list in the viewer's language", async () => {
+        render(<WeatherTime {...props} contentLanguage="de_DE" worldclocklocations="Tokyo"/>);
+
+        expect(await screen.findByRole("list", {name: "Weltuhr"})).toBeInTheDocument();
+    });
+
+    it("should toggle the temperature unit with a button", async () => {
+        render(<WeatherTime {...props} worldclocklocations="Tokyo"/>);
+
+        fireEvent.click(await screen.findByRole("button", {name: "18°C"}));
+
+        expect(screen.getByRole("button", {name: "64°F"})).toBeInTheDocument();
+    });
+});
@@ -0,0 +1,302 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import React, { ReactElement, useContext, useEffect, useRef, useState } from "react";
+import { DateTime } from "luxon";
+import {
+  fetchWeatherSnapshot,
+  WeatherProvider,
+  WeatherQuery,
+  WeatherSnapshot,
+} from "./weather-providers";
+import { formatMessage, getMessages, isRightToLeft, Messages, toLanguage } from "./messages";
+import { ThemeContext, themeProperties } from "./theme";
+import { fetchWeatherCached, isStale, readCachedWeather, weatherCacheKey } from "./weather-cache";
+import { useRefreshScheduler } from "./refresh-scheduler";
+import { useCurrentTime } from "./current-time";
+import { toWeatherError, WeatherError, weatherErrorMessages } from "./weather-errors";
+import { getIconFilename } from "./weather-icons";
+import { confirmTimeZone, resolveTimeZone } from "./city-time-zones";
+import { isUnitSystemId, resolveUnitSystem, unitSystemForCountry } from "./units";
+import { LayoutBreakpoints, useContainerLayout } from "./container-layout";
+
+/**
+ * One configured city of the world clock
+ */
+export interface WorldClockEntry {
+  location: string; // city name or "lat,lon", as for the single city
+  label: string; // optional display label, e.g. "Berlin HQ"
+}
+
+export type WorldClockSort = "offset" | "custom";
+
+/**
+ * Parse the configured locations, one per line as "location | label" with the label being optional
+ */
+export function parseWorldClockLocations(value: unknown): WorldClockEntry[] {
+  return String(value ?? "")
+    .split("\n")
+    .map((line) => {
+      const [location = "", ...label] = line.split("|");
+      return { location: location.trim(), label: label.join("|").trim() };
+    })
+    .filter((entry) => entry.location !== "");
+}
+
+/**
+ * How many calendar days the city is ahead of (or behind) the viewer, e.g. "+1 day". Empty on the same day.
+ */
+export function formatDayOffset(cityTime: DateTime, viewerTime: DateTime, locale: string, messages: Messages): string {
+  const cityDate = DateTime.fromISO(cityTime.toISODate(), { zone: "UTC" });
+  const viewerDate = DateTime.fromISO(viewerTime.toISODate(), { zone: "UTC" });
+  const days = Math.round(cityDate.diff(viewerDate, "days").days);
+  if (days === 0) return "";
+  return formatMessage(days > 0 ? messages.dayAhead : messages.dayBehind, {
+    days: new Intl.NumberFormat(locale, { style: "unit", unit: "day", unitDisplay: "long" }).format(Math.abs(days)),
+  });
+}
+
+/**
+ * What a city's row shows: its snapshot, or why there is none
+ */
+export interface WorldClockRow {
+  entry: WorldClockEntry;
+  snapshot: WeatherSnapshot | null;
+  error: WeatherError | null;
+}
+
+/**
+ * The zone of a row's city: from the offline database, confirmed or corrected by the provider.
+ * Known cities have their clock before (and without) the weather.
+ */
+export function getRowTimeZone(row: WorldClockRow): string | null {
+  const localZone = resolveTimeZone(row.entry.location)?.zone ?? null;
+  return row.snapshot ? confirmTimeZone(localZone, row.snapshot.location.tzId) : localZone;
+}
+
+/**
+ * Sort rows by the current UTC offset of their city (west to east), rows without a time zone go last.
+ * The sort is stable, so cities sharing an offset keep the configured order.
+ */
+export function sortByUtcOffset(rows: WorldClockRow[], now: number = Date.now()): WorldClockRow[] {
+  const offset = (row: WorldClockRow) => {
+    const zone = getRowTimeZone(row);
+    return zone ? DateTime.fromMillis(now, { zone }).offset : Infinity;
+  };
+  return [...rows].sort((a, b) => offset(a) - offset(b));
+}
+
+/**
+ * The React component properties
+ */
+export interface WorldClockProps {
+  entries: WorldClockEntry[];
+  sort: WorldClockSort;
+  primary: WeatherProvider;
+  secondary?: WeatherProvider;
+  keys: WeatherQuery["keys"];
+  cacheTtlMillis: number;
+  refreshIntervalMillis: number;
+  imageBasePath: string;
+  locale: string;
+  unitSystem: string; // see units.ts, "auto" goes by the cities' countries
+  isCompactForced: boolean; // the admin's "always compact", otherwise it goes by the container's width
+  breakpoints: LayoutBreakpoints;
+  isEditor: boolean;
+}
+
+/**
+ * World clock
+ * ------------------------------------------------------------------------
+ * One row per configured city with its local time, the day offset to the
+ * viewer, the temperature and the condition icon. All cities are fetched
+ * in one cycle (through the shared cache) and refreshed together.
+ */
+export const WorldClock = ({
+  entries,
+  sort,
+  primary,
+  secondary,
+  keys,
+  cacheTtlMillis,
+  refreshIntervalMillis,
+  imageBasePath,
+  locale,
+  unitSystem,
+  isCompactForced,
+  breakpoints,
+  isEditor,
+}: WorldClockProps): ReactElement => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Compact rows leave out the condition icons
+  const containerLayout = useContainerLayout(containerRef, breakpoints);
+  const layoutSize = isCompactForced ? "compact" : containerLayout;
+  const [rows, setRows] = useState<WorldClockRow[]>([]);
+  const now = useCurrentTime(false);
+  const [isFahrenheit, setIsFahrenheit] = useState<boolean>(false);
+  // The locations the default unit was last picked for
+  const defaultUnitEntriesRef = useRef<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  // Counts the fetch cycles, so an outdated one (e.g. for the previous locations) doesn't overwrite the rows
+  const fetchIdRef = useRef<number>(0);
+  // Re-fetch when the configured locations change, the labels are read from `entries` when rendering
+  const entriesKey = entries.map((entry) => entry.location).join("\n");
+  const language = toLanguage(locale);
+  const messages = getMessages(locale);
+  const theme = useContext(ThemeContext);
+
+  /**
+   * Fetch all cities in one cycle. Fresh cached cities aren't fetched again,
+   * a city that fails keeps its cached snapshot if there is one.
+   * Resolves to whether every city could be loaded.
+   */
+  const fetchAll = async (forceRefresh: boolean = false): Promise<boolean> => {
+    const fetchId = ++fetchIdRef.current;
+    const queries = entries.map((entry) => {
+      const query: WeatherQuery = { location: entry.location, keys, language };
+      return { entry, query, cacheKey: weatherCacheKey(primary.id, query) };
+    });
+    const cachedRows = queries.map(({ entry, cacheKey }) => ({
+      entry,
+      snapshot: readCachedWeather(cacheKey),
+      error: null,
+    }));
+    // Show whatever is cached right away
+    setRows(cachedRows);
+
+    const fetchedRows = await Promise.all(
+      queries.map(async ({ entry, query, cacheKey }, i): Promise<WorldClockRow> => {
+        const cached = cachedRows[i].snapshot;
+        if (cached && ((!forceRefresh && !isStale(cached, cacheTtlMillis)) || !navigator.onLine)) {
+          return cachedRows[i];
+        }
+        try {
+          const snapshot = await fetchWeatherCached(cacheKey, () => fetchWeatherSnapshot(query, primary, secondary));
+          return { entry, snapshot, error: null };
+        } catch (error) {
+          console.error(`Error fetching weather data for ${entry.location}:`, error);
+          return { entry, snapshot: cached, error: toWeatherError(error) };
+        }
+      })
+    );
+    const hasSucceeded = fetchedRows.every((row) => row.error === null);
+    if (fetchId !== fetchIdRef.current) return hasSucceeded;
+    setRows(fetchedRows);
+
+    // With "auto" units, Fahrenheit by default if all cities use it. Only when the locations (or units)
+    // change, so background refreshes don't undo the user's C/F toggle.
+    const snapshots = fetchedRows.flatMap((row) => (row.snapshot ? [row.snapshot] : []));
+    const defaultUnitKey = `${entriesKey}|${unitSystem}`;
+    if (snapshots.length > 0 && defaultUnitEntriesRef.current !== defaultUnitKey) {
+      defaultUnitEntriesRef.current = defaultUnitKey;
+      setIsFahrenheit(
+        isUnitSystemId(unitSystem) && unitSystem !== "auto"
+          ? resolveUnitSystem(unitSystem, []).temperature === "F"
+          : snapshots.every((snapshot) => unitSystemForCountry(snapshot.location.country)?.temperature === "F")
+      );
+    }
+    return hasSucceeded;
+  };
+
+  const fetchAllWithLoading = async (forceRefresh: boolean = false) => {
+    setIsLoading(true);
+    await fetchAll(forceRefresh);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchAllWithLoading();
+  }, [entriesKey, primary.id, language]);
+
+  /**
+   * Refresh all cities together while the widget is visible
+   */
+  useRefreshScheduler(containerRef, refreshIntervalMillis, () => fetchAll());
+
+  const sortedRows = sort === "offset" ? sortByUtcOffset(rows, now.toMillis()) : rows;
+  const firstError = rows.find((row) => row.error !== null)?.error ?? null;
+  const hasNoWeather = rows.length > 0 && rows.every((row) => row.snapshot === null);
+  // Without any weather, the rows are still worth showing if the offline database knows a clock
+  const hasClocks = rows.some((row) => getRowTimeZone(row) !== null);
+
+  // The container is rendered even without cities, so the layout and refresh hooks
+  // have their element once cities are added
+  return (
+    <div
+      ref={containerRef}
+      className={`weather-time weather-time--world-clock weather-time--${layoutSize}`}
+      part="container"
+      dir={isRightToLeft(locale) ? "rtl" : "ltr"}
+      style={themeProperties(theme)}
+    >
+      {entries.length === 0 && isEditor && (
+        <p className="weather-time__message">Add the cities to show in the widget settings.</p>
+      )}
+      {firstError && hasNoWeather && !isLoading && (
+        <div role="alert" className="weather-time__error" part="error">
+          <p className="weather-time__message">
+            {isEditor ? weatherErrorMessages[firstError.kind] : messages.errors[firstError.kind]}
+          </p>
+          {isEditor && <p className="weather-time__note">{firstError.message}</p>}
+          <button onClick={() => fetchAllWithLoading(true)} part="retry">
+            {messages.retry}
+          </button>
+        </div>
+      )}
+      {entries.length > 0 && !(firstError && hasNoWeather && !hasClocks) && (
+        <ul aria-label={messages.worldClock} className="weather-time__world-clock">
+          {sortedRows.map((row) => {
+            const { entry, snapshot } = row;
+            const position = rows.indexOf(row);
+            // The label may have changed since the fetch, the location can't have (that re-fetches)
+            const label = entries[position]?.location === entry.location ? entries[position].label : entry.label;
+            const zone = getRowTimeZone(row);
+            const cityTime = zone ? now.setZone(zone).setLocale(locale) : null;
+            const dayOffset = cityTime ? formatDayOffset(cityTime, now, locale, messages) : "";
+            const temperature = snapshot ? (isFahrenheit ? snapshot.current.tempF : snapshot.current.tempC) : null;
+            const timeOfDay = snapshot?.current.isDay === false ? "night" : "day";
+
+            return (
+              <li
+                // The same city may be listed twice with different labels, so key by its configured position
+                key={`${position}:${entry.location}`}
+                className="weather-time__world-clock-row"
+              >
+                {snapshot ? (
+                  <img
+                    src={`${imageBasePath}/${getIconFilename(snapshot.current.conditionCode || 1000, timeOfDay)}`}
+                    alt={snapshot.current.conditionText}
+                    className="weather-time__world-clock-icon"
+                  />
+                ) : (
+                  <span className="weather-time__world-clock-icon" />
+                )}
+                <span className="weather-time__world-clock-city">
+                  {label || snapshot?.location.name || entry.location}
+                </span>
+                <span>
+                  {cityTime ? cityTime.toLocaleString(DateTime.TIME_SIMPLE) : "–"}
+                  {dayOffset && <span className="weather-time__world-clock-offset">{dayOffset}</span>}
+                </span>
+                <button onClick={() => setIsFahrenheit((prev) => !prev)} className="weather-time__world-clock-temperature">
+                  {temperature === null ? "–" : `${Math.round(temperature)}°${isFahrenheit ? "F" : "C"}`}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};